@@ -0,0 +1,486 @@
+// The boundary between the MCP server and Discord.
+//
+// Tools, resources, the event inbox and the scheduler never talk to discord.js directly: each bot is a
+// DiscordBackend, and everything they read from it is one of the plain records below. DiscordJsBackend
+// (discord-backend.ts) implements it against the real API; SandboxBackend (sandbox.ts) against an in-memory
+// server seeded from a fixture file, for --sandbox mode and the tests.
+import { ChannelType } from 'discord.js';
+import type {
+  APIEmbed,
+  AuditLogEvent,
+  AutoModerationActionType,
+  AutoModerationRuleKeywordPresetType,
+  AutoModerationRuleTriggerType,
+} from 'discord.js';
+
+// --- Records ---
+export interface GuildInfo {
+  id: string;
+  name: string;
+  ownerId: string;
+  memberCount: number;
+}
+
+export interface GuildCounts {
+  approximateMemberCount: number | null;
+  approximatePresenceCount: number | null;
+}
+
+export interface UserInfo {
+  id: string;
+  username: string;
+  globalName: string | null;
+  tag: string;
+  bot: boolean;
+  createdAt: Date;
+}
+
+export interface MemberInfo {
+  id: string;
+  guild: GuildInfo;
+  user: UserInfo;
+  nickname: string | null;
+  displayName: string;
+  // The member's roles, not counting @everyone, which every member has
+  roleIds: string[];
+  joinedAt: Date | null;
+  premiumSince: Date | null;
+  pending: boolean;
+  communicationDisabledUntil: Date | null;
+  avatarUrl: string;
+}
+
+export interface RoleInfo {
+  id: string;
+  guild: GuildInfo;
+  name: string;
+  color: number;
+  hoist: boolean;
+  position: number;
+  permissions: bigint;
+  mentionable: boolean;
+  managed: boolean;
+  tags: { botId: string | null; premiumSubscriberRole: boolean; integrationId: string | null } | null;
+}
+
+export interface PermissionOverwriteInfo {
+  id: string;
+  type: 'role' | 'member';
+  allow: bigint;
+  deny: bigint;
+}
+
+export interface ForumTagInfo {
+  id: string;
+  name: string;
+}
+
+export interface ThreadInfo {
+  ownerId: string | null;
+  archived: boolean;
+  locked: boolean;
+  messageCount: number | null;
+  memberCount: number | null;
+  createdAt: Date | null;
+  appliedTags: string[];
+}
+
+export interface ChannelInfo {
+  id: string;
+  guild: GuildInfo;
+  name: string;
+  type: ChannelType;
+  parentId: string | null;
+  parent: ChannelInfo | null;
+  // Sorting position among the channels next to it, as Discord clients order them
+  position: number;
+  topic: string | null;
+  nsfw: boolean;
+  rateLimitPerUser: number;
+  lastMessageId: string | null;
+  permissionOverwrites: PermissionOverwriteInfo[];
+  // Whether the overwrites match the parent category's; null for channels outside a category and threads
+  permissionsLocked: boolean | null;
+  availableTags: ForumTagInfo[];
+  requireTag: boolean;
+  // Set for threads only
+  thread: ThreadInfo | null;
+}
+
+export interface EmojiInfo {
+  // Null for unicode emoji
+  id: string | null;
+  name: string | null;
+  animated: boolean;
+}
+
+export interface AttachmentInfo {
+  id: string;
+  name: string;
+  size: number;
+  url: string;
+  contentType: string | null;
+}
+
+export interface ReactionInfo {
+  emoji: EmojiInfo;
+  count: number;
+  // Whether the bot itself reacted
+  me: boolean;
+}
+
+export interface PollInfo {
+  question: string;
+  answers: { id: number; text: string | null; emoji: EmojiInfo | null; voteCount: number }[];
+  expiresAt: Date | null;
+  allowMultiselect: boolean;
+  resultsFinalized: boolean;
+}
+
+export interface MessageInfo {
+  id: string;
+  channelId: string;
+  guildId: string;
+  author: UserInfo;
+  content: string;
+  createdAt: Date;
+  editedAt: Date | null;
+  pinned: boolean;
+  url: string;
+  mentionedUserIds: string[];
+  attachments: AttachmentInfo[];
+  embedCount: number;
+  reactions: ReactionInfo[];
+  poll: PollInfo | null;
+  // The thread started from this message, if any
+  thread: { id: string; name: string | null } | null;
+}
+
+export interface BanInfo {
+  user: UserInfo;
+  reason: string | null;
+}
+
+export interface AuditLogEntryInfo {
+  id: string;
+  action: AuditLogEvent;
+  executorId: string | null;
+  executor: string | null;
+  targetId: string | null;
+  target: string | null;
+  reason: string | null;
+  changes: { key: string; old: unknown; new: unknown }[];
+  createdAt: Date;
+}
+
+export interface AutoModTriggerMetadata {
+  keywordFilter: string[];
+  regexPatterns: string[];
+  presets: AutoModerationRuleKeywordPresetType[];
+  allowList: string[];
+  mentionTotalLimit: number | null;
+  mentionRaidProtectionEnabled: boolean;
+}
+
+export interface AutoModActionInfo {
+  type: AutoModerationActionType;
+  metadata: { customMessage?: string | null; channelId?: string | null; durationSeconds?: number | null };
+}
+
+export interface AutoModRuleInfo {
+  id: string;
+  guildId: string;
+  name: string;
+  creatorId: string;
+  enabled: boolean;
+  triggerType: AutoModerationRuleTriggerType;
+  triggerMetadata: AutoModTriggerMetadata;
+  actions: AutoModActionInfo[];
+  exemptRoleIds: string[];
+  exemptChannelIds: string[];
+}
+// --- End Records ---
+
+// --- Requests ---
+export interface ChannelCreateOptions {
+  name: string;
+  type: ChannelType;
+  parentId?: string;
+  topic?: string;
+  rateLimitPerUser?: number;
+  nsfw?: boolean;
+  position?: number;
+  reason?: string;
+}
+
+export interface ChannelEditOptions {
+  name?: string;
+  topic?: string;
+  rateLimitPerUser?: number;
+  nsfw?: boolean;
+  parentId?: string | null;
+  // Copy the new parent category's overwrites when moving into it
+  lockPermissions?: boolean;
+  position?: number;
+  // Threads only
+  archived?: boolean;
+  locked?: boolean;
+  reason?: string;
+}
+
+export interface ThreadCreateOptions {
+  name: string;
+  autoArchiveMinutes?: number;
+  // Start the thread from this message instead of creating a standalone one
+  messageId?: string;
+  private?: boolean;
+}
+
+export interface ForumPostOptions {
+  name: string;
+  message: string;
+  appliedTags: string[];
+  autoArchiveMinutes?: number;
+}
+
+export interface OutgoingMessage {
+  content?: string;
+  embeds?: APIEmbed[];
+  // Local files, already checked against the attachment directory
+  files?: { path: string; name: string }[];
+  replyTo?: string;
+  allowedMentions?: {
+    parse?: ('users' | 'roles' | 'everyone')[];
+    users?: string[];
+    roles?: string[];
+    repliedUser?: boolean;
+  };
+  poll?: {
+    question: string;
+    answers: { text: string; emoji?: EmojiInfo }[];
+    durationHours: number;
+    allowMultiselect: boolean;
+  };
+}
+
+export interface MessageFetchOptions {
+  limit: number;
+  before?: string;
+  after?: string;
+  around?: string;
+}
+
+export interface RoleOptions {
+  name?: string;
+  color?: number;
+  permissions?: bigint;
+  mentionable?: boolean;
+  reason?: string;
+}
+
+export interface AuditLogFetchOptions {
+  type?: AuditLogEvent;
+  userId?: string;
+  before?: string;
+  limit: number;
+}
+
+export interface AutoModRuleOptions {
+  name: string;
+  triggerType: AutoModerationRuleTriggerType;
+  triggerMetadata: Partial<AutoModTriggerMetadata>;
+  actions: AutoModActionInfo[];
+  enabled: boolean;
+  exemptRoleIds: string[];
+  exemptChannelIds: string[];
+  reason?: string;
+}
+
+export type AutoModRuleEdit = Partial<Omit<AutoModRuleOptions, 'triggerType'>>;
+// --- End Requests ---
+
+// --- Events ---
+export interface MessageUpdateEvent {
+  guildId: string;
+  channelId: string;
+  messageId: string;
+  author: UserInfo | null;
+  // Null when the message was sent before the bot started, so its old content is unknown
+  oldContent: string | null;
+  newContent: string | null;
+}
+
+export interface MessageDeleteEvent {
+  guildId: string;
+  channelId: string;
+  messageId: string;
+  author: UserInfo | null;
+  content: string | null;
+}
+
+export interface ReactionEvent {
+  guildId: string;
+  channelId: string;
+  messageId: string;
+  emoji: EmojiInfo;
+  userId: string;
+  user: string | null;
+}
+
+export interface RateLimitInfo {
+  method: string;
+  route: string;
+  global: boolean;
+  timeToReset: number;
+}
+
+export interface DiscordEvents {
+  ready: [user: UserInfo];
+  messageCreate: [message: MessageInfo];
+  messageUpdate: [update: MessageUpdateEvent];
+  messageDelete: [deletion: MessageDeleteEvent];
+  memberAdd: [member: MemberInfo];
+  memberRemove: [guildId: string, user: UserInfo];
+  reactionAdd: [reaction: ReactionEvent];
+  reactionRemove: [reaction: ReactionEvent];
+  // A channel or thread of the guild was created, changed or deleted
+  channelsChanged: [guildId: string];
+  rolesChanged: [guildId: string];
+  // The bot joined or left a guild, or one was renamed
+  guildsChanged: [];
+  rateLimited: [info: RateLimitInfo];
+}
+// --- End Events ---
+
+// --- Errors ---
+/** A request Discord refused, with its JSON error code (RESTJSONErrorCodes). */
+export class DiscordRequestError extends Error {
+  constructor(readonly code: number, message: string) {
+    super(message);
+    this.name = 'DiscordRequestError';
+  }
+}
+
+/** A request given up on because Discord rate limited it for longer than the caller was willing to wait. */
+export class DiscordRateLimitError extends Error {
+  constructor(readonly route: string, readonly retryAfterMs: number) {
+    super(`Rate limited on ${route}`);
+    this.name = 'DiscordRateLimitError';
+  }
+}
+// --- End Errors ---
+
+// One bot's view of Discord. The synchronous methods read what the bot already knows from its gateway
+// connection; the others make requests and fail with DiscordRequestError or DiscordRateLimitError.
+export interface DiscordBackend {
+  /** The bot's own account, once logged in. */
+  readonly user: UserInfo | null;
+  isReady(): boolean;
+  login(token: string): Promise<void>;
+  destroy(): Promise<void>;
+  on<E extends keyof DiscordEvents>(event: E, listener: (...args: DiscordEvents[E]) => void): void;
+
+  // Guilds
+  guilds(): GuildInfo[];
+  guild(guildId: string): GuildInfo | undefined;
+  fetchGuild(guildId: string): Promise<GuildInfo>;
+  fetchGuildCounts(guildId: string): Promise<GuildCounts>;
+  emojis(guildId: string): EmojiInfo[];
+  /** A custom emoji from any guild the bot is in. */
+  emoji(emojiId: string): EmojiInfo | undefined;
+
+  // Channels and threads
+  channels(guildId: string): ChannelInfo[];
+  channel(channelId: string): ChannelInfo | undefined;
+  fetchChannel(channelId: string): Promise<ChannelInfo>;
+  fetchActiveThreads(guildId: string): Promise<ChannelInfo[]>;
+  /** Archived threads of a channel, most recently archived first. */
+  fetchArchivedThreads(channelId: string, options: { type: 'public' | 'private'; limit: number }): Promise<ChannelInfo[]>;
+  createChannel(guildId: string, options: ChannelCreateOptions): Promise<ChannelInfo>;
+  editChannel(channelId: string, changes: ChannelEditOptions): Promise<ChannelInfo>;
+  cloneChannel(channelId: string, name: string): Promise<ChannelInfo>;
+  deleteChannel(channelId: string, reason?: string): Promise<void>;
+  editPermissionOverwrite(channelId: string, target: { id: string; type: 'role' | 'member' }, changes: { allow: bigint; deny: bigint; inherit: bigint }, reason?: string): Promise<ChannelInfo>;
+  deletePermissionOverwrite(channelId: string, targetId: string, reason?: string): Promise<ChannelInfo>;
+  createThread(channelId: string, options: ThreadCreateOptions): Promise<ChannelInfo>;
+  createForumPost(forumId: string, options: ForumPostOptions): Promise<ChannelInfo>;
+
+  // Messages
+  /** One page of a channel's history, newest first. */
+  fetchMessages(channelId: string, options: MessageFetchOptions): Promise<MessageInfo[]>;
+  fetchMessage(channelId: string, messageId: string): Promise<MessageInfo>;
+  fetchPinnedMessages(channelId: string): Promise<MessageInfo[]>;
+  sendMessage(channelId: string, message: OutgoingMessage): Promise<MessageInfo>;
+  editMessage(channelId: string, messageId: string, content: string): Promise<MessageInfo>;
+  deleteMessage(channelId: string, messageId: string): Promise<void>;
+  /** Deletes 2 to 100 messages under 14 days old, returning how many were deleted. */
+  bulkDeleteMessages(channelId: string, messageIds: string[]): Promise<number>;
+  setMessagePinned(channelId: string, messageId: string, pinned: boolean): Promise<void>;
+  addReaction(channelId: string, messageId: string, emoji: EmojiInfo): Promise<void>;
+  removeReaction(channelId: string, messageId: string, emoji: EmojiInfo, userId: string): Promise<void>;
+  fetchReactionUsers(channelId: string, messageId: string, emoji: EmojiInfo, options: { limit: number; after?: string }): Promise<UserInfo[]>;
+  fetchPollVoters(channelId: string, messageId: string, answerId: number, options: { limit: number; after?: string }): Promise<UserInfo[]>;
+
+  // Roles
+  roles(guildId: string): RoleInfo[];
+  fetchRoles(guildId: string): Promise<RoleInfo[]>;
+  createRole(guildId: string, options: RoleOptions): Promise<RoleInfo>;
+  editRole(guildId: string, roleId: string, changes: RoleOptions): Promise<RoleInfo>;
+  deleteRole(guildId: string, roleId: string, reason?: string): Promise<void>;
+
+  // Members
+  /** The members the bot has seen, which is every member once fetchAllMembers has finished. */
+  members(guildId: string): MemberInfo[];
+  fetchMember(guildId: string, userId: string): Promise<MemberInfo>;
+  fetchMe(guildId: string): Promise<MemberInfo>;
+  fetchAllMembers(guildId: string): Promise<void>;
+  /** One page of the member list in ID order, without filling the member cache. */
+  listMembers(guildId: string, options: { limit: number; after?: string }): Promise<MemberInfo[]>;
+  searchMembers(guildId: string, query: string, limit: number): Promise<MemberInfo[]>;
+  addMemberRole(guildId: string, userId: string, roleId: string, reason?: string): Promise<void>;
+  removeMemberRole(guildId: string, userId: string, roleId: string, reason?: string): Promise<void>;
+  /** Times a member out until the given time, or lifts the timeout with null. */
+  timeoutMember(guildId: string, userId: string, until: Date | null, reason?: string): Promise<MemberInfo>;
+  kickMember(guildId: string, userId: string, reason?: string): Promise<void>;
+  banUser(guildId: string, userId: string, options: { reason?: string; deleteMessageSeconds: number }): Promise<void>;
+  unbanUser(guildId: string, userId: string, reason?: string): Promise<void>;
+  fetchBans(guildId: string): Promise<BanInfo[]>;
+
+  // Audit log and AutoMod
+  /** Audit log entries, newest first. */
+  fetchAuditLog(guildId: string, options: AuditLogFetchOptions): Promise<AuditLogEntryInfo[]>;
+  fetchAutoModRules(guildId: string): Promise<AutoModRuleInfo[]>;
+  createAutoModRule(guildId: string, options: AutoModRuleOptions): Promise<AutoModRuleInfo>;
+  editAutoModRule(guildId: string, ruleId: string, changes: AutoModRuleEdit): Promise<AutoModRuleInfo>;
+  deleteAutoModRule(guildId: string, ruleId: string, reason?: string): Promise<void>;
+}
+
+// --- Helpers ---
+const THREAD_TYPES = new Set<ChannelType>([ChannelType.PublicThread, ChannelType.PrivateThread, ChannelType.AnnouncementThread]);
+
+const TEXT_BASED_TYPES = new Set<ChannelType>([
+  ChannelType.GuildText,
+  ChannelType.GuildAnnouncement,
+  ChannelType.GuildVoice,
+  ChannelType.GuildStageVoice,
+  ...THREAD_TYPES,
+]);
+
+export function isThreadType(type: ChannelType): boolean {
+  return THREAD_TYPES.has(type);
+}
+
+// Channels that hold messages: text, announcement, voice and stage chat, and threads
+export function isTextBasedType(type: ChannelType): boolean {
+  return TEXT_BASED_TYPES.has(type);
+}
+
+// Formats an emoji the way Discord renders it in message content
+export function formatEmoji(emoji: EmojiInfo): string {
+  return emoji.id ? `<${emoji.animated ? 'a' : ''}:${emoji.name ?? 'emoji'}:${emoji.id}>` : emoji.name ?? '';
+}
+
+export function messageUrl(guildId: string, channelId: string, messageId: string): string {
+  return `https://discord.com/channels/${guildId}/${channelId}/${messageId}`;
+}
+// --- End Helpers ---
@@ -0,0 +1,839 @@
+// The DiscordBackend of a real bot: a discord.js client logged into the gateway. Reads come from discord.js's
+// caches, which the gateway keeps current; requests go through its REST manager, which queues them per
+// rate-limit bucket. Every discord.js object is turned into a plain record before it leaves this file.
+import { EventEmitter } from 'events';
+import {
+  AutoModerationRule,
+  ChannelFlags,
+  ChannelType,
+  Client,
+  DiscordAPIError,
+  Emoji,
+  GatewayIntentBits,
+  Guild,
+  GuildAuditLogsEntry,
+  GuildBasedChannel,
+  GuildMember,
+  Message,
+  MessageReaction,
+  OverwriteType,
+  Partials,
+  PartialMessage,
+  PartialMessageReaction,
+  PartialUser,
+  PermissionsBitField,
+  RateLimitError,
+  Role,
+  ThreadAutoArchiveDuration,
+  User,
+} from 'discord.js';
+import type {
+  AutoModerationActionOptions,
+  GuildTextBasedChannel,
+  PermissionOverwriteOptions,
+} from 'discord.js';
+import {
+  DiscordRateLimitError,
+  DiscordRequestError,
+  isTextBasedType,
+} from './backend.js';
+import type {
+  AuditLogEntryInfo,
+  AuditLogFetchOptions,
+  AutoModActionInfo,
+  AutoModRuleEdit,
+  AutoModRuleInfo,
+  AutoModRuleOptions,
+  BanInfo,
+  ChannelCreateOptions,
+  ChannelEditOptions,
+  ChannelInfo,
+  DiscordBackend,
+  DiscordEvents,
+  EmojiInfo,
+  ForumPostOptions,
+  GuildCounts,
+  GuildInfo,
+  MemberInfo,
+  MessageFetchOptions,
+  MessageInfo,
+  OutgoingMessage,
+  ReactionEvent,
+  RoleInfo,
+  RoleOptions,
+  ThreadCreateOptions,
+  UserInfo,
+} from './backend.js';
+
+// --- Records ---
+function toGuild(guild: Guild): GuildInfo {
+  return { id: guild.id, name: guild.name, ownerId: guild.ownerId, memberCount: guild.memberCount };
+}
+
+function toUser(user: User): UserInfo {
+  return { id: user.id, username: user.username, globalName: user.globalName, tag: user.tag, bot: user.bot, createdAt: user.createdAt };
+}
+
+function toMember(member: GuildMember): MemberInfo {
+  return {
+    id: member.id,
+    guild: toGuild(member.guild),
+    user: toUser(member.user),
+    nickname: member.nickname,
+    displayName: member.displayName,
+    roleIds: member.roles.cache.filter(role => role.id !== member.guild.id).map(role => role.id),
+    joinedAt: member.joinedAt,
+    premiumSince: member.premiumSince,
+    pending: member.pending,
+    communicationDisabledUntil: member.communicationDisabledUntil,
+    avatarUrl: member.displayAvatarURL({ size: 512 }),
+  };
+}
+
+function toRole(role: Role): RoleInfo {
+  return {
+    id: role.id,
+    guild: toGuild(role.guild),
+    name: role.name,
+    color: role.color,
+    hoist: role.hoist,
+    position: role.position,
+    permissions: role.permissions.bitfield,
+    mentionable: role.mentionable,
+    managed: role.managed,
+    tags: role.tags
+      ? {
+        botId: role.tags.botId ?? null,
+        premiumSubscriberRole: role.tags.premiumSubscriberRole ?? false,
+        integrationId: role.tags.integrationId ?? null,
+      }
+      : null,
+  };
+}
+
+function toChannel(channel: GuildBasedChannel): ChannelInfo {
+  const thread = channel.isThread() ? channel : null;
+  return {
+    id: channel.id,
+    guild: toGuild(channel.guild),
+    name: channel.name,
+    type: channel.type,
+    parentId: channel.parentId,
+    parent: channel.parent ? toChannel(channel.parent) : null,
+    position: channel.isThread() ? 0 : channel.position,
+    topic: 'topic' in channel ? channel.topic ?? null : null,
+    nsfw: 'nsfw' in channel ? channel.nsfw : false,
+    rateLimitPerUser: 'rateLimitPerUser' in channel ? channel.rateLimitPerUser ?? 0 : 0,
+    lastMessageId: 'lastMessageId' in channel ? channel.lastMessageId : null,
+    permissionOverwrites: channel.isThread() ? [] : channel.permissionOverwrites.cache.map(overwrite => ({
+      id: overwrite.id,
+      type: overwrite.type === OverwriteType.Role ? 'role' : 'member',
+      allow: overwrite.allow.bitfield,
+      deny: overwrite.deny.bitfield,
+    })),
+    permissionsLocked: channel.isThread() ? null : channel.permissionsLocked,
+    availableTags: channel.type === ChannelType.GuildForum || channel.type === ChannelType.GuildMedia
+      ? channel.availableTags.map(tag => ({ id: tag.id, name: tag.name }))
+      : [],
+    requireTag: channel.flags.has(ChannelFlags.RequireTag),
+    thread: thread
+      ? {
+        ownerId: thread.ownerId,
+        archived: thread.archived ?? false,
+        locked: thread.locked ?? false,
+        messageCount: thread.messageCount,
+        memberCount: thread.memberCount,
+        createdAt: thread.createdAt,
+        appliedTags: thread.appliedTags,
+      }
+      : null,
+  };
+}
+
+function toEmoji(emoji: Emoji): EmojiInfo {
+  return { id: emoji.id, name: emoji.name, animated: emoji.animated ?? false };
+}
+
+function toMessage(message: Message<true>): MessageInfo {
+  const { poll } = message;
+  return {
+    id: message.id,
+    channelId: message.channelId,
+    guildId: message.guildId,
+    author: toUser(message.author),
+    content: message.content,
+    createdAt: message.createdAt,
+    editedAt: message.editedAt,
+    pinned: message.pinned,
+    url: message.url,
+    mentionedUserIds: [...message.mentions.users.keys()],
+    attachments: message.attachments.map(attachment => ({
+      id: attachment.id,
+      name: attachment.name,
+      size: attachment.size,
+      url: attachment.url,
+      contentType: attachment.contentType,
+    })),
+    embedCount: message.embeds.length,
+    reactions: message.reactions.cache.map(reaction => ({ emoji: toEmoji(reaction.emoji), count: reaction.count, me: reaction.me })),
+    poll: poll
+      ? {
+        question: poll.question.text ?? '',
+        answers: poll.answers.map(answer => ({
+          id: answer.id,
+          text: answer.text,
+          emoji: answer.emoji ? toEmoji(answer.emoji) : null,
+          voteCount: answer.voteCount,
+        })),
+        expiresAt: poll.expiresAt,
+        allowMultiselect: poll.allowMultiselect,
+        resultsFinalized: poll.resultsFinalized,
+      }
+      : null,
+    // A thread started from a message shares the message's ID
+    thread: message.hasThread ? { id: message.thread?.id ?? message.id, name: message.thread?.name ?? null } : null,
+  };
+}
+
+function toAuditLogEntry(entry: GuildAuditLogsEntry): AuditLogEntryInfo {
+  const target = entry.target as { name?: string; tag?: string } | null;
+  return {
+    id: entry.id,
+    action: entry.action,
+    executorId: entry.executorId,
+    executor: entry.executor?.tag ?? null,
+    targetId: entry.targetId,
+    target: target?.tag ?? target?.name ?? null,
+    reason: entry.reason,
+    changes: entry.changes.map(change => ({ key: change.key, old: change.old, new: change.new })),
+    createdAt: entry.createdAt,
+  };
+}
+
+function toAutoModRule(rule: AutoModerationRule): AutoModRuleInfo {
+  const metadata = rule.triggerMetadata;
+  return {
+    id: rule.id,
+    guildId: rule.guild.id,
+    name: rule.name,
+    creatorId: rule.creatorId,
+    enabled: rule.enabled,
+    triggerType: rule.triggerType,
+    triggerMetadata: {
+      keywordFilter: [...metadata.keywordFilter],
+      regexPatterns: [...metadata.regexPatterns],
+      presets: [...metadata.presets],
+      allowList: [...metadata.allowList],
+      mentionTotalLimit: metadata.mentionTotalLimit,
+      mentionRaidProtectionEnabled: metadata.mentionRaidProtectionEnabled,
+    },
+    actions: rule.actions.map(action => ({
+      type: action.type,
+      metadata: {
+        customMessage: action.metadata.customMessage,
+        channelId: action.metadata.channelId,
+        durationSeconds: action.metadata.durationSeconds,
+      },
+    })),
+    exemptRoleIds: [...rule.exemptRoles.keys()],
+    exemptChannelIds: [...rule.exemptChannels.keys()],
+  };
+}
+
+function toAutoModActions(actions: AutoModActionInfo[]): AutoModerationActionOptions[] {
+  return actions.map(action => ({
+    type: action.type,
+    metadata: {
+      customMessage: action.metadata.customMessage ?? undefined,
+      channel: action.metadata.channelId ?? undefined,
+      durationSeconds: action.metadata.durationSeconds ?? undefined,
+    },
+  }));
+}
+
+// The route segment Discord identifies a reaction emoji by
+function emojiIdentifier(emoji: EmojiInfo): string {
+  return emoji.id ? `${emoji.animated ? 'a:' : ''}${emoji.name ?? '_'}:${emoji.id}` : emoji.name ?? '';
+}
+
+function overwriteOptions(changes: { allow: bigint; deny: bigint; inherit: bigint }): PermissionOverwriteOptions {
+  const options: PermissionOverwriteOptions = {};
+  for (const name of new PermissionsBitField(changes.allow).toArray()) options[name] = true;
+  for (const name of new PermissionsBitField(changes.deny).toArray()) options[name] = false;
+  for (const name of new PermissionsBitField(changes.inherit).toArray()) options[name] = null;
+  return options;
+}
+// --- End Records ---
+
+// Helper function to give discord.js's request errors the backend's error types
+function toBackendError(error: unknown): unknown {
+  if (error instanceof RateLimitError) return new DiscordRateLimitError(error.route, error.retryAfter);
+  if (error instanceof DiscordAPIError) return new DiscordRequestError(typeof error.code === 'number' ? error.code : 0, error.message);
+  return error;
+}
+
+export class DiscordJsBackend implements DiscordBackend {
+  private readonly client: Client;
+  private readonly events = new EventEmitter();
+
+  constructor(intents: readonly string[]) {
+    this.client = new Client({
+      intents: intents.map(intent => GatewayIntentBits[intent as keyof typeof GatewayIntentBits]),
+      // Partials let edits, deletions and reactions on messages sent before startup reach the event inbox
+      partials: [Partials.Message, Partials.Reaction, Partials.User],
+    });
+    this.forwardEvents();
+  }
+
+  get user(): UserInfo | null {
+    return this.client.user ? toUser(this.client.user) : null;
+  }
+
+  isReady(): boolean {
+    return this.client.isReady();
+  }
+
+  async login(token: string): Promise<void> {
+    await this.client.login(token);
+  }
+
+  async destroy(): Promise<void> {
+    await this.client.destroy();
+  }
+
+  on<E extends keyof DiscordEvents>(event: E, listener: (...args: DiscordEvents[E]) => void): void {
+    this.events.on(event, listener as (...args: unknown[]) => void);
+  }
+
+  private emit<E extends keyof DiscordEvents>(event: E, ...args: DiscordEvents[E]): void {
+    this.events.emit(event, ...args);
+  }
+
+  private forwardEvents(): void {
+    const client = this.client;
+    client.once('ready', ready => this.emit('ready', toUser(ready.user)));
+    client.rest.on('rateLimited', info => this.emit('rateLimited', {
+      method: info.method,
+      route: info.route,
+      global: info.global,
+      timeToReset: info.timeToReset,
+    }));
+
+    client.on('messageCreate', message => {
+      if (message.inGuild()) this.emit('messageCreate', toMessage(message));
+    });
+    client.on('messageUpdate', (oldMessage, newMessage) => {
+      if (!newMessage.guildId) return;
+      this.emit('messageUpdate', {
+        guildId: newMessage.guildId,
+        channelId: newMessage.channelId,
+        messageId: newMessage.id,
+        author: newMessage.author ? toUser(newMessage.author) : null,
+        oldContent: oldMessage.partial ? null : oldMessage.content,
+        newContent: newMessage.content,
+      });
+    });
+    client.on('messageDelete', (message: Message | PartialMessage) => {
+      if (!message.guildId) return;
+      this.emit('messageDelete', {
+        guildId: message.guildId,
+        channelId: message.channelId,
+        messageId: message.id,
+        author: message.author ? toUser(message.author) : null,
+        content: message.partial ? null : message.content,
+      });
+    });
+    client.on('guildMemberAdd', member => this.emit('memberAdd', toMember(member)));
+    client.on('guildMemberRemove', member => {
+      if (member.user) this.emit('memberRemove', member.guild.id, toUser(member.user));
+    });
+    const reactionEvent = (reaction: MessageReaction | PartialMessageReaction, user: User | PartialUser): ReactionEvent | null => {
+      const { message } = reaction;
+      if (!message.guildId) return null;
+      return {
+        guildId: message.guildId,
+        channelId: message.channelId,
+        messageId: message.id,
+        emoji: toEmoji(reaction.emoji),
+        userId: user.id,
+        user: user.tag ?? null,
+      };
+    };
+    client.on('messageReactionAdd', (reaction, user) => {
+      const event = reactionEvent(reaction, user);
+      if (event) this.emit('reactionAdd', event);
+    });
+    client.on('messageReactionRemove', (reaction, user) => {
+      const event = reactionEvent(reaction, user);
+      if (event) this.emit('reactionRemove', event);
+    });
+
+    const channelsChanged = (channel: { guildId?: string | null }) => {
+      if (channel.guildId) this.emit('channelsChanged', channel.guildId);
+    };
+    client.on('channelCreate', channelsChanged);
+    client.on('channelUpdate', (_old, channel) => channelsChanged(channel as { guildId?: string | null }));
+    client.on('channelDelete', channel => channelsChanged(channel as { guildId?: string | null }));
+    client.on('threadCreate', channelsChanged);
+    client.on('threadUpdate', (_old, thread) => channelsChanged(thread));
+    client.on('threadDelete', channelsChanged);
+    const rolesChanged = (role: Role) => this.emit('rolesChanged', role.guild.id);
+    client.on('roleCreate', rolesChanged);
+    client.on('roleUpdate', (_old, role) => rolesChanged(role));
+    client.on('roleDelete', rolesChanged);
+    client.on('guildCreate', () => this.emit('guildsChanged'));
+    client.on('guildDelete', () => this.emit('guildsChanged'));
+    client.on('guildUpdate', () => this.emit('guildsChanged'));
+  }
+
+  // Helper function to run discord.js requests, turning their errors into the backend's
+  private async request<T>(run: () => Promise<T>): Promise<T> {
+    try {
+      return await run();
+    } catch (error) {
+      throw toBackendError(error);
+    }
+  }
+
+  private cachedGuild(guildId: string): Guild {
+    const guild = this.client.guilds.cache.get(guildId);
+    if (!guild) throw new DiscordRequestError(10004, 'Unknown Guild');
+    return guild;
+  }
+
+  private async guildChannel(channelId: string): Promise<GuildBasedChannel> {
+    const channel = await this.client.channels.fetch(channelId);
+    if (!channel || channel.isDMBased()) throw new DiscordRequestError(10003, 'Unknown Channel');
+    return channel;
+  }
+
+  private async textChannel(channelId: string): Promise<GuildTextBasedChannel> {
+    const channel = await this.guildChannel(channelId);
+    if (!channel.isTextBased()) throw new DiscordRequestError(50008, 'Cannot send messages in a non-text channel');
+    return channel;
+  }
+
+  private async message(channelId: string, messageId: string): Promise<Message<true>> {
+    const channel = await this.textChannel(channelId);
+    return channel.messages.fetch({ message: messageId, force: true });
+  }
+
+  // --- Guilds ---
+  guilds(): GuildInfo[] {
+    return this.client.guilds.cache.map(toGuild);
+  }
+
+  guild(guildId: string): GuildInfo | undefined {
+    const guild = this.client.guilds.cache.get(guildId);
+    return guild ? toGuild(guild) : undefined;
+  }
+
+  fetchGuild(guildId: string): Promise<GuildInfo> {
+    return this.request(async () => toGuild(await this.client.guilds.fetch(guildId)));
+  }
+
+  fetchGuildCounts(guildId: string): Promise<GuildCounts> {
+    return this.request(async () => {
+      const counted = await this.client.guilds.fetch({ guild: guildId, withCounts: true, force: true });
+      return { approximateMemberCount: counted.approximateMemberCount, approximatePresenceCount: counted.approximatePresenceCount };
+    });
+  }
+
+  emojis(guildId: string): EmojiInfo[] {
+    return this.client.guilds.cache.get(guildId)?.emojis.cache.map(toEmoji) ?? [];
+  }
+
+  emoji(emojiId: string): EmojiInfo | undefined {
+    const emoji = this.client.emojis.cache.get(emojiId);
+    return emoji ? toEmoji(emoji) : undefined;
+  }
+  // --- End Guilds ---
+
+  // --- Channels and Threads ---
+  channels(guildId: string): ChannelInfo[] {
+    return this.client.guilds.cache.get(guildId)?.channels.cache.map(toChannel) ?? [];
+  }
+
+  channel(channelId: string): ChannelInfo | undefined {
+    const channel = this.client.channels.cache.get(channelId);
+    return channel && !channel.isDMBased() ? toChannel(channel) : undefined;
+  }
+
+  fetchChannel(channelId: string): Promise<ChannelInfo> {
+    return this.request(async () => toChannel(await this.guildChannel(channelId)));
+  }
+
+  fetchActiveThreads(guildId: string): Promise<ChannelInfo[]> {
+    return this.request(async () => {
+      const { threads } = await this.cachedGuild(guildId).channels.fetchActiveThreads();
+      return threads.map(toChannel);
+    });
+  }
+
+  fetchArchivedThreads(channelId: string, { type, limit }: { type: 'public' | 'private'; limit: number }): Promise<ChannelInfo[]> {
+    return this.request(async () => {
+      const channel = await this.guildChannel(channelId);
+      if (!('threads' in channel)) throw new DiscordRequestError(50024, 'Cannot execute action on this channel type');
+      const { threads } = await channel.threads.fetchArchived({ type, limit });
+      return threads.map(toChannel);
+    });
+  }
+
+  createChannel(guildId: string, options: ChannelCreateOptions): Promise<ChannelInfo> {
+    return this.request(async () => toChannel(await this.cachedGuild(guildId).channels.create({
+      name: options.name,
+      type: options.type as ChannelType.GuildText,
+      parent: options.parentId,
+      topic: options.topic,
+      rateLimitPerUser: options.rateLimitPerUser,
+      nsfw: options.nsfw,
+      position: options.position,
+      reason: options.reason,
+    })));
+  }
+
+  editChannel(channelId: string, changes: ChannelEditOptions): Promise<ChannelInfo> {
+    return this.request(async () => {
+      const channel = await this.guildChannel(channelId);
+      if (channel.isThread()) {
+        return toChannel(await channel.edit({
+          name: changes.name,
+          archived: changes.archived,
+          locked: changes.locked,
+          rateLimitPerUser: changes.rateLimitPerUser,
+          reason: changes.reason,
+        }));
+      }
+      let edited = channel;
+      if (changes.parentId !== undefined) {
+        edited = await edited.setParent(changes.parentId, { lockPermissions: changes.lockPermissions ?? false, reason: changes.reason });
+      }
+      if (changes.position !== undefined) edited = await edited.setPosition(changes.position, { reason: changes.reason });
+      const settings = { name: changes.name, topic: changes.topic, rateLimitPerUser: changes.rateLimitPerUser, nsfw: changes.nsfw };
+      if (Object.values(settings).some(value => value !== undefined)) {
+        edited = await edited.edit({ ...settings, reason: changes.reason });
+      }
+      return toChannel(edited);
+    });
+  }
+
+  cloneChannel(channelId: string, name: string): Promise<ChannelInfo> {
+    return this.request(async () => {
+      const channel = await this.guildChannel(channelId);
+      if (channel.isThread()) throw new DiscordRequestError(50024, 'Cannot execute action on this channel type');
+      return toChannel(await channel.clone({ name }));
+    });
+  }
+
+  deleteChannel(channelId: string, reason?: string): Promise<void> {
+    return this.request(async () => {
+      await (await this.guildChannel(channelId)).delete(reason);
+    });
+  }
+
+  editPermissionOverwrite(
+    channelId: string,
+    target: { id: string; type: 'role' | 'member' },
+    changes: { allow: bigint; deny: bigint; inherit: bigint },
+    reason?: string,
+  ): Promise<ChannelInfo> {
+    return this.request(async () => {
+      const channel = await this.guildChannel(channelId);
+      if (channel.isThread()) throw new DiscordRequestError(50024, 'Cannot execute action on this channel type');
+      await channel.permissionOverwrites.edit(target.id, overwriteOptions(changes), {
+        type: target.type === 'role' ? OverwriteType.Role : OverwriteType.Member,
+        reason,
+      });
+      return toChannel(channel);
+    });
+  }
+
+  deletePermissionOverwrite(channelId: string, targetId: string, reason?: string): Promise<ChannelInfo> {
+    return this.request(async () => {
+      const channel = await this.guildChannel(channelId);
+      if (channel.isThread()) throw new DiscordRequestError(50024, 'Cannot execute action on this channel type');
+      await channel.permissionOverwrites.delete(targetId, reason);
+      return toChannel(channel);
+    });
+  }
+
+  createThread(channelId: string, options: ThreadCreateOptions): Promise<ChannelInfo> {
+    return this.request(async () => {
+      const channel = await this.guildChannel(channelId);
+      if (channel.type !== ChannelType.GuildText && channel.type !== ChannelType.GuildAnnouncement) {
+        throw new DiscordRequestError(50024, 'Cannot execute action on this channel type');
+      }
+      const autoArchiveDuration = options.autoArchiveMinutes as ThreadAutoArchiveDuration | undefined;
+      if (options.messageId) {
+        const message = await channel.messages.fetch(options.messageId);
+        return toChannel(await message.startThread({ name: options.name, autoArchiveDuration }));
+      }
+      if (channel.type === ChannelType.GuildText) {
+        return toChannel(await channel.threads.create({
+          name: options.name,
+          autoArchiveDuration,
+          type: options.private ? ChannelType.PrivateThread : ChannelType.PublicThread,
+        }));
+      }
+      return toChannel(await channel.threads.create({ name: options.name, autoArchiveDuration }));
+    });
+  }
+
+  createForumPost(forumId: string, options: ForumPostOptions): Promise<ChannelInfo> {
+    return this.request(async () => {
+      const forum = await this.guildChannel(forumId);
+      if (forum.type !== ChannelType.GuildForum) throw new DiscordRequestError(50024, 'Cannot execute action on this channel type');
+      return toChannel(await forum.threads.create({
+        name: options.name,
+        message: { content: options.message, allowedMentions: { parse: ['users'] } },
+        appliedTags: options.appliedTags,
+        autoArchiveDuration: options.autoArchiveMinutes as ThreadAutoArchiveDuration | undefined,
+      }));
+    });
+  }
+  // --- End Channels and Threads ---
+
+  // --- Messages ---
+  fetchMessages(channelId: string, { limit, before, after, around }: MessageFetchOptions): Promise<MessageInfo[]> {
+    return this.request(async () => {
+      const page = await (await this.textChannel(channelId)).messages.fetch({ limit, before, after, around });
+      return page.map(toMessage);
+    });
+  }
+
+  fetchMessage(channelId: string, messageId: string): Promise<MessageInfo> {
+    return this.request(async () => toMessage(await this.message(channelId, messageId)));
+  }
+
+  fetchPinnedMessages(channelId: string): Promise<MessageInfo[]> {
+    return this.request(async () => (await (await this.textChannel(channelId)).messages.fetchPinned()).map(toMessage));
+  }
+
+  sendMessage(channelId: string, message: OutgoingMessage): Promise<MessageInfo> {
+    return this.request(async () => {
+      const channel = await this.textChannel(channelId);
+      const sent = await channel.send({
+        content: message.content,
+        embeds: message.embeds,
+        files: message.files?.map(file => ({ attachment: file.path, name: file.name })),
+        allowedMentions: message.allowedMentions,
+        reply: message.replyTo ? { messageReference: message.replyTo, failIfNotExists: true } : undefined,
+        poll: message.poll
+          ? {
+            question: { text: message.poll.question },
+            answers: message.poll.answers.map(answer => ({
+              text: answer.text,
+              emoji: answer.emoji ? answer.emoji.id ?? answer.emoji.name ?? undefined : undefined,
+            })),
+            duration: message.poll.durationHours,
+            allowMultiselect: message.poll.allowMultiselect,
+          }
+          : undefined,
+      });
+      return toMessage(sent);
+    });
+  }
+
+  editMessage(channelId: string, messageId: string, content: string): Promise<MessageInfo> {
+    return this.request(async () => toMessage(await (await this.message(channelId, messageId)).edit(content)));
+  }
+
+  deleteMessage(channelId: string, messageId: string): Promise<void> {
+    return this.request(async () => {
+      await (await this.textChannel(channelId)).messages.delete(messageId);
+    });
+  }
+
+  bulkDeleteMessages(channelId: string, messageIds: string[]): Promise<number> {
+    return this.request(async () => {
+      const channel = await this.textChannel(channelId);
+      if (!('bulkDelete' in channel)) throw new DiscordRequestError(50024, 'Cannot execute action on this channel type');
+      return (await channel.bulkDelete(messageIds, true)).size;
+    });
+  }
+
+  setMessagePinned(channelId: string, messageId: string, pinned: boolean): Promise<void> {
+    return this.request(async () => {
+      const { messages } = await this.textChannel(channelId);
+      if (pinned) await messages.pin(messageId);
+      else await messages.unpin(messageId);
+    });
+  }
+
+  addReaction(channelId: string, messageId: string, emoji: EmojiInfo): Promise<void> {
+    return this.request(async () => {
+      await (await this.textChannel(channelId)).messages.react(messageId, emojiIdentifier(emoji));
+    });
+  }
+
+  removeReaction(channelId: string, messageId: string, emoji: EmojiInfo, userId: string): Promise<void> {
+    return this.request(async () => {
+      const message = await this.message(channelId, messageId);
+      const reaction = message.reactions.cache.get(emoji.id ?? emoji.name ?? '');
+      if (!reaction) throw new DiscordRequestError(10014, 'Unknown Emoji');
+      await reaction.users.remove(userId);
+    });
+  }
+
+  fetchReactionUsers(channelId: string, messageId: string, emoji: EmojiInfo, { limit, after }: { limit: number; after?: string }): Promise<UserInfo[]> {
+    return this.request(async () => {
+      const message = await this.message(channelId, messageId);
+      const reaction = message.reactions.cache.get(emoji.id ?? emoji.name ?? '');
+      if (!reaction) return [];
+      return (await reaction.users.fetch({ limit, after })).map(toUser);
+    });
+  }
+
+  fetchPollVoters(channelId: string, messageId: string, answerId: number, { limit, after }: { limit: number; after?: string }): Promise<UserInfo[]> {
+    return this.request(async () => {
+      const message = await this.message(channelId, messageId);
+      const answer = message.poll?.answers.get(answerId);
+      if (!answer) return [];
+      return (await answer.fetchVoters({ limit, after })).map(toUser);
+    });
+  }
+  // --- End Messages ---
+
+  // --- Roles ---
+  roles(guildId: string): RoleInfo[] {
+    return this.client.guilds.cache.get(guildId)?.roles.cache.map(toRole) ?? [];
+  }
+
+  fetchRoles(guildId: string): Promise<RoleInfo[]> {
+    return this.request(async () => (await this.cachedGuild(guildId).roles.fetch()).map(toRole));
+  }
+
+  createRole(guildId: string, options: RoleOptions): Promise<RoleInfo> {
+    return this.request(async () => toRole(await this.cachedGuild(guildId).roles.create({
+      name: options.name,
+      color: options.color,
+      permissions: options.permissions,
+      mentionable: options.mentionable,
+      reason: options.reason,
+    })));
+  }
+
+  editRole(guildId: string, roleId: string, changes: RoleOptions): Promise<RoleInfo> {
+    return this.request(async () => toRole(await this.cachedGuild(guildId).roles.edit(roleId, {
+      name: changes.name,
+      color: changes.color,
+      permissions: changes.permissions,
+      mentionable: changes.mentionable,
+      reason: changes.reason,
+    })));
+  }
+
+  deleteRole(guildId: string, roleId: string, reason?: string): Promise<void> {
+    return this.request(() => this.cachedGuild(guildId).roles.delete(roleId, reason));
+  }
+  // --- End Roles ---
+
+  // --- Members ---
+  members(guildId: string): MemberInfo[] {
+    return this.client.guilds.cache.get(guildId)?.members.cache.map(toMember) ?? [];
+  }
+
+  fetchMember(guildId: string, userId: string): Promise<MemberInfo> {
+    return this.request(async () => toMember(await this.cachedGuild(guildId).members.fetch(userId)));
+  }
+
+  fetchMe(guildId: string): Promise<MemberInfo> {
+    return this.request(async () => toMember(await this.cachedGuild(guildId).members.fetchMe()));
+  }
+
+  fetchAllMembers(guildId: string): Promise<void> {
+    return this.request(async () => {
+      await this.cachedGuild(guildId).members.fetch();
+    });
+  }
+
+  listMembers(guildId: string, { limit, after }: { limit: number; after?: string }): Promise<MemberInfo[]> {
+    return this.request(async () => (await this.cachedGuild(guildId).members.list({ limit, after, cache: false })).map(toMember));
+  }
+
+  searchMembers(guildId: string, query: string, limit: number): Promise<MemberInfo[]> {
+    return this.request(async () => (await this.cachedGuild(guildId).members.search({ query, limit, cache: false })).map(toMember));
+  }
+
+  addMemberRole(guildId: string, userId: string, roleId: string, reason?: string): Promise<void> {
+    return this.request(async () => {
+      await this.cachedGuild(guildId).members.addRole({ user: userId, role: roleId, reason });
+    });
+  }
+
+  removeMemberRole(guildId: string, userId: string, roleId: string, reason?: string): Promise<void> {
+    return this.request(async () => {
+      await this.cachedGuild(guildId).members.removeRole({ user: userId, role: roleId, reason });
+    });
+  }
+
+  timeoutMember(guildId: string, userId: string, until: Date | null, reason?: string): Promise<MemberInfo> {
+    return this.request(async () => toMember(await this.cachedGuild(guildId).members.edit(userId, { communicationDisabledUntil: until, reason })));
+  }
+
+  kickMember(guildId: string, userId: string, reason?: string): Promise<void> {
+    return this.request(async () => {
+      await this.cachedGuild(guildId).members.kick(userId, reason);
+    });
+  }
+
+  banUser(guildId: string, userId: string, { reason, deleteMessageSeconds }: { reason?: string; deleteMessageSeconds: number }): Promise<void> {
+    return this.request(async () => {
+      await this.cachedGuild(guildId).members.ban(userId, { reason, deleteMessageSeconds });
+    });
+  }
+
+  unbanUser(guildId: string, userId: string, reason?: string): Promise<void> {
+    return this.request(async () => {
+      await this.cachedGuild(guildId).members.unban(userId, reason);
+    });
+  }
+
+  fetchBans(guildId: string): Promise<BanInfo[]> {
+    return this.request(async () => (await this.cachedGuild(guildId).bans.fetch()).map(ban => ({ user: toUser(ban.user), reason: ban.reason ?? null })));
+  }
+  // --- End Members ---
+
+  // --- Audit Log and AutoMod ---
+  fetchAuditLog(guildId: string, { type, userId, before, limit }: AuditLogFetchOptions): Promise<AuditLogEntryInfo[]> {
+    return this.request(async () => {
+      const page = await this.cachedGuild(guildId).fetchAuditLogs({ type, user: userId, before, limit });
+      return page.entries.map(toAuditLogEntry);
+    });
+  }
+
+  fetchAutoModRules(guildId: string): Promise<AutoModRuleInfo[]> {
+    return this.request(async () => (await this.cachedGuild(guildId).autoModerationRules.fetch()).map(toAutoModRule));
+  }
+
+  createAutoModRule(guildId: string, options: AutoModRuleOptions): Promise<AutoModRuleInfo> {
+    return this.request(async () => toAutoModRule(await this.cachedGuild(guildId).autoModerationRules.create({
+      name: options.name,
+      eventType: 1, // AutoModerationRuleEventType.MessageSend
+      triggerType: options.triggerType,
+      triggerMetadata: options.triggerMetadata,
+      actions: toAutoModActions(options.actions),
+      enabled: options.enabled,
+      exemptRoles: options.exemptRoleIds,
+      exemptChannels: options.exemptChannelIds,
+      reason: options.reason,
+    })));
+  }
+
+  editAutoModRule(guildId: string, ruleId: string, changes: AutoModRuleEdit): Promise<AutoModRuleInfo> {
+    return this.request(async () => toAutoModRule(await this.cachedGuild(guildId).autoModerationRules.edit(ruleId, {
+      name: changes.name,
+      triggerMetadata: changes.triggerMetadata,
+      actions: changes.actions ? toAutoModActions(changes.actions) : undefined,
+      enabled: changes.enabled,
+      exemptRoles: changes.exemptRoleIds,
+      exemptChannels: changes.exemptChannelIds,
+      reason: changes.reason,
+    })));
+  }
+
+  deleteAutoModRule(guildId: string, ruleId: string, reason?: string): Promise<void> {
+    return this.request(() => this.cachedGuild(guildId).autoModerationRules.delete(ruleId, reason));
+  }
+  // --- End Audit Log and AutoMod ---
+}
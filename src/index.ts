@@ -1,936 +1,7693 @@
-import { Server } from "@modelcontextprotocol/sdk/server/index.js";
-import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import dotenv from 'dotenv';
-import {
-  CallToolRequestSchema,
-  ListToolsRequestSchema,
-} from "@modelcontextprotocol/sdk/types.js";
-import { Client, GatewayIntentBits, TextChannel, ChannelType, Role, GuildMember, PermissionsBitField, ColorResolvable } from 'discord.js'; // Added Role, GuildMember, PermissionsBitField, ColorResolvable
-import { z } from 'zod';
-import path from 'path'; // Import the path module
-import { fileURLToPath } from 'url'; // Import fileURLToPath
-
-// Determine the directory of the current module (__dirname equivalent for ES Modules)
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-
-// Load environment variables from .env file in the project root (one level up from build)
-dotenv.config({ path: path.resolve(__dirname, '..', '.env') });
-
-// Discord client setup
-const client = new Client({
-  intents: [
-    GatewayIntentBits.Guilds,
-    GatewayIntentBits.GuildMessages,
-    GatewayIntentBits.MessageContent,
-    GatewayIntentBits.GuildMembers, // Added GuildMembers intent for role management
-  ],
-});
-
-// Helper function to find a guild by name or ID
-async function findGuild(guildIdentifier?: string) {
-  if (!guildIdentifier) {
-    // If no guild specified and bot is only in one guild, use that
-    if (client.guilds.cache.size === 1) {
-      return client.guilds.cache.first()!;
-    }
-    // List available guilds
-    const guildList = Array.from(client.guilds.cache.values())
-      .map(g => `"${g.name}"`).join(', ');
-    throw new Error(`Bot is in multiple servers. Please specify server name or ID. Available servers: ${guildList}`);
-  }
-
-  // Try to fetch by ID first
-  try {
-    const guild = await client.guilds.fetch(guildIdentifier);
-    if (guild) return guild;
-  } catch {
-    // If ID fetch fails, search by name
-    const guilds = client.guilds.cache.filter(
-      g => g.name.toLowerCase() === guildIdentifier.toLowerCase()
-    );
-    
-    if (guilds.size === 0) {
-      const availableGuilds = Array.from(client.guilds.cache.values())
-        .map(g => `"${g.name}"`).join(', ');
-      throw new Error(`Server "${guildIdentifier}" not found. Available servers: ${availableGuilds}`);
-    }
-    if (guilds.size > 1) {
-      const guildList = guilds.map(g => `${g.name} (ID: ${g.id})`).join(', ');
-      throw new Error(`Multiple servers found with name "${guildIdentifier}": ${guildList}. Please specify the server ID.`);
-    }
-    return guilds.first()!;
-  }
-  throw new Error(`Server "${guildIdentifier}" not found`);
-}
-
-// Helper function to find a channel by name or ID within a specific guild
-async function findChannel(channelIdentifier: string, guildIdentifier?: string): Promise<TextChannel> {
-  const guild = await findGuild(guildIdentifier);
-  
-  // First try to fetch by ID
-  try {
-    const channel = await client.channels.fetch(channelIdentifier);
-    if (channel instanceof TextChannel && channel.guild.id === guild.id) {
-      return channel;
-    }
-  } catch {
-    // If fetching by ID fails, search by name in the specified guild
-    const channels = guild.channels.cache.filter(
-      (channel): channel is TextChannel =>
-        channel instanceof TextChannel &&
-        (channel.name.toLowerCase() === channelIdentifier.toLowerCase() ||
-         channel.name.toLowerCase() === channelIdentifier.toLowerCase().replace('#', ''))
-    );
-
-    if (channels.size === 0) {
-      const availableChannels = guild.channels.cache
-        .filter((c): c is TextChannel => c instanceof TextChannel)
-        .map(c => `"#${c.name}"`).join(', ');
-      throw new Error(`Channel "${channelIdentifier}" not found in server "${guild.name}". Available channels: ${availableChannels}`);
-    }
-    if (channels.size > 1) {
-      const channelList = channels.map(c => `#${c.name} (${c.id})`).join(', ');
-      throw new Error(`Multiple channels found with name "${channelIdentifier}" in server "${guild.name}": ${channelList}. Please specify the channel ID.`);
-    }
-    return channels.first()!;
-  }
-  throw new Error(`Channel "${channelIdentifier}" is not a text channel or not found in server "${guild.name}"`);
-}
-
-// Helper function to find a role by name or ID within a specific guild
-async function findRole(roleIdentifier: string, guildIdentifier?: string): Promise<Role> {
-  const guild = await findGuild(guildIdentifier);
-
-  // Try fetching by ID first
-  let role = guild.roles.cache.get(roleIdentifier);
-  if (role) return role;
-
-  // If not found by ID, search by name (case-insensitive)
-  role = guild.roles.cache.find(r => r.name.toLowerCase() === roleIdentifier.toLowerCase());
-  if (role) return role;
-
-  // If still not found, try fetching all roles and searching again (in case cache is stale)
-  try {
-    await guild.roles.fetch(); // Refresh cache
-    role = guild.roles.cache.get(roleIdentifier) ?? guild.roles.cache.find(r => r.name.toLowerCase() === roleIdentifier.toLowerCase());
-    if (role) return role;
-  } catch (error) {
-    console.error(`Error fetching roles for guild ${guild.id}:`, error);
-    // Fall through to throw not found error
-  }
-
-  const availableRoles = guild.roles.cache.map(r => `"${r.name}"`).join(', ');
-  throw new Error(`Role "${roleIdentifier}" not found in server "${guild.name}". Available roles: ${availableRoles}`);
-}
-
-// Helper function to find a guild member by ID, username#discriminator, or mention
-async function findMember(userIdentifier: string, guildIdentifier?: string): Promise<GuildMember> {
-  const guild = await findGuild(guildIdentifier);
-
-  // Try fetching by ID
-  try {
-    const member = await guild.members.fetch(userIdentifier.replace(/[<@!>]/g, '')); // Clean potential mention syntax
-    if (member) return member;
-  } catch {
-    // Ignore error if ID fetch fails
-  }
-
-  // Try searching by username#discriminator
-  const lowerUserIdentifier = userIdentifier.toLowerCase();
-  let member = guild.members.cache.find(m => m.user.tag.toLowerCase() === lowerUserIdentifier);
-  if (member) return member;
-
-  // Try searching by nickname or username (less reliable)
-  member = guild.members.cache.find(m =>
-    (m.nickname?.toLowerCase() === lowerUserIdentifier) ||
-    (m.user.username.toLowerCase() === lowerUserIdentifier)
-  );
-  if (member) return member;
-
-  // If still not found, try fetching all members and searching again
-  try {
-    await guild.members.fetch(); // Refresh cache
-    member = guild.members.cache.get(userIdentifier.replace(/[<@!>]/g, '')) ??
-             guild.members.cache.find(m => m.user.tag.toLowerCase() === lowerUserIdentifier) ??
-             guild.members.cache.find(m =>
-               (m.nickname?.toLowerCase() === lowerUserIdentifier) ||
-               (m.user.username.toLowerCase() === lowerUserIdentifier)
-             );
-    if (member) return member;
-  } catch (error) {
-    console.error(`Error fetching members for guild ${guild.id}:`, error);
-    // Fall through to throw not found error
-  }
-
-  throw new Error(`User "${userIdentifier}" not found in server "${guild.name}".`);
-}
-
-// Updated validation schemas
-const SendMessageSchema = z.object({
-  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
-  channel: z.string().describe('Channel name (e.g., "general") or ID'),
-  message: z.string(),
-});
-
-const ReadMessagesSchema = z.object({
-  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
-  channel: z.string().describe('Channel name (e.g., "general") or ID'),
-  limit: z.number().min(1).max(100).default(50),
-});
-
-// New validation schemas
-const ReadMultipleChannelsSchema = z.object({
-  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
-  channels: z.array(z.string()).optional().describe('List of channel names or IDs (optional, defaults to all text channels)'),
-  limitPerChannel: z.number().min(1).max(50).default(10).describe('Max messages per channel (default 10, max 50)'),
-});
-const ListChannelsSchema = z.object({
-  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
-});
-
-const ListServersSchema = z.object({}); // No arguments needed
-
-const CreateChannelSchema = z.object({
-  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
-  channelName: z.string().describe('Name for the new text channel'),
-});
-
-// --- Role Management Schemas ---
-const ListRolesSchema = z.object({
-  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
-});
-
-const AssignRoleSchema = z.object({
-  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
-  user: z.string().describe('User name#discriminator, user ID, or user mention'),
-  role: z.string().describe('Role name or ID'),
-});
-
-const RemoveRoleSchema = z.object({
-  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
-  user: z.string().describe('User name#discriminator, user ID, or user mention'),
-  role: z.string().describe('Role name or ID'),
-});
-
-const CreateRoleSchema = z.object({
-  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
-  roleName: z.string().describe('Name for the new role'),
-  color: z.string().optional().describe('Hex color code for the role (e.g., #FF0000)'),
-  permissions: z.array(z.string()).optional().describe('List of permission names (e.g., ["SendMessages", "ManageMessages"])'),
-  mentionable: z.boolean().optional().default(false).describe('Whether the role should be mentionable'),
-});
-
-const DeleteRoleSchema = z.object({
-  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
-  role: z.string().describe('Role name or ID to delete'),
-});
-
-const UpdateRoleSchema = z.object({
-  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
-  role: z.string().describe('Role name or ID to update'),
-  newName: z.string().optional().describe('New name for the role'),
-  newColor: z.string().optional().describe('New hex color code for the role'),
-  newPermissions: z.array(z.string()).optional().describe('New list of permission names (replaces existing)'),
-  newMentionable: z.boolean().optional().describe('New mentionable status'),
-});
-// --- End Role Management Schemas ---
-
-// --- Member Count Schemas ---
-const GetMemberCountSchema = z.object({
-  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
-});
-
-const GetRoleMemberCountSchema = z.object({
-  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
-  role: z.string().describe('Role name or ID'),
-});
-// --- End Member Count Schemas ---
-
-// Create server instance
-const server = new Server(
-  {
-    name: "discord",
-    version: "1.0.0",
-  },
-  {
-    capabilities: {
-      tools: {}, // This might be dynamically populated or just a placeholder
-    },
-  }
-);
-
-// List available tools
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return {
-    tools: [
-      {
-        name: "send-message",
-        description: "Send a message to a Discord channel",
-        inputSchema: {
-          type: "object",
-          properties: {
-            server: {
-              type: "string",
-              description: 'Server name or ID (optional if bot is only in one server)',
-            },
-            channel: {
-              type: "string",
-              description: 'Channel name (e.g., "general") or ID',
-            },
-            message: {
-              type: "string",
-              description: "Message content to send",
-            },
-          },
-          required: ["channel", "message"],
-        },
-      },
-      {
-        name: "read-messages",
-        description: "Read recent messages from a Discord channel",
-        inputSchema: {
-          type: "object",
-          properties: {
-            server: {
-              type: "string",
-              description: 'Server name or ID (optional if bot is only in one server)',
-            },
-            channel: {
-              type: "string",
-              description: 'Channel name (e.g., "general") or ID',
-            },
-            limit: {
-              type: "number",
-              description: "Number of messages to fetch (max 100)",
-              default: 50,
-            },
-          },
-          required: ["channel"],
-        },
-      },
-      // New tool definitions
-      {
-        name: "list-channels",
-        description: "List all text channels in a specific server",
-        inputSchema: {
-          type: "object",
-          properties: {
-            server: {
-              type: "string",
-              description: 'Server name or ID (optional if bot is only in one server)',
-            },
-          },
-          required: [], // Server is optional if bot is in only one
-        },
-      },
-      {
-        name: "list-servers",
-        description: "List all servers the bot is connected to",
-        inputSchema: { type: "object", properties: {} }, // No input needed
-      },
-      {
-        name: "create-channel",
-        description: "Create a new text channel in a specific server",
-        inputSchema: {
-          type: "object",
-          properties: {
-            server: {
-              type: "string",
-              description: 'Server name or ID (optional if bot is only in one server)',
-            },
-            channelName: {
-              type: "string",
-              description: "Name for the new text channel",
-            },
-          },
-          required: ["channelName"],
-        },
-      },
-      // New tool: read-multiple-channels
-      {
-        name: "read-multiple-channels",
-        description: "Read recent messages from multiple text channels in a server",
-        inputSchema: {
-          type: "object",
-          properties: {
-            server: {
-              type: "string",
-              description: 'Server name or ID (optional if bot is only in one server)',
-            },
-            channels: {
-              type: "array",
-              items: { type: "string" },
-              description: 'List of channel names or IDs (optional, defaults to all text channels)',
-            },
-            limitPerChannel: {
-              type: "number",
-              description: "Max messages per channel (default 10, max 50)",
-              default: 10,
-            },
-          },
-          required: [], // Server is optional, channels are optional
-        },
-      },
-      // --- Role Management Tools ---
-      {
-        name: "list-roles",
-        description: "List all roles in a specific server",
-        inputSchema: {
-          type: "object",
-          properties: {
-            server: {
-              type: "string",
-              description: 'Server name or ID (optional if bot is only in one server)',
-            },
-          },
-          required: [],
-        },
-      },
-      {
-        name: "assign-role",
-        description: "Assign a role to a user in a server",
-        inputSchema: {
-          type: "object",
-          properties: {
-            server: {
-              type: "string",
-              description: 'Server name or ID (optional if bot is only in one server)',
-            },
-            user: {
-              type: "string",
-              description: 'User name#discriminator, user ID, or user mention',
-            },
-            role: {
-              type: "string",
-              description: 'Role name or ID',
-            },
-          },
-          required: ["user", "role"],
-        },
-      },
-      {
-        name: "remove-role",
-        description: "Remove a role from a user in a server",
-        inputSchema: {
-          type: "object",
-          properties: {
-            server: {
-              type: "string",
-              description: 'Server name or ID (optional if bot is only in one server)',
-            },
-            user: {
-              type: "string",
-              description: 'User name#discriminator, user ID, or user mention',
-            },
-            role: {
-              type: "string",
-              description: 'Role name or ID',
-            },
-          },
-          required: ["user", "role"],
-        },
-      },
-      {
-        name: "create-role",
-        description: "Create a new role in a server",
-        inputSchema: {
-          type: "object",
-          properties: {
-            server: {
-              type: "string",
-              description: 'Server name or ID (optional if bot is only in one server)',
-            },
-            roleName: {
-              type: "string",
-              description: 'Name for the new role',
-            },
-            color: {
-              type: "string",
-              description: 'Hex color code for the role (e.g., #FF0000)',
-            },
-            permissions: {
-              type: "array",
-              items: { type: "string" },
-              description: 'List of permission names (e.g., ["SendMessages", "ManageMessages"])',
-            },
-            mentionable: {
-              type: "boolean",
-              description: 'Whether the role should be mentionable',
-              default: false,
-            },
-          },
-          required: ["roleName"],
-        },
-      },
-      {
-        name: "delete-role",
-        description: "Delete a role from a server",
-        inputSchema: {
-          type: "object",
-          properties: {
-            server: {
-              type: "string",
-              description: 'Server name or ID (optional if bot is only in one server)',
-            },
-            role: {
-              type: "string",
-              description: 'Role name or ID to delete',
-            },
-          },
-          required: ["role"],
-        },
-      },
-      {
-        name: "update-role",
-        description: "Update an existing role in a server",
-        inputSchema: {
-          type: "object",
-          properties: {
-            server: {
-              type: "string",
-              description: 'Server name or ID (optional if bot is only in one server)',
-            },
-            role: {
-              type: "string",
-              description: 'Role name or ID to update',
-            },
-            newName: {
-              type: "string",
-              description: 'New name for the role',
-            },
-            newColor: {
-              type: "string",
-              description: 'New hex color code for the role',
-            },
-            newPermissions: {
-              type: "array",
-              items: { type: "string" },
-              description: 'New list of permission names (replaces existing)',
-            },
-            newMentionable: {
-              type: "boolean",
-              description: 'New mentionable status',
-            },
-          },
-          required: ["role"],
-        },
-      },
-      // --- End Role Management Tools ---
-      // --- Member Count Tools ---
-      {
-        name: "get-member-count",
-        description: "Get the total number of members in a specific server",
-        inputSchema: {
-          type: "object",
-          properties: {
-            server: {
-              type: "string",
-              description: 'Server name or ID (optional if bot is only in one server)',
-            },
-          },
-          required: [],
-        },
-      },
-      {
-        name: "get-role-member-count",
-        description: "Get the number of members that have a specific role in a server",
-        inputSchema: {
-          type: "object",
-          properties: {
-            server: {
-              type: "string",
-              description: 'Server name or ID (optional if bot is only in one server)',
-            },
-            role: {
-              type: "string",
-              description: 'Role name or ID',
-            },
-          },
-          required: ["role"],
-        },
-      },
-      // --- End Member Count Tools ---
-    ],
-  };
-});
-
-// Handle tool execution
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
-
-  try {
-    switch (name) {
-      case "send-message": {
-        const { server: serverIdentifier, channel: channelIdentifier, message } = SendMessageSchema.parse(args);
-        const channel = await findChannel(channelIdentifier, serverIdentifier);
-
-        const sent = await channel.send(message);
-        return {
-          content: [{
-            type: "text",
-            text: `Message sent successfully to #${channel.name} in ${channel.guild.name}. Message ID: ${sent.id}`,
-          }],
-        };
-      }
-
-      case "read-messages": {
-        const { server: serverIdentifier, channel: channelIdentifier, limit } = ReadMessagesSchema.parse(args);
-        const channel = await findChannel(channelIdentifier, serverIdentifier);
-
-        const messages = await channel.messages.fetch({ limit });
-        const formattedMessages = Array.from(messages.values()).map(msg => ({
-          channel: `#${channel.name}`,
-          server: channel.guild.name,
-          author: msg.author.tag,
-          content: msg.content,
-          timestamp: msg.createdAt.toISOString(),
-        }));
-
-        return {
-          content: [{
-            type: "text",
-            text: JSON.stringify(formattedMessages, null, 2),
-          }],
-        };
-      }
-
-      // New tool handlers
-      case "list-channels": {
-        const { server: serverIdentifier } = ListChannelsSchema.parse(args);
-        const guild = await findGuild(serverIdentifier);
-        const textChannels = guild.channels.cache
-          .filter((c): c is TextChannel => c instanceof TextChannel)
-          .map(c => ({ id: c.id, name: c.name }));
-
-        return {
-          content: [{
-            type: "text",
-            text: `Text channels in server "${guild.name}":\n${JSON.stringify(textChannels, null, 2)}`,
-          }],
-        };
-      }
-
-      case "list-servers": {
-        ListServersSchema.parse(args); // Validate no args are passed
-        const guilds = Array.from(client.guilds.cache.values()).map(g => ({ id: g.id, name: g.name }));
-        return {
-          content: [{
-            type: "text",
-            text: `Bot is connected to the following servers:\n${JSON.stringify(guilds, null, 2)}`,
-          }],
-        };
-      }
-
-      case "create-channel": {
-        const { server: serverIdentifier, channelName } = CreateChannelSchema.parse(args);
-        const guild = await findGuild(serverIdentifier);
-
-        // Check if channel already exists (case-insensitive)
-        const existingChannel = guild.channels.cache.find(
-          c => c.name.toLowerCase() === channelName.toLowerCase() && c.type === ChannelType.GuildText
-        );
-        if (existingChannel) {
-          throw new Error(`A text channel named "${channelName}" already exists in server "${guild.name}".`);
-        }
-
-        const createdChannel = await guild.channels.create({
-          name: channelName,
-          type: ChannelType.GuildText,
-        });
-
-        return {
-          content: [{
-            type: "text",
-            text: `Successfully created text channel #${createdChannel.name} (ID: ${createdChannel.id}) in server "${guild.name}".`,
-          }],
-        };
-      }
-
-      case "read-multiple-channels": {
-        const { server: serverIdentifier, channels: channelIdentifiers, limitPerChannel } = ReadMultipleChannelsSchema.parse(args);
-        const guild = await findGuild(serverIdentifier);
-
-        let targetChannels: TextChannel[];
-
-        if (channelIdentifiers && channelIdentifiers.length > 0) {
-          // Find specified channels
-          targetChannels = await Promise.all(
-            channelIdentifiers.map(id => findChannel(id, guild.id))
-          );
-        } else {
-          // Find all text channels in the guild
-          targetChannels = Array.from(guild.channels.cache.values()).filter(
-            (c): c is TextChannel => c instanceof TextChannel
-          );
-        }
-
-        if (targetChannels.length === 0) {
-          return {
-            content: [{ type: "text", text: `No text channels found or specified in server "${guild.name}".` }],
-          };
-        }
-
-        const allMessages: any[] = [];
-        for (const channel of targetChannels) {
-          try {
-            const messages = await channel.messages.fetch({ limit: limitPerChannel });
-            const formattedMessages = Array.from(messages.values()).map(msg => ({
-              channel: `#${channel.name}`,
-              server: channel.guild.name,
-              author: msg.author.tag,
-              content: msg.content,
-              timestamp: msg.createdAt.toISOString(),
-            }));
-            allMessages.push(...formattedMessages);
-          } catch (channelError) {
-            // Log error fetching from a specific channel but continue with others
-            console.error(`Error fetching messages from #${channel.name}:`, channelError);
-            allMessages.push({
-              channel: `#${channel.name}`,
-              server: channel.guild.name,
-              error: `Failed to fetch messages: ${channelError instanceof Error ? channelError.message : 'Unknown error'}`, 
-            });
-          }
-        }
-
-        // Sort messages by timestamp descending (newest first)
-        allMessages.sort((a, b) => (b.timestamp && a.timestamp ? new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime() : 0));
-
-        return {
-          content: [{ 
-            type: "text", 
-            text: `Fetched messages from ${targetChannels.length} channel(s) in "${guild.name}":\n${JSON.stringify(allMessages, null, 2)}` 
-          }],
-        };
-      }
-
-      // --- Role Management Handlers ---
-      case "list-roles": {
-        const { server: serverIdentifier } = ListRolesSchema.parse(args);
-        const guild = await findGuild(serverIdentifier);
-        await guild.roles.fetch(); // Ensure cache is up-to-date
-        const roles = guild.roles.cache.map(role => ({
-          id: role.id,
-          name: role.name,
-          color: role.hexColor,
-          position: role.position,
-          permissions: role.permissions.toArray(),
-          mentionable: role.mentionable,
-        })); //.sort((a, b) => b.position - a.position); // Sort by position
-
-        return {
-          content: [{
-            type: "text",
-            text: `Roles in server "${guild.name}":\n${JSON.stringify(roles, null, 2)}`,
-          }],
-        };
-      }
-
-      case "assign-role": {
-        const { server: serverIdentifier, user: userIdentifier, role: roleIdentifier } = AssignRoleSchema.parse(args);
-        const guild = await findGuild(serverIdentifier);
-        const member = await findMember(userIdentifier, guild.id);
-        const role = await findRole(roleIdentifier, guild.id);
-
-        if (member.roles.cache.has(role.id)) {
-          throw new Error(`User ${member.user.tag} already has the role "${role.name}".`);
-        }
-
-        await member.roles.add(role);
-        return {
-          content: [{
-            type: "text",
-            text: `Successfully assigned role "${role.name}" to user ${member.user.tag} in server "${guild.name}".`,
-          }],
-        };
-      }
-
-      case "remove-role": {
-        const { server: serverIdentifier, user: userIdentifier, role: roleIdentifier } = RemoveRoleSchema.parse(args);
-        const guild = await findGuild(serverIdentifier);
-        const member = await findMember(userIdentifier, guild.id);
-        const role = await findRole(roleIdentifier, guild.id);
-
-        if (!member.roles.cache.has(role.id)) {
-          throw new Error(`User ${member.user.tag} does not have the role "${role.name}".`);
-        }
-
-        await member.roles.remove(role);
-        return {
-          content: [{
-            type: "text",
-            text: `Successfully removed role "${role.name}" from user ${member.user.tag} in server "${guild.name}".`,
-          }],
-        };
-      }
-
-      case "create-role": {
-        const { server: serverIdentifier, roleName, color, permissions, mentionable } = CreateRoleSchema.parse(args);
-        const guild = await findGuild(serverIdentifier);
-
-        // Check if role already exists (case-insensitive)
-        const existingRole = guild.roles.cache.find(r => r.name.toLowerCase() === roleName.toLowerCase());
-        if (existingRole) {
-          throw new Error(`A role named "${roleName}" already exists in server "${guild.name}".`);
-        }
-
-        // Validate permissions if provided
-        let validatedPermissions: bigint[] | undefined = undefined;
-        if (permissions) {
-          validatedPermissions = permissions.map(p => {
-            if (!(p in PermissionsBitField.Flags)) {
-              throw new Error(`Invalid permission name: ${p}. Valid permissions: ${Object.keys(PermissionsBitField.Flags).join(', ')}`);
-            }
-            return PermissionsBitField.Flags[p as keyof typeof PermissionsBitField.Flags];
-          });
-        }
-
-        const createdRole = await guild.roles.create({
-          name: roleName,
-          color: color as ColorResolvable | undefined, // Type assertion
-          permissions: validatedPermissions,
-          mentionable: mentionable,
-        });
-
-        return {
-          content: [{
-            type: "text",
-            text: `Successfully created role "${createdRole.name}" (ID: ${createdRole.id}) in server "${guild.name}".`,
-          }],
-        };
-      }
-
-      case "delete-role": {
-        const { server: serverIdentifier, role: roleIdentifier } = DeleteRoleSchema.parse(args);
-        const guild = await findGuild(serverIdentifier);
-        const role = await findRole(roleIdentifier, guild.id);
-
-        await role.delete(`Deleted via MCP tool by request`);
-        return {
-          content: [{
-            type: "text",
-            text: `Successfully deleted role "${role.name}" (ID: ${role.id}) from server "${guild.name}".`,
-          }],
-        };
-      }
-
-      case "update-role": {
-        const { server: serverIdentifier, role: roleIdentifier, newName, newColor, newPermissions, newMentionable } = UpdateRoleSchema.parse(args);
-        const guild = await findGuild(serverIdentifier);
-        const role = await findRole(roleIdentifier, guild.id);
-
-        const updates: { name?: string; color?: ColorResolvable; permissions?: bigint[]; mentionable?: boolean } = {};
-        if (newName !== undefined) updates.name = newName;
-        if (newColor !== undefined) updates.color = newColor as ColorResolvable;
-        if (newMentionable !== undefined) updates.mentionable = newMentionable;
-
-        if (newPermissions !== undefined) {
-          updates.permissions = newPermissions.map(p => {
-            if (!(p in PermissionsBitField.Flags)) {
-              throw new Error(`Invalid permission name: ${p}. Valid permissions: ${Object.keys(PermissionsBitField.Flags).join(', ')}`);
-            }
-            return PermissionsBitField.Flags[p as keyof typeof PermissionsBitField.Flags];
-          });
-        }
-
-        if (Object.keys(updates).length === 0) {
-          throw new Error("No update parameters provided for the role.");
-        }
-
-        // Apply updates with reason
-        const updatedRole = await role.edit({
-          ...updates,
-          reason: `Updated via MCP tool by request`
-        });
-
-        return {
-          content: [{
-            type: "text",
-            text: `Successfully updated role "${updatedRole.name}" (ID: ${updatedRole.id}) in server "${guild.name}".`,
-          }],
-        };
-      }
-      // --- End Role Management Handlers ---
-
-      // --- Member Count Handlers ---
-      case "get-member-count": {
-        const { server: serverIdentifier } = GetMemberCountSchema.parse(args);
-        const guild = await findGuild(serverIdentifier);
-        // Ensure member count is up-to-date by fetching the guild object again or fetching members
-        await guild.members.fetch(); // Fetching members often updates the count implicitly
-        const memberCount = guild.memberCount;
-
-        return {
-          content: [{
-            type: "text",
-            text: `Server "${guild.name}" has ${memberCount} members.`,
-          }],
-        };
-      }
-
-      case "get-role-member-count": {
-        const { server: serverIdentifier, role: roleIdentifier } = GetRoleMemberCountSchema.parse(args);
-        const guild = await findGuild(serverIdentifier);
-        const role = await findRole(roleIdentifier, guild.id);
-
-        // Fetch all members to ensure the cache is populated for accurate filtering
-        await guild.members.fetch();
-        const membersWithRole = guild.members.cache.filter(member => member.roles.cache.has(role.id));
-
-        return {
-          content: [{
-            type: "text",
-            text: `There are ${membersWithRole.size} members with the role "${role.name}" in server "${guild.name}".`,
-          }],
-        };
-      }
-      // --- End Member Count Handlers ---
-
-      default:
-        throw new Error(`Unknown tool: ${name}`);
-    } // End switch
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      throw new Error(
-        `Invalid arguments: ${error.errors
-          .map((e) => `${e.path.join(".")}: ${e.message}`)
-          .join(", ")}`
-      );
-    }
-    // Rethrow other errors, including Discord API errors or custom errors
-    if (error instanceof Error) {
-        throw new Error(`Tool execution failed: ${error.message}`);
-    }
-    throw new Error(`An unknown error occurred during tool execution.`);
-  }
-});
-
-// Discord client login and error handling
-client.once('ready', () => {
-  console.error('Discord bot is ready!');
-});
-
-// Start the server
-async function main() {
-  // Check for Discord token
-  const token = process.env.DISCORD_TOKEN;
-  if (!token) {
-    throw new Error('DISCORD_TOKEN environment variable is not set');
-  }
-  
-  try {
-    // Login to Discord
-    await client.login(token);
-
-    // Start MCP server
-    const transport = new StdioServerTransport();
-    await server.connect(transport);
-    console.error("Discord MCP Server running on stdio");
-  } catch (error) {
-    console.error("Fatal error in main():", error);
-    process.exit(1);
-  }
-}
-
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import dotenv from 'dotenv';
+import {
+  CallToolRequest,
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequest,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  ServerRequest,
+  ServerNotification,
+} from "@modelcontextprotocol/sdk/types.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { GatewayIntentBits, ChannelType, PermissionsBitField, ColorResolvable, resolveColor, SnowflakeUtil, EmbedBuilder, Collection, AuditLogEvent, AutoModerationRuleTriggerType, AutoModerationRuleKeywordPresetType, AutoModerationActionType } from 'discord.js';
+import { DiscordBackend, DiscordRequestError, DiscordRateLimitError, RateLimitInfo, GuildInfo, ChannelInfo, RoleInfo, MemberInfo, MessageInfo, EmojiInfo, AuditLogEntryInfo, AutoModRuleInfo, AutoModActionInfo, AutoModTriggerMetadata, OutgoingMessage, ChannelEditOptions, RoleOptions, isTextBasedType, formatEmoji } from './backend.js';
+import { DiscordJsBackend } from './discord-backend.js';
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import path from 'path'; // Import the path module
+import fs from 'fs/promises';
+import { existsSync, readFileSync } from 'fs';
+import http from 'http';
+import { parseArgs } from 'util';
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { AsyncLocalStorage } from 'async_hooks';
+import { Cron } from 'croner';
+import { DiscordSandbox, SandboxFixtureSchema } from './sandbox.js';
+import { fileURLToPath } from 'url'; // Import fileURLToPath
+
+// Determine the directory of the current module (__dirname equivalent for ES Modules)
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Load environment variables from .env file in the project root (one level up from build)
+dotenv.config({ path: path.resolve(__dirname, '..', '.env') });
+
+// Command-line flags; each overrides the environment variable of the same setting
+const { values: cliOptions } = parseArgs({
+  options: {
+    transport: { type: 'string' },
+    host: { type: 'string' },
+    port: { type: 'string' },
+    sandbox: { type: 'boolean' },
+  },
+});
+
+// --- Sandbox ---
+// --sandbox (or DISCORD_SANDBOX=true) connects every bot to an in-memory Discord seeded from
+// fixtures/sandbox.json (or DISCORD_SANDBOX_FILE) instead of the real API: no token, no network.
+function loadSandbox(): DiscordSandbox | null {
+  if (!cliOptions.sandbox && process.env.DISCORD_SANDBOX !== 'true') return null;
+  const fixturePath = process.env.DISCORD_SANDBOX_FILE
+    ? path.resolve(process.env.DISCORD_SANDBOX_FILE)
+    : path.resolve(__dirname, '..', 'fixtures', 'sandbox.json');
+  if (!existsSync(fixturePath)) throw new Error(`Sandbox fixture ${fixturePath} does not exist`);
+  try {
+    const sandbox = new DiscordSandbox(SandboxFixtureSchema.parse(JSON.parse(readFileSync(fixturePath, 'utf8'))));
+    console.error(`Sandbox mode: serving an in-memory Discord seeded from ${fixturePath}`);
+    return sandbox;
+  } catch (error) {
+    throw new Error(`Invalid sandbox fixture ${fixturePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+const sandbox = loadSandbox();
+// --- End Sandbox ---
+
+// --- Bot Profiles ---
+// One server process can run several bots. Profiles come from discord-bots.json next to .env (or
+// DISCORD_BOTS_FILE); without that file there is a single "default" bot logged in with DISCORD_TOKEN.
+// Tools route each call to the first bot, in profile order, that is in the target server, unless the
+// caller picks one with the bot argument.
+const DEFAULT_INTENTS = [
+  'Guilds',
+  'GuildMessages',
+  'MessageContent',
+  'GuildMembers', // Role management and member tools
+  'GuildMessageReactions', // Feeds reaction events into the event inbox
+] as const;
+
+const IntentNameSchema = z.string().refine(
+  name => Number.isNaN(Number(name)) && name in GatewayIntentBits,
+  name => ({ message: `Unknown gateway intent "${name}". Valid intents: ${Object.keys(GatewayIntentBits).filter(key => Number.isNaN(Number(key))).join(', ')}` }),
+);
+
+const BotProfileSchema = z.object({
+  token: z.string().optional().describe('Bot token (prefer tokenEnv, so the file holds no secrets)'),
+  tokenEnv: z.string().optional().describe('Name of the environment variable holding the bot token'),
+  intents: z.array(IntentNameSchema).optional().describe('Gateway intents, by GatewayIntentBits name'),
+}).strict().refine(profile => (profile.token === undefined) !== (profile.tokenEnv === undefined), {
+  message: 'Give exactly one of "token" and "tokenEnv"',
+});
+
+const BotProfilesFileSchema = z.object({
+  bots: z.record(BotProfileSchema).refine(bots => Object.keys(bots).length > 0, { message: 'Define at least one bot' }),
+}).strict();
+
+interface BotProfile {
+  name: string;
+  bot: DiscordBackend;
+  token: string | undefined;
+  tokenSource: string;
+}
+
+// In sandbox mode the bot is one of the fixture's; otherwise a discord.js client with the profile's intents
+function createBot(name: string, intents: readonly string[]): DiscordBackend {
+  const bot = sandbox ? sandbox.backend(name) : new DiscordJsBackend(intents);
+  bot.on('rateLimited', info => noteRateLimit(bot, info));
+  return bot;
+}
+
+// Loaded once at startup like the policy file; a missing default file means the single DISCORD_TOKEN bot
+function loadBotProfiles(): BotProfile[] {
+  // In sandbox mode the fixture defines the bots
+  if (sandbox) {
+    return sandbox.bots.map(name => ({ name, bot: createBot(name, DEFAULT_INTENTS), token: 'sandbox', tokenSource: 'sandbox fixture' }));
+  }
+  const explicitPath = process.env.DISCORD_BOTS_FILE;
+  const profilesPath = explicitPath ? path.resolve(explicitPath) : path.resolve(__dirname, '..', 'discord-bots.json');
+  if (!existsSync(profilesPath)) {
+    if (explicitPath) throw new Error(`Bot profiles file ${profilesPath} (from DISCORD_BOTS_FILE) does not exist`);
+    return [{ name: 'default', bot: createBot('default', DEFAULT_INTENTS), token: process.env.DISCORD_TOKEN, tokenSource: 'DISCORD_TOKEN' }];
+  }
+  try {
+    const { bots } = BotProfilesFileSchema.parse(JSON.parse(readFileSync(profilesPath, 'utf8')));
+    console.error(`Loaded bot profiles ${Object.keys(bots).join(', ')} from ${profilesPath}`);
+    return Object.entries(bots).map(([name, profile]) => ({
+      name,
+      bot: createBot(name, profile.intents ?? DEFAULT_INTENTS),
+      token: profile.token ?? process.env[profile.tokenEnv!],
+      tokenSource: profile.tokenEnv ?? profilesPath,
+    }));
+  } catch (error) {
+    throw new Error(`Invalid bot profiles file ${profilesPath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+const botProfiles = loadBotProfiles();
+
+// Set for the duration of a tool call that names a bot
+const selectedBot = new AsyncLocalStorage<string | undefined>();
+
+const BotArgumentSchema = z.object({
+  bot: z.string().optional(),
+});
+
+function botName(bot: DiscordBackend): string {
+  return botProfiles.find(profile => profile.bot === bot)?.name ?? 'unknown';
+}
+
+// Helper function to return the bots a tool call may use: the requested bot, or every bot in profile order
+function selectedBots(): DiscordBackend[] {
+  const requested = selectedBot.getStore();
+  if (!requested) return botProfiles.map(profile => profile.bot);
+  const profile = botProfiles.find(p => p.name.toLowerCase() === requested.toLowerCase());
+  if (!profile) {
+    throw new ToolError('NOT_FOUND', `Bot "${requested}" not found. Available bots: ${botProfiles.map(p => `"${p.name}"`).join(', ')}`);
+  }
+  return [profile.bot];
+}
+
+// Helper function to list the guilds the selected bots are in; a guild several bots share is listed once,
+// under the first bot in profile order
+function selectedGuilds(): Collection<string, GuildInfo> {
+  const guilds = new Collection<string, GuildInfo>();
+  for (const bot of selectedBots()) {
+    for (const guild of bot.guilds()) {
+      if (!guilds.has(guild.id)) guilds.set(guild.id, guild);
+    }
+  }
+  return guilds;
+}
+
+// Helper function to pick the bot a tool call acts through in a guild: the first selected bot that is in it
+function botFor(guildId: string): DiscordBackend {
+  const bots = selectedBots();
+  return bots.find(bot => bot.guild(guildId)) ?? bots[0];
+}
+
+// Helper function to find the bot events and background work for a guild are routed to
+function botForGuild(guildId: string): DiscordBackend | undefined {
+  return botProfiles.find(profile => profile.bot.guild(guildId))?.bot;
+}
+
+function cachedChannel(channelId: string): ChannelInfo | undefined {
+  for (const { bot } of botProfiles) {
+    const channel = bot.channel(channelId);
+    if (channel) return channel;
+  }
+  return undefined;
+}
+// --- End Bot Profiles ---
+
+// Audit log reason used when a role tool is called without one
+const DEFAULT_AUDIT_REASON = 'Requested via MCP tool';
+
+// Discord rejects bulk deletion of messages older than 14 days
+const BULK_DELETE_MAX_AGE_MS = 14 * 24 * 60 * 60 * 1000;
+
+// Upper bound on how many messages read-messages will page through in a single call
+const MAX_READ_MESSAGES = Number(process.env.DISCORD_MAX_READ_MESSAGES) || 1000;
+
+// --- Tool Errors ---
+// Failed tool calls report one of these stable codes, so callers can branch on the kind of failure
+const TOOL_ERROR_CODES = [
+  'INVALID_ARGUMENTS',
+  'UNKNOWN_TOOL',
+  'NOT_FOUND',
+  'AMBIGUOUS',
+  'POLICY_REFUSED',
+  'CONFIRMATION_INVALID',
+  'MISSING_PERMISSIONS',
+  'NOT_MANAGEABLE',
+  'RATE_LIMITED',
+  'DISCORD_API_ERROR',
+  'TOOL_FAILED',
+] as const;
+type ToolErrorCode = typeof TOOL_ERROR_CODES[number];
+
+class ToolError extends Error {
+  constructor(public readonly code: ToolErrorCode, message: string) {
+    super(message);
+    this.name = 'ToolError';
+  }
+}
+
+// Helper function to give any thrown value a stable error code
+function toToolError(error: unknown): ToolError {
+  if (error instanceof ToolError) return error;
+  if (error instanceof z.ZodError) {
+    return new ToolError('INVALID_ARGUMENTS', `Invalid arguments: ${error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}`);
+  }
+  if (error instanceof DiscordRateLimitError) {
+    return new ToolError('RATE_LIMITED', `Rate limited by Discord on ${error.route}; retry after ${Math.ceil(error.retryAfterMs / 1000)} second(s).`);
+  }
+  if (error instanceof DiscordRequestError) {
+    // 50001 Missing Access and 50013 Missing Permissions; 10xxx are the "Unknown <object>" errors
+    const code: ToolErrorCode = error.code === 50001 || error.code === 50013
+      ? 'MISSING_PERMISSIONS'
+      : (error.code >= 10000 && error.code < 20000 ? 'NOT_FOUND' : 'DISCORD_API_ERROR');
+    return new ToolError(code, `Discord API error ${error.code}: ${error.message}`);
+  }
+  return new ToolError('TOOL_FAILED', error instanceof Error ? error.message : 'An unknown error occurred during tool execution.');
+}
+// --- End Tool Errors ---
+
+// --- Request Scheduling ---
+// Tools that fan out over many channels or members send their requests through scheduleRequests: at most
+// DISCORD_MAX_CONCURRENCY at a time, within a time budget (DISCORD_TIME_BUDGET_SECONDS unless the call sets
+// timeBudgetSeconds). Whatever has not finished when the budget runs out is reported back as skipped, so the
+// tool can return what it has and mark the result incomplete.
+const MAX_CONCURRENCY = Math.max(1, Number(process.env.DISCORD_MAX_CONCURRENCY) || 4);
+const DEFAULT_TIME_BUDGET_MS = (Number(process.env.DISCORD_TIME_BUDGET_SECONDS) || 30) * 1000;
+
+interface ScheduledRun {
+  deadline: number;
+  rateLimitWaits: number;
+  rateLimitWaitMs: number;
+  // Set once a rate limit outlasts the budget; no further requests are started after that
+  stalled: boolean;
+}
+
+// Runs in progress per bot, so that bot's rate limit events can be charged to them
+const activeRuns = new Map<DiscordBackend, Set<ScheduledRun>>();
+
+// Listener for every bot's rateLimited event. The backend queues the request and retries it once the limit
+// resets; this only logs the wait and tells the runs in progress about it.
+function noteRateLimit(bot: DiscordBackend, info: RateLimitInfo): void {
+  console.error(`Bot "${botName(bot)}" rate limited on ${info.method.toUpperCase()} ${info.route}${info.global ? ' (global)' : ''}; waiting ${info.timeToReset}ms`);
+  for (const run of activeRuns.get(bot) ?? []) {
+    run.rateLimitWaits++;
+    run.rateLimitWaitMs += info.timeToReset;
+    if (Date.now() + info.timeToReset > run.deadline) run.stalled = true;
+  }
+}
+
+type ScheduledOutcome<T, R> = { item: T; value: R } | { item: T; error: unknown };
+
+interface ScheduledResults<T, R> {
+  // Requests that finished, successfully or not, in the order of the input items
+  settled: ScheduledOutcome<T, R>[];
+  // Items whose request was not started, or had not finished, when the budget ran out
+  skipped: T[];
+  rateLimitWaits: number;
+  rateLimitWaitMs: number;
+}
+
+// Helper function to run one request per item with bounded concurrency. A budgetMs of null waits for every
+// request; otherwise requests still running at the deadline are left to finish and their results dropped.
+async function scheduleRequests<T, R>(
+  bot: DiscordBackend,
+  items: readonly T[],
+  request: (item: T) => Promise<R>,
+  { budgetMs = DEFAULT_TIME_BUDGET_MS, concurrency = MAX_CONCURRENCY }: { budgetMs?: number | null; concurrency?: number } = {},
+): Promise<ScheduledResults<T, R>> {
+  const run: ScheduledRun = {
+    deadline: budgetMs === null ? Number.POSITIVE_INFINITY : Date.now() + budgetMs,
+    rateLimitWaits: 0,
+    rateLimitWaitMs: 0,
+    stalled: false,
+  };
+  const runs = activeRuns.get(bot) ?? new Set<ScheduledRun>();
+  activeRuns.set(bot, runs.add(run));
+
+  const outcomes = new Array<ScheduledOutcome<T, R> | undefined>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length && !run.stalled && Date.now() < run.deadline) {
+      const index = next++;
+      const item = items[index];
+      try {
+        outcomes[index] = { item, value: await request(item) };
+      } catch (error) {
+        outcomes[index] = { item, error };
+      }
+    }
+  };
+
+  let timer: NodeJS.Timeout | undefined;
+  const expired = budgetMs === null ? [] : [new Promise<void>(resolve => { timer = setTimeout(resolve, budgetMs); })];
+  try {
+    await Promise.race([Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker)), ...expired]);
+  } finally {
+    clearTimeout(timer);
+    runs.delete(run);
+  }
+
+  // Read the outcomes once, so requests finishing after the deadline cannot change the result
+  const settled: ScheduledOutcome<T, R>[] = [];
+  const skipped: T[] = [];
+  items.forEach((item, index) => {
+    const outcome = outcomes[index];
+    if (outcome) settled.push(outcome);
+    else skipped.push(item);
+  });
+  return { settled, skipped, rateLimitWaits: run.rateLimitWaits, rateLimitWaitMs: run.rateLimitWaitMs };
+}
+
+// Helper function to turn a call's timeBudgetSeconds argument into a budget for scheduleRequests
+function timeBudgetMs(timeBudgetSeconds: number | undefined): number {
+  return timeBudgetSeconds === undefined ? DEFAULT_TIME_BUDGET_MS : timeBudgetSeconds * 1000;
+}
+
+// Full member lists in progress per guild, shared by concurrent callers
+const memberListFetches = new Map<string, Promise<unknown>>();
+
+// Helper function to make sure the bot knows every member of a guild. The full list is only fetched while the
+// bot knows fewer members than the member count; after that the GuildMembers intent's events keep it current.
+// Returns false if the list is still arriving when the budget runs out, leaving the members received so far known.
+async function loadAllMembers(guild: GuildInfo, budgetMs: number | null = DEFAULT_TIME_BUDGET_MS): Promise<boolean> {
+  const bot = botFor(guild.id);
+  if (bot.members(guild.id).length >= guild.memberCount) return true;
+  let fetching = memberListFetches.get(guild.id);
+  if (!fetching) {
+    fetching = bot.fetchAllMembers(guild.id).finally(() => memberListFetches.delete(guild.id));
+    memberListFetches.set(guild.id, fetching);
+  }
+  const { settled: [outcome] } = await scheduleRequests(bot, [fetching], list => list, { budgetMs });
+  if (outcome && 'error' in outcome) throw outcome.error;
+  return outcome !== undefined;
+}
+// --- End Request Scheduling ---
+
+// --- Audit Trail ---
+// Every tool call is appended to a local JSONL file (audit-log.jsonl next to .env, or DISCORD_AUDIT_LOG_FILE)
+// with its validated arguments, the Discord objects it resolved, its outcome and duration.
+const AUDIT_LOG_FILE = process.env.DISCORD_AUDIT_LOG_FILE
+  ? path.resolve(process.env.DISCORD_AUDIT_LOG_FILE)
+  : path.resolve(__dirname, '..', 'audit-log.jsonl');
+
+interface AuditContext {
+  guildIds: Set<string>;
+  channelIds: Set<string>;
+  userIds: Set<string>;
+  bots: Set<string>;
+  outcome?: 'preview';
+}
+
+interface AuditEntry {
+  timestamp: string;
+  tool: string;
+  arguments: unknown;
+  resolved: { guildIds: string[]; channelIds: string[]; userIds: string[]; bots?: string[] };
+  outcome: 'success' | 'error' | 'preview';
+  error?: string;
+  durationMs: number;
+}
+
+const auditContext = new AsyncLocalStorage<AuditContext>();
+
+// Called by the find* helpers so each audit entry lists the guilds, channels and users a tool resolved
+function noteResolved<T extends { id: string }>(kind: 'guildIds' | 'channelIds' | 'userIds', value: T): T {
+  auditContext.getStore()?.[kind].add(value.id);
+  return value;
+}
+
+async function appendAuditEntry(entry: AuditEntry): Promise<void> {
+  try {
+    await fs.appendFile(AUDIT_LOG_FILE, `${JSON.stringify(entry)}\n`);
+  } catch (error) {
+    console.error(`Error writing audit log entry to ${AUDIT_LOG_FILE}:`, error);
+  }
+}
+
+async function readAuditEntries(): Promise<AuditEntry[]> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(AUDIT_LOG_FILE, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+  return raw.split('\n').flatMap(line => {
+    if (!line.trim()) return [];
+    try {
+      return [JSON.parse(line) as AuditEntry];
+    } catch {
+      return []; // Skip a partially written line rather than failing the whole query
+    }
+  });
+}
+// --- End Audit Trail ---
+
+// --- Policy ---
+// An optional JSON policy file (discord-policy.json next to .env, or DISCORD_POLICY_FILE) restricts which
+// guilds, channels and tools the server may use, which roles are protected and which permissions may be granted.
+// Entries match IDs or names case-insensitively; a channel entry also matches the channels inside a category.
+const PolicyListSchema = z.object({
+  allow: z.array(z.string()).optional().describe('If non-empty, only these entries are permitted'),
+  deny: z.array(z.string()).optional().describe('These entries are never permitted (deny wins over allow)'),
+}).strict();
+
+const PolicySchema = z.object({
+  guilds: PolicyListSchema.optional(),
+  channels: PolicyListSchema.optional(),
+  tools: PolicyListSchema.optional(),
+  protectedRoles: z.array(z.string()).optional().default([]),
+  permissions: PolicyListSchema.optional(),
+}).strict();
+
+type PolicyList = z.infer<typeof PolicyListSchema>;
+
+// Loaded once at startup; a missing default file means no restrictions, but an invalid file is fatal
+function loadPolicy(): z.infer<typeof PolicySchema> | null {
+  const explicitPath = process.env.DISCORD_POLICY_FILE;
+  const policyPath = explicitPath ? path.resolve(explicitPath) : path.resolve(__dirname, '..', 'discord-policy.json');
+  if (!existsSync(policyPath)) {
+    if (explicitPath) throw new Error(`Policy file ${policyPath} (from DISCORD_POLICY_FILE) does not exist`);
+    return null;
+  }
+  try {
+    const loaded = PolicySchema.parse(JSON.parse(readFileSync(policyPath, 'utf8')));
+    console.error(`Loaded policy from ${policyPath}`);
+    return loaded;
+  } catch (error) {
+    throw new Error(`Invalid policy file ${policyPath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+const policy = loadPolicy();
+
+// Tools that assign, remove, edit or delete the role named in their `role` argument
+const ROLE_MUTATING_TOOLS = new Set(['assign-role', 'remove-role', 'update-role', 'delete-role', 'bulk-assign-role', 'bulk-remove-role']);
+
+function isAllowedByList(list: PolicyList | undefined, ...identifiers: (string | null | undefined)[]): boolean {
+  if (!list) return true;
+  const candidates = identifiers.filter((id): id is string => Boolean(id)).map(id => id.toLowerCase());
+  const matches = (entries: string[]) => entries.some(entry => candidates.includes(entry.toLowerCase().replace(/^[#@]/, '')));
+  if (list.deny && matches(list.deny)) return false;
+  if (list.allow && list.allow.length > 0 && !matches(list.allow)) return false;
+  return true;
+}
+
+function isGuildAllowed(guild: GuildInfo): boolean {
+  return isAllowedByList(policy?.guilds, guild.id, guild.name);
+}
+
+interface PolicyChannel {
+  id: string;
+  name: string;
+  parent: PolicyChannel | null;
+}
+
+// Channels are matched together with their parent channel and category
+function isChannelAllowed(channel: PolicyChannel): boolean {
+  const identifiers: string[] = [];
+  let current: PolicyChannel | null = channel;
+  while (current) {
+    identifiers.push(current.id, current.name);
+    current = current.parent;
+  }
+  return isAllowedByList(policy?.channels, ...identifiers);
+}
+
+function isRoleProtected(role: RoleInfo): boolean {
+  const protectedRoles = policy?.protectedRoles ?? [];
+  return protectedRoles.some(entry => entry === role.id || entry.toLowerCase().replace(/^@/, '') === role.name.toLowerCase().replace(/^@/, ''));
+}
+
+// Central policy check run before any tool executes; throws a refusal describing the violated rule
+async function enforcePolicy(tool: string, args: Record<string, unknown> | undefined): Promise<void> {
+  if (!policy) return;
+  if (!isAllowedByList(policy.tools, tool)) {
+    throw new ToolError('POLICY_REFUSED', `Refused by policy: the "${tool}" tool is disabled.`);
+  }
+
+  const input = args ?? {};
+  const serverIdentifier = typeof input.server === 'string' ? input.server : undefined;
+  // Every argument that names a channel, including the AutoMod alert channel and exempt channels
+  const actions = typeof input.actions === 'object' && input.actions !== null ? input.actions as Record<string, unknown> : {};
+  const channelIdentifiers = [
+    input.channel, input.forum, input.thread, input.category, actions.alertChannel,
+    ...(Array.isArray(input.channels) ? input.channels : []),
+    ...(Array.isArray(input.exemptChannels) ? input.exemptChannels : []),
+  ].filter((id): id is string => typeof id === 'string');
+  const roleIdentifier = ROLE_MUTATING_TOOLS.has(tool) && typeof input.role === 'string' ? input.role : undefined;
+
+  // findGuild refuses guilds outside the policy
+  if (serverIdentifier !== undefined || channelIdentifiers.length > 0 || roleIdentifier) {
+    const guild = await findGuild(serverIdentifier);
+    for (const channelIdentifier of channelIdentifiers) {
+      const channel = await findGuildChannel(channelIdentifier, guild.id, () => true, 'channel');
+      if (!isChannelAllowed(channel)) {
+        throw new ToolError('POLICY_REFUSED', `Refused by policy: channel "#${channel.name}" is not allowed by the policy.`);
+      }
+    }
+    if (roleIdentifier) {
+      const role = await findRole(roleIdentifier, guild.id);
+      if (isRoleProtected(role)) {
+        throw new ToolError('POLICY_REFUSED', `Refused by policy: role "${role.name}" is protected and cannot be assigned, removed, edited or deleted.`);
+      }
+    }
+  }
+
+  const grantedPermissions = tool === 'create-role' ? input.permissions
+    : tool === 'update-role' ? input.newPermissions
+    : tool === 'set-permission-overwrite' ? input.allow
+    : undefined;
+  if (Array.isArray(grantedPermissions)) {
+    const forbidden = grantedPermissions.filter(p => typeof p === 'string' && !isAllowedByList(policy.permissions, p));
+    if (forbidden.length > 0) {
+      throw new ToolError('POLICY_REFUSED', `Refused by policy: granting ${forbidden.map(p => `"${p}"`).join(', ')} is not allowed.`);
+    }
+  }
+}
+// --- End Policy ---
+
+// Helper function to record a resolved guild, and the bot that will act in it, in the audit trail
+function resolvedGuild(guild: GuildInfo): GuildInfo {
+  auditContext.getStore()?.bots.add(botName(botFor(guild.id)));
+  return noteResolved('guildIds', guild);
+}
+
+// Helper function to find a guild by name or ID
+async function findGuild(guildIdentifier?: string) {
+  // Guilds excluded by the policy file are invisible to every tool
+  const knownGuilds = selectedGuilds();
+  const visibleGuilds = knownGuilds.filter(isGuildAllowed);
+
+  if (!guildIdentifier) {
+    // If no guild specified and bot is only in one guild, use that
+    if (visibleGuilds.size === 1) {
+      return resolvedGuild(visibleGuilds.first()!);
+    }
+    if (visibleGuilds.size === 0) {
+      throw new Error('Bot is not in any server it is allowed to use.');
+    }
+    // List available guilds
+    const guildList = Array.from(visibleGuilds.values())
+      .map(g => `"${g.name}"`).join(', ');
+    throw new ToolError('AMBIGUOUS', `Bot is in multiple servers. Please specify server name or ID. Available servers: ${guildList}`);
+  }
+
+  // Try to fetch by ID first, from each bot in turn
+  let fetched: GuildInfo | undefined = knownGuilds.get(guildIdentifier);
+  for (const bot of fetched ? [] : selectedBots()) {
+    try {
+      fetched = await bot.fetchGuild(guildIdentifier);
+      break;
+    } catch {
+      // If ID fetch fails, try the next bot and then search by name
+    }
+  }
+
+  const guilds = fetched
+    ? new Collection([[fetched.id, fetched]])
+    : knownGuilds.filter(g => g.name.toLowerCase() === guildIdentifier.toLowerCase());
+
+  if (guilds.size === 0) {
+    const availableGuilds = Array.from(visibleGuilds.values())
+      .map(g => `"${g.name}"`).join(', ');
+    throw new ToolError('NOT_FOUND', `Server "${guildIdentifier}" not found. Available servers: ${availableGuilds}`);
+  }
+  if (guilds.size > 1) {
+    const guildList = guilds.map(g => `${g.name} (ID: ${g.id})`).join(', ');
+    throw new ToolError('AMBIGUOUS', `Multiple servers found with name "${guildIdentifier}": ${guildList}. Please specify the server ID.`);
+  }
+  const guild = guilds.first()!;
+  if (!isGuildAllowed(guild)) {
+    throw new ToolError('POLICY_REFUSED', `Refused by policy: server "${guild.name}" is not allowed by the policy.`);
+  }
+  return resolvedGuild(guild);
+}
+
+// Readable names for the channel types tools report and accept
+const CHANNEL_TYPE_NAMES: Partial<Record<ChannelType, string>> = {
+  [ChannelType.GuildText]: 'text',
+  [ChannelType.GuildVoice]: 'voice',
+  [ChannelType.GuildCategory]: 'category',
+  [ChannelType.GuildAnnouncement]: 'announcement',
+  [ChannelType.AnnouncementThread]: 'announcement-thread',
+  [ChannelType.PublicThread]: 'public-thread',
+  [ChannelType.PrivateThread]: 'private-thread',
+  [ChannelType.GuildStageVoice]: 'stage',
+  [ChannelType.GuildForum]: 'forum',
+  [ChannelType.GuildMedia]: 'media',
+};
+
+function channelTypeName(type: ChannelType): string {
+  return CHANNEL_TYPE_NAMES[type] ?? ChannelType[type];
+}
+
+// Helper function to find a guild channel of the wanted kind by name, ID or mention within a specific guild.
+// Active threads are searched by name too; archived threads can only be found by ID.
+async function findGuildChannel(
+  channelIdentifier: string,
+  guildIdentifier: string | undefined,
+  isWanted: (channel: ChannelInfo) => boolean,
+  kind: string,
+): Promise<ChannelInfo> {
+  const guild = await findGuild(guildIdentifier);
+  const bot = botFor(guild.id);
+
+  // First try to fetch by ID
+  let fetched: ChannelInfo | null = null;
+  try {
+    fetched = await bot.fetchChannel(channelIdentifier.replace(/[<#>]/g, ''));
+  } catch {
+    // If fetching by ID fails, search by name in the specified guild
+  }
+  if (fetched && fetched.guild.id === guild.id) {
+    if (isWanted(fetched)) return noteResolved('channelIds', fetched);
+    throw new ToolError('INVALID_ARGUMENTS', `Channel "#${fetched.name}" is a ${channelTypeName(fetched.type)} channel, not a ${kind}.`);
+  }
+
+  const lowerIdentifier = channelIdentifier.toLowerCase().replace(/^#/, '');
+  const matchByName = (candidates: ChannelInfo[]) => candidates.filter(
+    channel => isWanted(channel) && channel.name.toLowerCase() === lowerIdentifier
+  );
+
+  let channels = matchByName(bot.channels(guild.id));
+  if (channels.length === 0) {
+    // Threads are only known once seen, so load the active ones before giving up
+    try {
+      channels = matchByName(await bot.fetchActiveThreads(guild.id));
+    } catch (error) {
+      console.error(`Error fetching active threads for guild ${guild.id}:`, error);
+    }
+  }
+
+  if (channels.length === 0) {
+    const availableChannels = bot.channels(guild.id)
+      .filter(c => isWanted(c) && !c.thread)
+      .map(c => `"#${c.name}"`).join(', ');
+    throw new ToolError('NOT_FOUND', `${kind.charAt(0).toUpperCase()}${kind.slice(1)} "${channelIdentifier}" not found in server "${guild.name}". Available: ${availableChannels}`);
+  }
+  if (channels.length > 1) {
+    const channelList = channels.map(c => `#${c.name} (${channelTypeName(c.type)}, ${c.id})`).join(', ');
+    throw new ToolError('AMBIGUOUS', `Multiple channels found with name "${channelIdentifier}" in server "${guild.name}": ${channelList}. Please specify the channel ID.`);
+  }
+  return noteResolved('channelIds', channels[0]);
+}
+
+// Helper function to find any text-based channel (text, announcement, voice chat or thread) by name or ID
+async function findChannel(channelIdentifier: string, guildIdentifier?: string): Promise<ChannelInfo> {
+  return findGuildChannel(channelIdentifier, guildIdentifier, channel => isTextBasedType(channel.type), 'text channel or thread');
+}
+
+// Helper function to find a forum channel by name or ID
+async function findForumChannel(channelIdentifier: string, guildIdentifier?: string): Promise<ChannelInfo> {
+  return findGuildChannel(channelIdentifier, guildIdentifier, channel => channel.type === ChannelType.GuildForum, 'forum channel');
+}
+
+// Helper function to find any non-thread channel (including categories, voice and forum channels) by name or ID
+async function findAnyChannel(channelIdentifier: string, guildIdentifier?: string): Promise<ChannelInfo> {
+  return findGuildChannel(channelIdentifier, guildIdentifier, channel => !channel.thread, 'channel');
+}
+
+// Helper function to find a category by name or ID
+async function findCategory(categoryIdentifier: string, guildIdentifier?: string): Promise<ChannelInfo> {
+  return findGuildChannel(categoryIdentifier, guildIdentifier, channel => channel.type === ChannelType.GuildCategory, 'category');
+}
+
+// Channel types that create-channel accepts
+const CREATABLE_CHANNEL_TYPES = {
+  text: ChannelType.GuildText,
+  voice: ChannelType.GuildVoice,
+  category: ChannelType.GuildCategory,
+  announcement: ChannelType.GuildAnnouncement,
+  forum: ChannelType.GuildForum,
+} as const;
+
+// Channel types that support each optional setting
+const CHANNEL_SETTING_SUPPORT: Record<'topic' | 'slowmode' | 'nsfw' | 'parent', ChannelType[]> = {
+  topic: [ChannelType.GuildText, ChannelType.GuildAnnouncement, ChannelType.GuildForum, ChannelType.GuildMedia],
+  slowmode: [ChannelType.GuildText, ChannelType.GuildVoice, ChannelType.GuildStageVoice, ChannelType.GuildForum, ChannelType.GuildMedia],
+  nsfw: [ChannelType.GuildText, ChannelType.GuildVoice, ChannelType.GuildStageVoice, ChannelType.GuildAnnouncement, ChannelType.GuildForum, ChannelType.GuildMedia],
+  parent: [ChannelType.GuildText, ChannelType.GuildVoice, ChannelType.GuildStageVoice, ChannelType.GuildAnnouncement, ChannelType.GuildForum, ChannelType.GuildMedia],
+};
+
+// Helper function to reject settings that a channel type does not support before calling Discord
+function assertChannelSettingsSupported(type: ChannelType, settings: Partial<Record<keyof typeof CHANNEL_SETTING_SUPPORT, unknown>>): void {
+  const unsupported = (Object.keys(CHANNEL_SETTING_SUPPORT) as (keyof typeof CHANNEL_SETTING_SUPPORT)[])
+    .filter(setting => settings[setting] !== undefined && settings[setting] !== null && !CHANNEL_SETTING_SUPPORT[setting].includes(type));
+  if (unsupported.length > 0) {
+    throw new ToolError('INVALID_ARGUMENTS', `${channelTypeName(type)} channels do not support: ${unsupported.join(', ')}.`);
+  }
+}
+
+// Helper function to find a role by name or ID within a specific guild
+async function findRole(roleIdentifier: string, guildIdentifier?: string): Promise<RoleInfo> {
+  const guild = await findGuild(guildIdentifier);
+  const bot = botFor(guild.id);
+  const match = (roles: RoleInfo[]) => roles.find(r => r.id === roleIdentifier)
+    ?? roles.find(r => r.name.toLowerCase() === roleIdentifier.toLowerCase());
+
+  // Try the known roles by ID, then by name (case-insensitive)
+  let role = match(bot.roles(guild.id));
+  if (role) return role;
+
+  // If still not found, try fetching all roles and searching again (in case the known roles are stale)
+  try {
+    role = match(await bot.fetchRoles(guild.id));
+    if (role) return role;
+  } catch (error) {
+    console.error(`Error fetching roles for guild ${guild.id}:`, error);
+    // Fall through to throw not found error
+  }
+
+  const availableRoles = bot.roles(guild.id).map(r => `"${r.name}"`).join(', ');
+  throw new ToolError('NOT_FOUND', `Role "${roleIdentifier}" not found in server "${guild.name}". Available roles: ${availableRoles}`);
+}
+
+// Helper function to find a guild member by ID, username#discriminator, or mention
+async function findMember(userIdentifier: string, guildIdentifier?: string): Promise<MemberInfo> {
+  const guild = await findGuild(guildIdentifier);
+  const bot = botFor(guild.id);
+  const userId = userIdentifier.replace(/[<@!>]/g, ''); // Clean potential mention syntax
+
+  // Try fetching by ID
+  try {
+    const member = await bot.fetchMember(guild.id, userId);
+    if (member) return noteResolved('userIds', member);
+  } catch {
+    // Ignore error if ID fetch fails
+  }
+
+  // Try searching by username#discriminator
+  const lowerUserIdentifier = userIdentifier.toLowerCase();
+  let member = bot.members(guild.id).find(m => m.user.tag.toLowerCase() === lowerUserIdentifier);
+  if (member) return noteResolved('userIds', member);
+
+  // Try searching by nickname or username (less reliable)
+  member = bot.members(guild.id).find(m =>
+    (m.nickname?.toLowerCase() === lowerUserIdentifier) ||
+    (m.user.username.toLowerCase() === lowerUserIdentifier)
+  );
+  if (member) return noteResolved('userIds', member);
+
+  // If still not found, make sure every member is known and search again
+  try {
+    await loadAllMembers(guild, null);
+    const members = bot.members(guild.id);
+    member = members.find(m => m.id === userId) ??
+             members.find(m => m.user.tag.toLowerCase() === lowerUserIdentifier) ??
+             members.find(m =>
+               (m.nickname?.toLowerCase() === lowerUserIdentifier) ||
+               (m.user.username.toLowerCase() === lowerUserIdentifier)
+             );
+    if (member) return noteResolved('userIds', member);
+  } catch (error) {
+    console.error(`Error fetching members for guild ${guild.id}:`, error);
+    // Fall through to throw not found error
+  }
+
+  throw new ToolError('NOT_FOUND', `User "${userIdentifier}" not found in server "${guild.name}".`);
+}
+
+// Helper function to get the user ID to filter by from an ID, mention or name. IDs and mentions are used as given,
+// so users who have since left the server still match; names are looked up among the current members
+async function resolveUserId(userIdentifier: string, guildId: string): Promise<string> {
+  const cleaned = userIdentifier.replace(/[<@!>]/g, '');
+  if (/^\d{17,20}$/.test(cleaned)) return noteResolved('userIds', { id: cleaned }).id;
+  return (await findMember(userIdentifier, guildId)).id;
+}
+
+// Helper function to validate permission names (e.g. "SendMessages") and convert them to bit flags
+function parsePermissionNames(permissions: string[]): bigint[] {
+  return permissions.map(p => {
+    if (!(p in PermissionsBitField.Flags)) {
+      throw new ToolError('INVALID_ARGUMENTS', `Invalid permission name: ${p}. Valid permissions: ${Object.keys(PermissionsBitField.Flags).join(', ')}`);
+    }
+    return PermissionsBitField.Flags[p as keyof typeof PermissionsBitField.Flags];
+  });
+}
+
+type PermissionName = keyof typeof PermissionsBitField.Flags;
+
+interface PermissionExplanation {
+  permission: PermissionName;
+  allowed: boolean;
+  reason: string;
+}
+
+// Helper function to order roles the way Discord does: by position, with the older role higher on a tie
+function compareRolePositions(a: RoleInfo, b: RoleInfo): number {
+  if (a.position !== b.position) return a.position - b.position;
+  return BigInt(a.id) < BigInt(b.id) ? 1 : BigInt(a.id) > BigInt(b.id) ? -1 : 0;
+}
+
+// Helper function to list a member's roles, @everyone included, highest first
+function memberRoles(member: MemberInfo): RoleInfo[] {
+  return botFor(member.guild.id).roles(member.guild.id)
+    .filter(role => role.id === member.guild.id || member.roleIds.includes(role.id))
+    .sort((a, b) => compareRolePositions(b, a));
+}
+
+function highestRole(member: MemberInfo): RoleInfo {
+  return memberRoles(member)[0];
+}
+
+// Helper function to list a member's roles other than @everyone, in the server's role order
+function assignedRoles(member: MemberInfo): RoleInfo[] {
+  return botFor(member.guild.id).roles(member.guild.id).filter(role => member.roleIds.includes(role.id));
+}
+
+function hasRoleId(member: MemberInfo, roleId: string): boolean {
+  return roleId === member.guild.id || member.roleIds.includes(roleId);
+}
+
+// Helper function to list the known members holding a role
+function roleMembers(role: RoleInfo): MemberInfo[] {
+  return botFor(role.guild.id).members(role.guild.id).filter(member => hasRoleId(member, role.id));
+}
+
+function hasPermission(bits: bigint, flag: bigint): boolean {
+  return (bits & flag) === flag;
+}
+
+// Helper function to work out a member's server-wide permissions; the owner and administrators have every permission
+function memberPermissions(member: MemberInfo): bigint {
+  if (member.id === member.guild.ownerId) return PermissionsBitField.All;
+  const bits = memberRoles(member).reduce((all, role) => all | role.permissions, 0n);
+  return hasPermission(bits, PermissionsBitField.Flags.Administrator) ? PermissionsBitField.All : bits;
+}
+
+function isTimedOut(member: MemberInfo): boolean {
+  return member.communicationDisabledUntil !== null && member.communicationDisabledUntil.getTime() > Date.now();
+}
+
+function roleHexColor(role: RoleInfo): string {
+  return `#${role.color.toString(16).padStart(6, '0')}`;
+}
+
+// Helper function to name the permissions set in a bit field, e.g. ["SendMessages", "ViewChannel"]
+function permissionNames(bits: bigint): string[] {
+  return new PermissionsBitField(bits).toArray();
+}
+
+function combinePermissions(flags: bigint[]): bigint {
+  return flags.reduce((all, flag) => all | flag, 0n);
+}
+
+// Helper function to walk Discord's permission algorithm (roles, then @everyone, role and member overwrites)
+// for a member in a channel, recording for each permission the last rule that decided it
+function explainChannelPermissions(member: MemberInfo, channel: ChannelInfo): PermissionExplanation[] {
+  const guild = member.guild;
+  const names = Object.keys(PermissionsBitField.Flags) as PermissionName[];
+  const roles = memberRoles(member);
+
+  if (member.id === guild.ownerId) {
+    return names.map(permission => ({ permission, allowed: true, reason: 'Member is the server owner' }));
+  }
+  const adminRole = roles.find(r => hasPermission(r.permissions, PermissionsBitField.Flags.Administrator));
+  if (adminRole) {
+    return names.map(permission => ({
+      permission,
+      allowed: true,
+      reason: `Administrator permission granted by role "${adminRole.name}" bypasses all overwrites`,
+    }));
+  }
+
+  const overwrites = new Map(channel.permissionOverwrites.map(overwrite => [overwrite.id, overwrite]));
+  const everyoneOverwrite = overwrites.get(guild.id);
+  const roleOverwrites = roles
+    .filter(role => role.id !== guild.id && overwrites.has(role.id))
+    .map(role => ({ role, overwrite: overwrites.get(role.id)! }));
+  const memberOverwrite = overwrites.get(member.id);
+
+  const explanations = names.map(permission => {
+    const flag = PermissionsBitField.Flags[permission];
+    const grantingRole = roles.find(role => hasPermission(role.permissions, flag));
+    let allowed = Boolean(grantingRole);
+    let reason = grantingRole ? `Granted by role "${grantingRole.name}"` : "Not granted by any of the member's roles";
+
+    if (everyoneOverwrite && hasPermission(everyoneOverwrite.deny, flag)) {
+      allowed = false;
+      reason = `Denied by the @everyone overwrite on #${channel.name}`;
+    }
+    if (everyoneOverwrite && hasPermission(everyoneOverwrite.allow, flag)) {
+      allowed = true;
+      reason = `Allowed by the @everyone overwrite on #${channel.name}`;
+    }
+
+    // Role overwrites are combined: any role allow beats any role deny
+    const denyingRole = roleOverwrites.find(({ overwrite }) => hasPermission(overwrite.deny, flag));
+    const allowingRole = roleOverwrites.find(({ overwrite }) => hasPermission(overwrite.allow, flag));
+    if (allowingRole) {
+      allowed = true;
+      reason = `Allowed by the overwrite for role "${allowingRole.role.name}" on #${channel.name}` +
+        (denyingRole ? ` (overrides the deny for role "${denyingRole.role.name}")` : '');
+    } else if (denyingRole) {
+      allowed = false;
+      reason = `Denied by the overwrite for role "${denyingRole.role.name}" on #${channel.name}`;
+    }
+
+    if (memberOverwrite && hasPermission(memberOverwrite.deny, flag)) {
+      allowed = false;
+      reason = `Denied by the member-specific overwrite on #${channel.name}`;
+    }
+    if (memberOverwrite && hasPermission(memberOverwrite.allow, flag)) {
+      allowed = true;
+      reason = `Allowed by the member-specific overwrite on #${channel.name}`;
+    }
+
+    return { permission, allowed, reason };
+  });
+
+  const canView = explanations.find(e => e.permission === 'ViewChannel')!.allowed;
+  const timedOutUntil = isTimedOut(member) ? member.communicationDisabledUntil : null;
+  for (const explanation of explanations) {
+    if (!explanation.allowed) continue;
+    if (!canView && explanation.permission !== 'ViewChannel') {
+      explanation.allowed = false;
+      explanation.reason = `ViewChannel is denied, which removes every other permission in #${channel.name}`;
+    } else if (timedOutUntil && explanation.permission !== 'ViewChannel' && explanation.permission !== 'ReadMessageHistory') {
+      explanation.allowed = false;
+      explanation.reason = `Member is timed out until ${timedOutUntil.toISOString()}`;
+    }
+  }
+  return explanations;
+}
+
+// Helper function to check that the bot is allowed to moderate a member before calling Discord,
+// so hierarchy and permission problems produce a clear message instead of "Missing Permissions"
+async function assertCanModerate(member: MemberInfo, action: 'kick' | 'ban' | 'timeout'): Promise<void> {
+  const guild = member.guild;
+  const me = await botFor(guild.id).fetchMe(guild.id);
+  const requiredPermission = {
+    kick: 'KickMembers',
+    ban: 'BanMembers',
+    timeout: 'ModerateMembers',
+  }[action] as keyof typeof PermissionsBitField.Flags;
+
+  if (!hasPermission(memberPermissions(me), PermissionsBitField.Flags[requiredPermission])) {
+    throw new ToolError('MISSING_PERMISSIONS', `Cannot ${action} ${member.user.tag}: the bot is missing the "${requiredPermission}" permission in server "${guild.name}".`);
+  }
+  if (member.id === me.id) {
+    throw new ToolError('NOT_MANAGEABLE', `Cannot ${action} ${member.user.tag}: the bot cannot ${action} itself.`);
+  }
+  if (member.id === guild.ownerId) {
+    throw new ToolError('NOT_MANAGEABLE', `Cannot ${action} ${member.user.tag}: they are the owner of server "${guild.name}".`);
+  }
+  const memberHighest = highestRole(member);
+  const botHighest = highestRole(me);
+  if (memberHighest.position >= botHighest.position) {
+    throw new ToolError('NOT_MANAGEABLE', `Cannot ${action} ${member.user.tag}: their highest role "${memberHighest.name}" is not below the bot's highest role "${botHighest.name}". Move the bot's role above "${memberHighest.name}" in Server Settings > Roles.`);
+  }
+  if (action === 'timeout' && hasPermission(memberPermissions(member), PermissionsBitField.Flags.Administrator)) {
+    throw new ToolError('NOT_MANAGEABLE', `Cannot timeout ${member.user.tag}: members with the Administrator permission cannot be timed out.`);
+  }
+}
+
+type RoleAction = 'assign' | 'remove' | 'update' | 'delete';
+
+interface RoleManageability {
+  role: { id: string; name: string; position: number; isEveryone: boolean; managed: boolean; managedBy: string | null };
+  bot: { highestRole: string; highestRolePosition: number; hasManageRoles: boolean };
+  actions: Record<RoleAction, { allowed: boolean; problems: string[] }>;
+}
+
+// Helper function to describe what keeps a managed role in place (a bot, Server Boosting or another integration)
+function describeRoleManager(role: RoleInfo): string | null {
+  if (!role.managed) return null;
+  if (role.tags?.premiumSubscriberRole) return 'Server Boosting';
+  const botId = role.tags?.botId;
+  if (botId) return `the bot ${botFor(role.guild.id).members(role.guild.id).find(m => m.id === botId)?.user.tag ?? botId}`;
+  if (role.tags?.integrationId) return `the integration ${role.tags.integrationId}`;
+  return 'an integration';
+}
+
+// Helper function to work out which role tools can act on a role, with a fix for each blocker.
+// Mirrors Discord's own rules: Manage Roles is required, a bot can only manage roles below its highest role,
+// managed roles cannot be assigned, removed or deleted, and @everyone is implicit and permanent.
+async function analyzeRoleManageability(role: RoleInfo): Promise<RoleManageability> {
+  const guild = role.guild;
+  const me = await botFor(guild.id).fetchMe(guild.id);
+  const botRole = highestRole(me);
+  const isEveryone = role.id === guild.id;
+  const managedBy = describeRoleManager(role);
+  const hasManageRoles = hasPermission(memberPermissions(me), PermissionsBitField.Flags.ManageRoles);
+
+  const shared: string[] = [];
+  if (!hasManageRoles) {
+    shared.push(`The bot is missing the "ManageRoles" permission in server "${guild.name}". Grant it to one of the bot's roles in Server Settings > Roles.`);
+  }
+  if (!isEveryone) {
+    if (role.id === botRole.id) {
+      shared.push(`"${role.name}" is the bot's own highest role, and a bot can only manage roles below it. Give the bot a higher role, or change "${role.name}" manually.`);
+    } else if (compareRolePositions(role, botRole) > 0) {
+      shared.push(`Role "${role.name}" (position ${role.position}) is above the bot's highest role "${botRole.name}" (position ${botRole.position}). Move the bot's role above "${role.name}" in Server Settings > Roles.`);
+    }
+  }
+
+  const membership: string[] = [];
+  const deletion: string[] = [];
+  if (isEveryone) {
+    membership.push(`"@everyone" is held implicitly by every member and cannot be assigned or removed. Use a regular role instead.`);
+    deletion.push(`"@everyone" cannot be deleted. Use update-role to change its permissions instead.`);
+  } else if (managedBy) {
+    membership.push(`Role "${role.name}" is managed by ${managedBy}, so Discord assigns it automatically. Use a regular role instead.`);
+    deletion.push(`Role "${role.name}" is managed by ${managedBy} and cannot be deleted. It is removed when ${managedBy} is removed from the server.`);
+  }
+
+  const result = (problems: string[]) => ({ allowed: problems.length === 0, problems });
+  return {
+    role: { id: role.id, name: role.name, position: role.position, isEveryone, managed: role.managed, managedBy },
+    bot: { highestRole: botRole.name, highestRolePosition: botRole.position, hasManageRoles },
+    actions: {
+      assign: result([...shared, ...membership]),
+      remove: result([...shared, ...membership]),
+      update: result(shared),
+      delete: result([...shared, ...deletion]),
+    },
+  };
+}
+
+// Pre-flight check shared by the role tools, so they fail with an actionable error instead of "Missing Permissions"
+async function assertRoleManageable(role: RoleInfo, action: RoleAction): Promise<void> {
+  const { problems } = (await analyzeRoleManageability(role)).actions[action];
+  if (problems.length > 0) {
+    throw new ToolError('NOT_MANAGEABLE', `Cannot ${action} role "${role.name}": ${problems.join(' ')}`);
+  }
+}
+
+// Helper function to resolve a list of channel identifiers, or every text and announcement channel in the guild if none are given
+async function resolveTextChannels(guild: GuildInfo, channelIdentifiers?: string[]): Promise<ChannelInfo[]> {
+  if (channelIdentifiers && channelIdentifiers.length > 0) {
+    return Promise.all(channelIdentifiers.map(id => findChannel(id, guild.id)));
+  }
+  return botFor(guild.id).channels(guild.id).filter(
+    c => (c.type === ChannelType.GuildText || c.type === ChannelType.GuildAnnouncement) && isChannelAllowed(c)
+  );
+}
+
+// Helper function to resolve an attachment path inside the allowlisted DISCORD_ATTACHMENT_DIR,
+// rejecting anything that escapes it through "..", absolute paths or symlinks
+async function resolveAttachmentPath(file: string): Promise<string> {
+  const baseDir = process.env.DISCORD_ATTACHMENT_DIR;
+  if (!baseDir) {
+    throw new ToolError('INVALID_ARGUMENTS', 'File attachments are disabled. Set DISCORD_ATTACHMENT_DIR to the directory files may be attached from.');
+  }
+
+  const root = await fs.realpath(path.resolve(baseDir));
+  let resolved: string;
+  try {
+    resolved = await fs.realpath(path.resolve(root, file));
+  } catch {
+    throw new ToolError('NOT_FOUND', `Attachment "${file}" not found in ${root}.`);
+  }
+  if (!resolved.startsWith(root + path.sep)) {
+    throw new ToolError('INVALID_ARGUMENTS', `Attachment "${file}" is outside the allowed directory ${root}.`);
+  }
+  if (!(await fs.stat(resolved)).isFile()) {
+    throw new ToolError('INVALID_ARGUMENTS', `Attachment "${file}" is not a file.`);
+  }
+  return resolved;
+}
+
+// Helper function to turn validated send-message arguments into an outgoing message.
+// Mentions default to users only so a message can never ping @everyone or roles unless asked to.
+async function buildMessagePayload(channel: ChannelInfo, input: Omit<z.infer<typeof SendMessageSchema>, 'server' | 'channel'>): Promise<OutgoingMessage> {
+  const payload: OutgoingMessage = {
+    allowedMentions: {
+      parse: input.allowedMentions?.parse ?? (input.allowedMentions?.users ? [] : ['users']),
+      users: input.allowedMentions?.users,
+      roles: input.allowedMentions?.roles,
+      repliedUser: input.allowedMentions?.repliedUser ?? true,
+    },
+  };
+  if (input.message) payload.content = input.message;
+
+  if (input.embeds) {
+    payload.embeds = input.embeds.map(embed => {
+      const builder = new EmbedBuilder();
+      if (embed.title) builder.setTitle(embed.title);
+      if (embed.description) builder.setDescription(embed.description);
+      if (embed.url) builder.setURL(embed.url);
+      if (embed.color) builder.setColor(parseInt(embed.color.replace('#', ''), 16));
+      if (embed.fields) builder.addFields(embed.fields);
+      if (embed.footer) builder.setFooter({ text: embed.footer });
+      if (embed.imageUrl) builder.setImage(embed.imageUrl);
+      if (embed.thumbnailUrl) builder.setThumbnail(embed.thumbnailUrl);
+      if (embed.timestamp) builder.setTimestamp(new Date(embed.timestamp));
+      return builder.toJSON();
+    });
+  }
+
+  if (input.files) {
+    payload.files = await Promise.all(input.files.map(async file => {
+      const resolved = await resolveAttachmentPath(file);
+      return { path: resolved, name: path.basename(resolved) };
+    }));
+  }
+
+  if (input.replyTo) {
+    // Fetch first so a bad ID produces a readable error rather than "Unknown Message"
+    try {
+      await botFor(channel.guild.id).fetchMessage(channel.id, input.replyTo);
+    } catch {
+      throw new ToolError('NOT_FOUND', `Cannot reply to message ${input.replyTo}: it was not found in #${channel.name}.`);
+    }
+    payload.replyTo = input.replyTo;
+  }
+
+  return payload;
+}
+
+// Helper function to page backwards through history collecting the messages bulk-delete-messages would remove,
+// until enough match or the scan limit is reached
+async function findBulkDeleteMatches(
+  channel: ChannelInfo,
+  { count, author, contains, scanLimit }: { count: number; author?: string; contains?: string; scanLimit: number },
+): Promise<{ matches: MessageInfo[]; scanned: number }> {
+  const authorId = author ? await resolveUserId(author, channel.guild.id) : undefined;
+  const needle = contains?.toLowerCase();
+  const bot = botFor(channel.guild.id);
+
+  const matches: MessageInfo[] = [];
+  let scanned = 0;
+  let before: string | undefined;
+  while (matches.length < count && scanned < scanLimit) {
+    const page = await bot.fetchMessages(channel.id, { limit: Math.min(100, scanLimit - scanned), before });
+    if (page.length === 0) break;
+    for (const msg of page) {
+      if (matches.length >= count) break;
+      if (authorId && msg.author.id !== authorId) continue;
+      if (needle && !msg.content.toLowerCase().includes(needle)) continue;
+      matches.push(msg);
+    }
+    scanned += page.length;
+    before = page[page.length - 1].id;
+  }
+  return { matches, scanned };
+}
+
+// Options and result for paging through a channel's message history
+interface MessageHistoryOptions {
+  limit: number;
+  before?: string;
+  after?: string;
+  around?: string;
+  since?: Date;
+  until?: Date;
+}
+
+interface MessageHistoryPage {
+  messages: MessageInfo[]; // Newest first
+  nextCursor: { before: string } | { after: string } | null;
+}
+
+// Helper function to page through a channel's history, 100 messages per request.
+// Pages backwards from `before` (or `until`, or the newest message) unless `after` is given,
+// in which case it pages forwards. `around` is a single request and returns no cursor.
+async function fetchMessageHistory(channel: ChannelInfo, options: MessageHistoryOptions): Promise<MessageHistoryPage> {
+  const { limit, around } = options;
+  const bot = botFor(channel.guild.id);
+  const sinceMs = options.since?.getTime();
+  const untilMs = options.until?.getTime();
+  const inWindow = (msg: MessageInfo) =>
+    (sinceMs === undefined || msg.createdAt.getTime() >= sinceMs) &&
+    (untilMs === undefined || msg.createdAt.getTime() <= untilMs);
+
+  if (around) {
+    const page = await bot.fetchMessages(channel.id, { around, limit: Math.min(limit, 100) });
+    return { messages: page.filter(inWindow), nextCursor: null };
+  }
+
+  const collected: MessageInfo[] = [];
+  let exhausted = false;
+
+  if (options.after) {
+    let after = options.after;
+    while (collected.length < limit) {
+      const requested = Math.min(100, limit - collected.length);
+      const page = await bot.fetchMessages(channel.id, { limit: requested, after });
+      if (page.length === 0) {
+        exhausted = true;
+        break;
+      }
+      // Discord returns the page right after the cursor, newest first; walk it oldest first
+      const ordered = [...page].sort((a, b) => (BigInt(a.id) < BigInt(b.id) ? -1 : 1));
+      let crossedUntil = false;
+      for (const msg of ordered) {
+        if (untilMs !== undefined && msg.createdAt.getTime() > untilMs) {
+          crossedUntil = true;
+          break;
+        }
+        if (inWindow(msg)) collected.push(msg);
+        after = msg.id;
+      }
+      if (crossedUntil || page.length < requested) {
+        exhausted = true;
+        break;
+      }
+    }
+    return { messages: collected.reverse(), nextCursor: exhausted ? null : { after } };
+  }
+
+  let before = options.before ?? (untilMs !== undefined ? SnowflakeUtil.generate({ timestamp: untilMs + 1 }).toString() : undefined);
+  while (collected.length < limit) {
+    const requested = Math.min(100, limit - collected.length);
+    const page = await bot.fetchMessages(channel.id, { limit: requested, before });
+    if (page.length === 0) {
+      exhausted = true;
+      break;
+    }
+    let crossedSince = false;
+    for (const msg of page) {
+      if (sinceMs !== undefined && msg.createdAt.getTime() < sinceMs) {
+        crossedSince = true;
+        break;
+      }
+      if (inWindow(msg)) collected.push(msg);
+      before = msg.id;
+    }
+    if (crossedSince || page.length < requested) {
+      exhausted = true;
+      break;
+    }
+  }
+  return { messages: collected, nextCursor: exhausted || !before ? null : { before } };
+}
+
+// Helper function to compile a caller-supplied regular expression, matched case-insensitively. Patterns run on the
+// main thread against every scanned message or member, so the schemas keep them short.
+function compileUserPattern(pattern: string): RegExp {
+  try {
+    return new RegExp(pattern, 'i');
+  } catch (regexError) {
+    throw new ToolError('INVALID_ARGUMENTS', `Invalid regular expression "${pattern}": ${regexError instanceof Error ? regexError.message : 'Unknown error'}`);
+  }
+}
+
+interface ResolvedEmoji {
+  key: string; // How reactions are told apart: the custom emoji ID or the unicode emoji
+  display: string;
+  emoji: EmojiInfo;
+}
+
+// Helper function to give the key resolveEmoji would for an emoji on a message
+function emojiKey(emoji: EmojiInfo): string {
+  return emoji.id ?? emoji.name ?? '';
+}
+
+// Helper function to resolve a unicode emoji, or a custom emoji by mention (<:name:id>), name:id, ID or name (with or without colons)
+function resolveEmoji(emoji: string, guild: GuildInfo): ResolvedEmoji {
+  const bot = botFor(guild.id);
+  const trimmed = emoji.trim();
+  const custom = trimmed.match(/^(?:<a?:|:)?([\w~]+):(\d{17,20})>?$/) ?? trimmed.match(/^()(\d{17,20})$/);
+  if (custom) {
+    const [, name, id] = custom;
+    const known = bot.emoji(id) ?? { id, name: name || 'emoji', animated: false };
+    return { key: id, display: formatEmoji(known), emoji: known };
+  }
+
+  const name = trimmed.replace(/^:|:$/g, '');
+  const emojis = bot.emojis(guild.id);
+  const byName = emojis.find(e => e.name === name) ??
+    emojis.find(e => e.name?.toLowerCase() === name.toLowerCase());
+  if (byName) {
+    return { key: emojiKey(byName), display: formatEmoji(byName), emoji: byName };
+  }
+
+  if (/\p{Extended_Pictographic}|\p{Regional_Indicator}|\u20E3/u.test(trimmed)) {
+    return { key: trimmed, display: trimmed, emoji: { id: null, name: trimmed, animated: false } };
+  }
+  throw new ToolError('INVALID_ARGUMENTS', `Emoji "${emoji}" is neither a unicode emoji nor a custom emoji in server "${guild.name}".`);
+}
+
+// Updated validation schemas
+const isoTimestamp = z.string().refine(value => !isNaN(Date.parse(value)), { message: 'Must be an ISO 8601 timestamp' });
+
+const ianaTimeZone = z.string().refine(zone => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: zone });
+    return true;
+  } catch {
+    return false;
+  }
+}, { message: 'Must be an IANA time zone such as "Europe/Berlin"' });
+
+const timeBudget = z.number().min(1).max(300).describe('Seconds to spend fetching before returning partial results marked incomplete (default 30, or DISCORD_TIME_BUDGET_SECONDS)');
+
+// Limits from https://discord.com/developers/docs/resources/message#embed-object-embed-limits
+const EmbedSchema = z.object({
+  title: z.string().max(256).optional(),
+  description: z.string().max(4096).optional(),
+  url: z.string().url().optional(),
+  color: z.string().regex(/^#?[0-9a-fA-F]{6}$/, 'Must be a hex color code like #FF0000').optional(),
+  fields: z.array(z.object({
+    name: z.string().min(1).max(256),
+    value: z.string().min(1).max(1024),
+    inline: z.boolean().optional(),
+  })).max(25).optional(),
+  footer: z.string().max(2048).optional(),
+  imageUrl: z.string().url().optional(),
+  thumbnailUrl: z.string().url().optional(),
+  timestamp: isoTimestamp.optional(),
+}).refine(
+  embed => Boolean(embed.title || embed.description || embed.fields?.length || embed.imageUrl || embed.thumbnailUrl),
+  { message: 'Embed must have at least a title, description, field or image' }
+);
+
+const AllowedMentionsSchema = z.object({
+  parse: z.array(z.enum(['users', 'roles', 'everyone'])).optional().describe('Mention types to allow from the content'),
+  users: z.array(z.string()).max(100).optional().describe('Specific user IDs that may be pinged'),
+  roles: z.array(z.string()).max(100).optional().describe('Specific role IDs that may be pinged'),
+  repliedUser: z.boolean().optional().describe('Whether to ping the author of the replied-to message'),
+});
+
+// Shared by send-message and schedule-message
+const SendMessageFieldsSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+  channel: z.string().describe('Channel name (e.g., "general") or ID'),
+  message: z.string().max(2000).optional(),
+  embeds: z.array(EmbedSchema).max(10).optional(),
+  replyTo: z.string().optional().describe('ID of a message in the same channel to reply to'),
+  files: z.array(z.string()).max(10).optional().describe('Paths of files to attach, relative to DISCORD_ATTACHMENT_DIR'),
+  allowedMentions: AllowedMentionsSchema.optional(),
+});
+
+const SendMessageSchema = SendMessageFieldsSchema.refine(
+  data => Boolean(data.message || data.embeds?.length || data.files?.length),
+  { message: 'At least one of message, embeds or files is required', path: ['message'] }
+).refine(
+  data => (data.embeds ?? []).reduce((total, embed) =>
+    total + (embed.title?.length ?? 0) + (embed.description?.length ?? 0) + (embed.footer?.length ?? 0) +
+    (embed.fields ?? []).reduce((sum, field) => sum + field.name.length + field.value.length, 0), 0) <= 6000,
+  { message: 'Combined embed text (titles, descriptions, fields and footers) must not exceed 6000 characters', path: ['embeds'] }
+);
+
+const ReadMessagesSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+  channel: z.string().describe('Channel name (e.g., "general") or ID'),
+  limit: z.number().min(1).max(MAX_READ_MESSAGES).default(50),
+  before: z.string().optional().describe('Return messages before this message ID'),
+  after: z.string().optional().describe('Return messages after this message ID'),
+  around: z.string().optional().describe('Return messages around this message ID (max 100, no pagination)'),
+  since: isoTimestamp.optional().describe('Only return messages sent at or after this ISO 8601 timestamp'),
+  until: isoTimestamp.optional().describe('Only return messages sent at or before this ISO 8601 timestamp'),
+}).refine(
+  data => [data.before, data.after, data.around].filter(Boolean).length <= 1,
+  { message: 'Only one of before, after or around may be specified', path: ['before'] }
+);
+
+// New validation schemas
+const ReadMultipleChannelsSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+  channels: z.array(z.string()).optional().describe('List of channel names or IDs (optional, defaults to all text channels)'),
+  limitPerChannel: z.number().min(1).max(50).default(10).describe('Max messages per channel (default 10, max 50)'),
+  timeBudgetSeconds: timeBudget.optional(),
+});
+const ListChannelsSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+  includeThreads: z.boolean().optional().default(false).describe('Also list active threads'),
+  tree: z.boolean().optional().default(false).describe('Return every channel grouped by category, with types and positions'),
+});
+
+const ListServersSchema = z.object({}); // No arguments needed
+
+const CreateChannelSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+  channelName: z.string().min(1).max(100).describe('Name for the new channel'),
+  type: z.enum(['text', 'voice', 'category', 'announcement', 'forum']).optional().default('text').describe('Channel type (default text)'),
+  category: z.string().optional().describe('Name or ID of the parent category'),
+  topic: z.string().max(1024).optional().describe('Channel topic (text, announcement and forum channels)'),
+  slowmode: z.number().int().min(0).max(21600).optional().describe('Slowmode in seconds (0-21600)'),
+  nsfw: z.boolean().optional().describe('Whether the channel is age-restricted'),
+  position: z.number().int().min(0).optional().describe('Sorting position of the channel'),
+});
+
+// --- Channel Management Schemas ---
+const UpdateChannelSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+  channel: z.string().describe('Channel or category name or ID'),
+  newName: z.string().min(1).max(100).optional().describe('New name for the channel'),
+  topic: z.string().max(1024).optional().describe('New channel topic (empty string clears it)'),
+  slowmode: z.number().int().min(0).max(21600).optional().describe('New slowmode in seconds (0 disables it)'),
+  nsfw: z.boolean().optional().describe('New age-restricted status'),
+});
+
+const DeleteChannelSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+  channel: z.string().describe('Channel or category name or ID to delete'),
+  reason: z.string().max(512).optional().describe('Reason recorded in the server audit log'),
+});
+
+const MoveChannelSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+  channel: z.string().describe('Channel name or ID to move'),
+  category: z.string().nullable().optional().describe('Name or ID of the new parent category, or null to move it out of its category'),
+  position: z.number().int().min(0).optional().describe('New sorting position of the channel'),
+  syncPermissions: z.boolean().optional().default(false).describe('Sync permissions with the new category'),
+}).refine(
+  data => data.category !== undefined || data.position !== undefined,
+  { message: 'At least one of category or position is required', path: ['category'] }
+);
+
+const CloneChannelSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+  channel: z.string().describe('Channel or category name or ID to clone'),
+  newName: z.string().min(1).max(100).optional().describe('Name for the copy (defaults to the original name)'),
+});
+// --- End Channel Management Schemas ---
+
+// --- Role Management Schemas ---
+const ListRolesSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+});
+
+const AssignRoleSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+  user: z.string().describe('User name#discriminator, user ID, or user mention'),
+  role: z.string().describe('Role name or ID'),
+  reason: z.string().max(512).optional().describe('Reason recorded in the server audit log'),
+});
+
+const RemoveRoleSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+  user: z.string().describe('User name#discriminator, user ID, or user mention'),
+  role: z.string().describe('Role name or ID'),
+  reason: z.string().max(512).optional().describe('Reason recorded in the server audit log'),
+});
+
+const CreateRoleSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+  roleName: z.string().describe('Name for the new role'),
+  color: z.string().optional().describe('Hex color code for the role (e.g., #FF0000)'),
+  permissions: z.array(z.string()).optional().describe('List of permission names (e.g., ["SendMessages", "ManageMessages"])'),
+  mentionable: z.boolean().optional().default(false).describe('Whether the role should be mentionable'),
+  reason: z.string().max(512).optional().describe('Reason recorded in the server audit log'),
+});
+
+const DeleteRoleSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+  role: z.string().describe('Role name or ID to delete'),
+  reason: z.string().max(512).optional().describe('Reason recorded in the server audit log'),
+});
+
+const UpdateRoleSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+  role: z.string().describe('Role name or ID to update'),
+  newName: z.string().optional().describe('New name for the role'),
+  newColor: z.string().optional().describe('New hex color code for the role'),
+  newPermissions: z.array(z.string()).optional().describe('New list of permission names (replaces existing)'),
+  newMentionable: z.boolean().optional().describe('New mentionable status'),
+  reason: z.string().max(512).optional().describe('Reason recorded in the server audit log'),
+});
+
+const CheckRoleManageabilitySchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+  role: z.string().describe('Role name or ID to check'),
+});
+// --- End Role Management Schemas ---
+
+// --- Member Count Schemas ---
+const GetMemberCountSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+});
+
+const GetRoleMemberCountSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+  role: z.string().describe('Role name or ID'),
+  includeMembers: z.boolean().optional().default(false).describe('Also return the members that have the role'),
+  timeBudgetSeconds: timeBudget.optional(),
+});
+// --- End Member Count Schemas ---
+
+// --- Moderation Schemas ---
+const KickMemberSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+  user: z.string().describe('User name#discriminator, user ID, or user mention'),
+  reason: z.string().min(1).max(512).describe('Reason recorded in the server audit log'),
+});
+
+const BanMemberSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+  user: z.string().describe('User name#discriminator, user ID, or user mention'),
+  reason: z.string().min(1).max(512).describe('Reason recorded in the server audit log'),
+  deleteMessageDays: z.number().int().min(0).max(7).optional().default(0).describe('Delete the user\'s messages from the last N days (0-7, default 0)'),
+});
+
+const UnbanUserSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+  user: z.string().describe('User ID, username, or user mention of the banned user'),
+  reason: z.string().min(1).max(512).describe('Reason recorded in the server audit log'),
+});
+
+const TimeoutMemberSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+  user: z.string().describe('User name#discriminator, user ID, or user mention'),
+  durationMinutes: z.number().int().min(1).max(40320).describe('Timeout duration in minutes (max 40320, i.e. 28 days)'),
+  reason: z.string().min(1).max(512).describe('Reason recorded in the server audit log'),
+});
+
+const RemoveTimeoutSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+  user: z.string().describe('User name#discriminator, user ID, or user mention'),
+  reason: z.string().min(1).max(512).describe('Reason recorded in the server audit log'),
+});
+
+const ListBansSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+});
+// --- End Moderation Schemas ---
+
+// --- Message Management Schemas ---
+const EditMessageSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+  channel: z.string().describe('Channel name (e.g., "general") or ID'),
+  messageId: z.string().describe('ID of the message to edit (must have been sent by the bot)'),
+  message: z.string().min(1).max(2000).describe('New message content'),
+});
+
+const DeleteMessageSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+  channel: z.string().describe('Channel name (e.g., "general") or ID'),
+  messageId: z.string().describe('ID of the message to delete'),
+});
+
+const PinMessageSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+  channel: z.string().describe('Channel name (e.g., "general") or ID'),
+  messageId: z.string().describe('ID of the message to pin or unpin'),
+});
+
+const ListPinnedMessagesSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+  channel: z.string().describe('Channel name (e.g., "general") or ID'),
+});
+
+const BulkDeleteMessagesSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+  channel: z.string().describe('Channel name (e.g., "general") or ID'),
+  count: z.number().int().min(1).max(500).describe('Maximum number of matching messages to delete (max 500)'),
+  author: z.string().optional().describe('Only delete messages by this user (name#discriminator, user ID, or mention)'),
+  contains: z.string().optional().describe('Only delete messages whose content contains this text (case-insensitive)'),
+  scanLimit: z.number().int().min(1).max(1000).default(500).describe('Maximum number of recent messages to scan for matches (default 500, max 1000)'),
+});
+// --- End Message Management Schemas ---
+
+// --- Search Schemas ---
+const SearchMessagesSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+  channels: z.array(z.string()).optional().describe('List of channel names or IDs (optional, defaults to all text channels)'),
+  query: z.string().max(200).optional().describe('Text to search for in message content (case-insensitive, max 200 characters)'),
+  regex: z.boolean().optional().default(false).describe('Treat query as a regular expression'),
+  author: z.string().optional().describe('Only match messages by this user (name#discriminator, user ID, or mention)'),
+  mentions: z.string().optional().describe('Only match messages that mention this user'),
+  hasAttachment: z.boolean().optional().describe('Only match messages with (true) or without (false) attachments'),
+  hasLink: z.boolean().optional().describe('Only match messages with (true) or without (false) links'),
+  since: isoTimestamp.optional().describe('Only match messages sent at or after this ISO 8601 timestamp'),
+  until: isoTimestamp.optional().describe('Only match messages sent at or before this ISO 8601 timestamp'),
+  scanLimit: z.number().int().min(1).max(5000).default(1000).describe('Maximum number of messages to scan across all channels (default 1000, max 5000)'),
+  maxResults: z.number().int().min(1).max(100).default(25).describe('Maximum number of matches to return (default 25, max 100)'),
+  contextSize: z.number().int().min(0).max(5).default(1).describe('Number of surrounding messages to include on each side of a match (default 1, max 5)'),
+  timeBudgetSeconds: timeBudget.optional(),
+});
+// --- End Search Schemas ---
+
+// --- Thread Schemas ---
+const autoArchiveMinutes = z.union([z.literal(60), z.literal(1440), z.literal(4320), z.literal(10080)])
+  .describe('Minutes of inactivity before the thread is archived (60, 1440, 4320 or 10080)');
+
+const ListThreadsSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+  channel: z.string().optional().describe('Parent text, announcement or forum channel name or ID (optional, defaults to all channels)'),
+  includeArchived: z.boolean().optional().default(false).describe('Also list archived threads (requires channel)'),
+  archivedLimit: z.number().int().min(1).max(100).default(50).describe('Maximum number of archived threads to list (default 50, max 100)'),
+});
+
+const CreateThreadSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+  channel: z.string().describe('Text or announcement channel name or ID'),
+  name: z.string().min(1).max(100).describe('Thread name'),
+  messageId: z.string().optional().describe('ID of the message to start the thread from (optional, creates a standalone thread if omitted)'),
+  autoArchiveMinutes: autoArchiveMinutes.optional(),
+  private: z.boolean().optional().default(false).describe('Create a private thread (standalone threads in text channels only)'),
+});
+
+const CreateForumPostSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+  forum: z.string().describe('Forum channel name or ID'),
+  title: z.string().min(1).max(100).describe('Post title'),
+  message: z.string().min(1).max(2000).describe('Content of the opening message'),
+  tags: z.array(z.string()).max(5).optional().describe('Names or IDs of forum tags to apply (max 5)'),
+  autoArchiveMinutes: autoArchiveMinutes.optional(),
+});
+
+const ArchiveThreadSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+  thread: z.string().describe('Thread name (active threads only) or ID'),
+  archived: z.boolean().optional().default(true).describe('Archive (true) or unarchive (false) the thread'),
+  locked: z.boolean().optional().describe('Lock (true) or unlock (false) the thread so only moderators can unarchive it'),
+});
+// --- End Thread Schemas ---
+
+// --- Permission Overwrite Schemas ---
+const ListPermissionOverwritesSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+  channel: z.string().describe('Channel or category name or ID'),
+});
+
+const SetPermissionOverwriteSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+  channel: z.string().describe('Channel or category name or ID'),
+  role: z.string().optional().describe('Role name or ID the overwrite applies to'),
+  user: z.string().optional().describe('User the overwrite applies to (name#discriminator, user ID, or mention)'),
+  allow: z.array(z.string()).optional().default([]).describe('Permission names to explicitly allow'),
+  deny: z.array(z.string()).optional().default([]).describe('Permission names to explicitly deny'),
+  inherit: z.array(z.string()).optional().default([]).describe('Permission names to reset so they are inherited from roles'),
+}).refine(
+  data => Boolean(data.role) !== Boolean(data.user),
+  { message: 'Specify exactly one of role or user', path: ['role'] }
+).refine(
+  data => data.allow.length + data.deny.length + data.inherit.length > 0,
+  { message: 'At least one of allow, deny or inherit is required', path: ['allow'] }
+);
+
+const RemovePermissionOverwriteSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+  channel: z.string().describe('Channel or category name or ID'),
+  role: z.string().optional().describe('Role name or ID whose overwrite should be removed'),
+  user: z.string().optional().describe('User whose overwrite should be removed (name#discriminator, user ID, or mention)'),
+}).refine(
+  data => Boolean(data.role) !== Boolean(data.user),
+  { message: 'Specify exactly one of role or user', path: ['role'] }
+);
+
+const ExplainPermissionsSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+  user: z.string().describe('User name#discriminator, user ID, or user mention'),
+  channel: z.string().describe('Channel, thread or category name or ID'),
+  permissions: z.array(z.string()).optional().describe('Only explain these permissions (defaults to all)'),
+});
+// --- End Permission Overwrite Schemas ---
+
+// --- Event Inbox Schemas ---
+const EVENT_TYPES = ['messageCreate', 'messageUpdate', 'messageDelete', 'guildMemberAdd', 'guildMemberRemove', 'messageReactionAdd', 'messageReactionRemove'] as const;
+
+const PollEventsSchema = z.object({
+  server: z.string().optional().describe('Only return events from this server (name or ID)'),
+  channel: z.string().optional().describe('Only return events from this channel (name or ID)'),
+  types: z.array(z.enum(EVENT_TYPES)).optional().describe('Only return these event types (defaults to all)'),
+  cursor: z.number().int().min(0).optional().default(0).describe('Return events after this cursor (use nextCursor from the previous call)'),
+  limit: z.number().int().min(1).max(100).default(50).describe('Maximum number of events to return (default 50, max 100)'),
+});
+
+const WaitForMessageSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+  channel: z.string().optional().describe('Only match messages in this channel (name or ID)'),
+  author: z.string().optional().describe('Only match messages by this user (name#discriminator, user ID, or mention)'),
+  pattern: z.string().max(200).optional().describe('Only match messages whose content matches this regular expression (case-insensitive, max 200 characters)'),
+  timeoutSeconds: z.number().int().min(1).max(300).default(50).describe('Seconds to wait before giving up (default 50, max 300)'),
+  cursor: z.number().int().min(0).optional().describe('Also match buffered messages received after this cursor, so nothing is missed between calls'),
+  includeBots: z.boolean().optional().default(false).describe('Also match messages sent by bots (including this one)'),
+});
+// --- End Event Inbox Schemas ---
+
+// --- Audit Log Schemas ---
+const AUDIT_LOG_ACTION_TYPES = Object.keys(AuditLogEvent).filter(key => isNaN(Number(key)));
+
+const GetAuditLogSchema = z.object({
+  tool: z.string().optional().describe('Only return calls to this tool'),
+  outcome: z.enum(['success', 'error', 'preview']).optional().describe('Only return calls with this outcome'),
+  server: z.string().optional().describe('Only return calls that touched this server (name or ID)'),
+  user: z.string().optional().describe('Only return calls that touched this user ID'),
+  since: isoTimestamp.optional().describe('Only return calls at or after this ISO 8601 timestamp'),
+  until: isoTimestamp.optional().describe('Only return calls at or before this ISO 8601 timestamp'),
+  limit: z.number().int().min(1).max(500).default(50).describe('Maximum number of entries to return, newest first (default 50, max 500)'),
+});
+
+const ReadDiscordAuditLogSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+  actionType: z.string().refine(value => AUDIT_LOG_ACTION_TYPES.includes(value), {
+    message: `Must be one of: ${AUDIT_LOG_ACTION_TYPES.join(', ')}`,
+  }).optional().describe('Only return entries of this action type (e.g., "MemberKick", "RoleDelete")'),
+  user: z.string().optional().describe('Only return actions performed by this user (name#discriminator, user ID, or mention)'),
+  since: isoTimestamp.optional().describe('Only return entries at or after this ISO 8601 timestamp'),
+  until: isoTimestamp.optional().describe('Only return entries at or before this ISO 8601 timestamp'),
+  limit: z.number().int().min(1).max(500).default(50).describe('Maximum number of entries to return, newest first (default 50, max 500)'),
+});
+// --- End Audit Log Schemas ---
+
+// --- Bulk Role Schemas ---
+const BulkRoleMemberFilterSchema = z.object({
+  hasRole: z.string().optional().describe('Only members who have this role (name or ID)'),
+  lacksRole: z.string().optional().describe('Only members who do not have this role (name or ID)'),
+  joinedBefore: isoTimestamp.optional().describe('Only members who joined before this ISO 8601 timestamp'),
+  joinedAfter: isoTimestamp.optional().describe('Only members who joined after this ISO 8601 timestamp'),
+  bots: z.boolean().optional().describe('true to match only bots, false to match only humans'),
+  namePattern: z.string().max(200).optional().describe('Regular expression matched case-insensitively against username, display name and nickname (max 200 characters)'),
+}).refine(filter => Object.values(filter).some(value => value !== undefined), {
+  message: 'The filter must set at least one criterion',
+});
+
+const BulkRoleSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+  role: z.string().describe('Role name or ID to assign or remove'),
+  users: z.array(z.string()).min(1).max(1000).optional().describe('Explicit list of users (name#discriminator, user ID, or mention)'),
+  filter: BulkRoleMemberFilterSchema.optional().describe('Select members by criteria instead of listing them'),
+  reason: z.string().max(512).optional().describe('Reason recorded in the server audit log'),
+}).refine(input => (input.users === undefined) !== (input.filter === undefined), {
+  message: 'Provide either "users" or "filter", but not both',
+});
+// --- End Bulk Role Schemas ---
+
+// --- Member Directory Schemas ---
+const ListMembersSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+  role: z.string().optional().describe('Only members who have this role (name or ID)'),
+  joinedBefore: isoTimestamp.optional().describe('Only members who joined before this ISO 8601 timestamp'),
+  joinedAfter: isoTimestamp.optional().describe('Only members who joined after this ISO 8601 timestamp'),
+  bots: z.boolean().optional().describe('true to list only bots, false to list only humans'),
+  pending: z.boolean().optional().describe('true to list only members who have not passed membership screening, false for only those who have'),
+  limit: z.number().int().min(1).max(1000).default(100).describe('Maximum number of members to return (default 100, max 1000)'),
+  cursor: z.string().regex(/^\d{17,20}$/).optional().describe('Continue after this cursor (the nextCursor of a previous call)'),
+});
+
+const SearchMembersSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+  query: z.string().min(1).describe('Username or nickname prefix to search for'),
+  limit: z.number().int().min(1).max(1000).default(25).describe('Maximum number of members to return (default 25, max 1000)'),
+});
+
+const GetMemberInfoSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+  user: z.string().describe('User name#discriminator, user ID, or user mention'),
+});
+// --- End Member Directory Schemas ---
+
+// --- Activity Stats Schemas ---
+const GetActivityStatsSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+  channels: z.array(z.string()).optional().describe('Channels to analyze (defaults to every text and announcement channel)'),
+  since: isoTimestamp.optional().describe('Start of the window as an ISO 8601 timestamp (defaults to 7 days before until)'),
+  until: isoTimestamp.optional().describe('End of the window as an ISO 8601 timestamp (defaults to now)'),
+  timeZone: ianaTimeZone.optional().default('UTC').describe('IANA time zone used to bucket days and hours (default UTC)'),
+  includeBots: z.boolean().optional().default(false).describe('Count messages sent by bots'),
+  topPosters: z.number().int().min(1).max(100).default(10).describe('Number of top posters to return (default 10)'),
+  deadChannelDays: z.number().int().min(1).max(365).default(30).describe('Report channels with no messages in this many days (default 30)'),
+  maxMessagesPerChannel: z.number().int().min(1).max(10000).default(5000).describe('Stop scanning a channel after this many messages (default 5000)'),
+  timeBudgetSeconds: timeBudget.optional(),
+}).refine(input => {
+  // perDay gets an entry for every day of the window, so the window has to stay bounded
+  const untilMs = input.until ? Date.parse(input.until) : Date.now();
+  return input.since === undefined || untilMs - Date.parse(input.since) <= 366 * 24 * 60 * 60 * 1000;
+}, {
+  message: 'The window from "since" to "until" can be at most 366 days',
+});
+// --- End Activity Stats Schemas ---
+
+// --- Scheduled Message Schemas ---
+const ScheduleMessageSchema = SendMessageFieldsSchema.extend({
+  at: isoTimestamp.refine(value => /(Z|[+-]\d{2}:?\d{2})$/i.test(value), {
+    message: 'Must include a time zone offset or "Z"',
+  }).optional().describe('Send once at this ISO 8601 timestamp (e.g., "2024-05-01T09:30:00+02:00")'),
+  cron: z.string().optional().describe('Send repeatedly on this cron schedule (e.g., "30 9 * * 1-5" for weekdays at 9:30)'),
+  timeZone: ianaTimeZone.optional().default('UTC').describe('IANA time zone the cron schedule is evaluated in (default UTC)'),
+  catchUp: z.enum(['run-once', 'skip']).optional().default('run-once').describe('What to do with runs missed while the server was offline'),
+}).refine(input => (input.at === undefined) !== (input.cron === undefined), {
+  message: 'Provide either "at" or "cron", but not both',
+});
+
+const ListScheduledMessagesSchema = z.object({
+  server: z.string().optional().describe('Only list schedules in this server (name or ID)'),
+  channel: z.string().optional().describe('Only list schedules for this channel (name or ID)'),
+  includeFinished: z.boolean().optional().default(false).describe('Also list one-shot schedules that were sent, failed or missed'),
+});
+
+const CancelScheduledMessageSchema = z.object({
+  id: z.string().describe('ID of the scheduled message to cancel'),
+});
+// --- End Scheduled Message Schemas ---
+
+// --- Reaction and Poll Schemas ---
+const ReactionSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+  channel: z.string().describe('Channel name (e.g., "general") or ID'),
+  messageId: z.string().describe('ID of the message'),
+  emoji: z.string().describe('Unicode emoji (e.g., "👍") or custom server emoji by name (e.g., "partyparrot"), name:id or mention'),
+});
+
+const RemoveReactionSchema = ReactionSchema.extend({
+  user: z.string().optional().describe("Remove this user's reaction instead of the bot's own (requires Manage Messages)"),
+});
+
+const ListReactionsSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+  channel: z.string().describe('Channel name (e.g., "general") or ID'),
+  messageId: z.string().describe('ID of the message'),
+  emoji: z.string().optional().describe('Only list this emoji'),
+  usersLimit: z.number().int().min(0).max(1000).default(100).describe('Maximum number of users to list per emoji (default 100, max 1000, 0 for counts only)'),
+});
+
+const CreatePollSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+  channel: z.string().describe('Channel name (e.g., "general") or ID'),
+  question: z.string().min(1).max(300).describe('The poll question'),
+  answers: z.array(z.object({
+    text: z.string().min(1).max(55).describe('Answer text'),
+    emoji: z.string().optional().describe('Optional unicode or custom server emoji shown with the answer'),
+  })).min(1).max(10).describe('Between 1 and 10 answers'),
+  durationHours: z.number().int().min(1).max(768).default(24).describe('How long the poll stays open, in hours (default 24, max 768)'),
+  allowMultiselect: z.boolean().optional().default(false).describe('Whether voters may pick more than one answer'),
+});
+
+const GetPollResultsSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+  channel: z.string().describe('Channel name (e.g., "general") or ID'),
+  messageId: z.string().describe('ID of the message containing the poll'),
+  includeVoters: z.boolean().optional().default(false).describe('Also list who voted for each answer'),
+});
+// --- End Reaction and Poll Schemas ---
+
+// --- AutoMod Schemas ---
+const AUTOMOD_PRESET_NAMES = ['profanity', 'sexual-content', 'slurs'] as const;
+
+const AutoModKeywordsSchema = z.array(z.string().min(1).max(60)).max(1000).describe('Words or phrases to match; * matches any characters at the start or end');
+const AutoModRegexPatternsSchema = z.array(z.string().min(1).max(260)).max(10).describe('Rust-flavored regular expressions to match (max 10)');
+const AutoModAllowListSchema = z.array(z.string().min(1).max(60)).max(1000).describe('Words or phrases that never trigger the rule');
+
+const AutoModTriggerSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('keyword'),
+    keywords: AutoModKeywordsSchema.optional(),
+    regexPatterns: AutoModRegexPatternsSchema.optional(),
+    allowList: AutoModAllowListSchema.max(100).optional(),
+  }),
+  z.object({
+    type: z.literal('keyword-preset'),
+    presets: z.array(z.enum(AUTOMOD_PRESET_NAMES)).min(1).describe('Discord-maintained word lists'),
+    allowList: AutoModAllowListSchema.optional(),
+  }),
+  z.object({
+    type: z.literal('spam'),
+  }),
+  z.object({
+    type: z.literal('mention-spam'),
+    mentionLimit: z.number().int().min(1).max(50).describe('Maximum unique role and user mentions per message'),
+    mentionRaidProtection: z.boolean().optional().describe('Also detect mention raids automatically'),
+  }),
+]);
+
+const AutoModTriggerUpdateSchema = z.object({
+  keywords: AutoModKeywordsSchema.optional(),
+  regexPatterns: AutoModRegexPatternsSchema.optional(),
+  allowList: AutoModAllowListSchema.optional(),
+  presets: z.array(z.enum(AUTOMOD_PRESET_NAMES)).min(1).optional(),
+  mentionLimit: z.number().int().min(1).max(50).optional(),
+  mentionRaidProtection: z.boolean().optional(),
+});
+
+const AutoModActionsSchema = z.object({
+  block: z.boolean().optional().describe('Block the message'),
+  blockMessage: z.string().max(150).optional().describe('Explanation shown to the member when their message is blocked (implies block)'),
+  alertChannel: z.string().optional().describe('Channel to post an alert to (name or ID)'),
+  timeoutSeconds: z.number().int().min(1).max(2419200).optional().describe('Time the member out for this many seconds (keyword and mention-spam rules only, max 28 days)'),
+}).refine(actions => actions.block || actions.blockMessage !== undefined || actions.alertChannel || actions.timeoutSeconds, {
+  message: 'At least one action (block, blockMessage, alertChannel or timeoutSeconds) is required',
+});
+
+const ListAutoModRulesSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+});
+
+const CreateAutoModRuleSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+  name: z.string().min(1).max(100).describe('Name of the rule'),
+  trigger: AutoModTriggerSchema.describe('What the rule matches'),
+  actions: AutoModActionsSchema.describe('What happens when the rule matches'),
+  exemptRoles: z.array(z.string()).max(20).optional().describe('Roles the rule does not apply to (names or IDs)'),
+  exemptChannels: z.array(z.string()).max(50).optional().describe('Channels or categories the rule does not apply to (names or IDs)'),
+  enabled: z.boolean().optional().default(true).describe('Whether the rule is active'),
+  reason: z.string().max(512).optional().describe('Reason recorded in the server audit log'),
+}).refine(input => input.trigger.type !== 'keyword' || Boolean(input.trigger.keywords?.length || input.trigger.regexPatterns?.length), {
+  message: 'Keyword rules need at least one keyword or regex pattern',
+  path: ['trigger'],
+}).refine(input => input.actions.timeoutSeconds === undefined || input.trigger.type === 'keyword' || input.trigger.type === 'mention-spam', {
+  message: 'Timeouts are only supported for keyword and mention-spam rules',
+  path: ['actions', 'timeoutSeconds'],
+});
+
+const UpdateAutoModRuleSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+  rule: z.string().describe('Rule name or ID'),
+  name: z.string().min(1).max(100).optional().describe('New name for the rule'),
+  trigger: AutoModTriggerUpdateSchema.optional().describe("Trigger settings to change; the trigger type itself cannot change"),
+  actions: AutoModActionsSchema.optional().describe('Replacement actions'),
+  exemptRoles: z.array(z.string()).max(20).optional().describe('Replacement list of exempt roles (names or IDs)'),
+  exemptChannels: z.array(z.string()).max(50).optional().describe('Replacement list of exempt channels or categories (names or IDs)'),
+  reason: z.string().max(512).optional().describe('Reason recorded in the server audit log'),
+});
+
+const SetAutoModRuleEnabledSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+  rule: z.string().describe('Rule name or ID'),
+  enabled: z.boolean().describe('true to enable the rule, false to disable it'),
+  reason: z.string().max(512).optional().describe('Reason recorded in the server audit log'),
+});
+
+const DeleteAutoModRuleSchema = z.object({
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+  rule: z.string().describe('Rule name or ID'),
+  reason: z.string().max(512).optional().describe('Reason recorded in the server audit log'),
+});
+// --- End AutoMod Schemas ---
+
+// Validation schema for every tool, used to record validated arguments in the audit trail
+const TOOL_SCHEMAS: Record<string, z.ZodTypeAny> = {
+  "send-message": SendMessageSchema,
+  "read-messages": ReadMessagesSchema,
+  "list-channels": ListChannelsSchema,
+  "list-servers": ListServersSchema,
+  "create-channel": CreateChannelSchema,
+  "update-channel": UpdateChannelSchema,
+  "delete-channel": DeleteChannelSchema,
+  "move-channel": MoveChannelSchema,
+  "clone-channel": CloneChannelSchema,
+  "read-multiple-channels": ReadMultipleChannelsSchema,
+  "list-roles": ListRolesSchema,
+  "assign-role": AssignRoleSchema,
+  "remove-role": RemoveRoleSchema,
+  "create-role": CreateRoleSchema,
+  "delete-role": DeleteRoleSchema,
+  "update-role": UpdateRoleSchema,
+  "check-role-manageability": CheckRoleManageabilitySchema,
+  "get-member-count": GetMemberCountSchema,
+  "get-role-member-count": GetRoleMemberCountSchema,
+  "kick-member": KickMemberSchema,
+  "ban-member": BanMemberSchema,
+  "unban-user": UnbanUserSchema,
+  "timeout-member": TimeoutMemberSchema,
+  "remove-timeout": RemoveTimeoutSchema,
+  "list-bans": ListBansSchema,
+  "edit-message": EditMessageSchema,
+  "delete-message": DeleteMessageSchema,
+  "pin-message": PinMessageSchema,
+  "unpin-message": PinMessageSchema,
+  "list-pinned-messages": ListPinnedMessagesSchema,
+  "bulk-delete-messages": BulkDeleteMessagesSchema,
+  "search-messages": SearchMessagesSchema,
+  "list-threads": ListThreadsSchema,
+  "create-thread": CreateThreadSchema,
+  "create-forum-post": CreateForumPostSchema,
+  "archive-thread": ArchiveThreadSchema,
+  "list-permission-overwrites": ListPermissionOverwritesSchema,
+  "set-permission-overwrite": SetPermissionOverwriteSchema,
+  "remove-permission-overwrite": RemovePermissionOverwriteSchema,
+  "explain-permissions": ExplainPermissionsSchema,
+  "poll-events": PollEventsSchema,
+  "wait-for-message": WaitForMessageSchema,
+  "get-audit-log": GetAuditLogSchema,
+  "read-discord-audit-log": ReadDiscordAuditLogSchema,
+  "bulk-assign-role": BulkRoleSchema,
+  "bulk-remove-role": BulkRoleSchema,
+  "list-members": ListMembersSchema,
+  "search-members": SearchMembersSchema,
+  "get-member-info": GetMemberInfoSchema,
+  "get-activity-stats": GetActivityStatsSchema,
+  "schedule-message": ScheduleMessageSchema,
+  "list-scheduled-messages": ListScheduledMessagesSchema,
+  "cancel-scheduled-message": CancelScheduledMessageSchema,
+  "add-reaction": ReactionSchema,
+  "remove-reaction": RemoveReactionSchema,
+  "list-reactions": ListReactionsSchema,
+  "create-poll": CreatePollSchema,
+  "get-poll-results": GetPollResultsSchema,
+  "list-automod-rules": ListAutoModRulesSchema,
+  "create-automod-rule": CreateAutoModRuleSchema,
+  "update-automod-rule": UpdateAutoModRuleSchema,
+  "set-automod-rule-enabled": SetAutoModRuleEnabledSchema,
+  "delete-automod-rule": DeleteAutoModRuleSchema,
+};
+
+// --- Tool Output Schemas ---
+// Shape of each tool's structuredContent, advertised to clients as its outputSchema
+const MessageRefOutput = z.object({
+  messageId: z.string(),
+  channelId: z.string(),
+  channel: z.string(),
+  server: z.string(),
+});
+
+const MessageOutput = z.object({
+  id: z.string(),
+  channel: z.string(),
+  server: z.string(),
+  author: z.string(),
+  content: z.string(),
+  timestamp: z.string(),
+});
+
+const MessageSummaryOutput = z.object({
+  id: z.string(),
+  author: z.string(),
+  content: z.string(),
+  timestamp: z.string(),
+});
+
+const MemberSummaryOutput = z.object({
+  id: z.string(),
+  user: z.string(),
+  nickname: z.string().nullable(),
+  bot: z.boolean(),
+  roles: z.array(z.string()),
+  joinedAt: z.string().nullable(),
+});
+
+const UserRefOutput = z.object({ id: z.string(), user: z.string() });
+
+const ChannelDescriptionOutput = z.object({
+  id: z.string(),
+  name: z.string(),
+  type: z.string(),
+  position: z.number(),
+});
+
+const RoleChangeOutput = z.object({
+  roleId: z.string(),
+  role: z.string(),
+  server: z.string(),
+});
+
+const ModerationOutput = z.object({
+  userId: z.string(),
+  user: z.string().nullable(),
+  server: z.string(),
+  reason: z.string().optional(),
+});
+
+const OverwriteTargetOutput = z.object({
+  channelId: z.string(),
+  channel: z.string(),
+  targetId: z.string(),
+  targetType: z.enum(['role', 'member']),
+});
+
+const AuditEntryOutput = z.object({
+  timestamp: z.string(),
+  tool: z.string(),
+  arguments: z.unknown(),
+  resolved: z.object({ guildIds: z.array(z.string()), channelIds: z.array(z.string()), userIds: z.array(z.string()), bots: z.array(z.string()).optional() }),
+  outcome: z.enum(['success', 'error', 'preview']),
+  error: z.string().optional(),
+  durationMs: z.number(),
+});
+
+const BulkRoleOutput = z.object({
+  role: z.object({ id: z.string(), name: z.string() }),
+  action: z.enum(['assign', 'remove']),
+  summary: z.object({ changed: z.number(), skipped: z.number(), failed: z.number() }),
+  rateLimitWaits: z.number(),
+  rateLimitWaitMs: z.number(),
+  outcomes: z.array(z.object({
+    userId: z.string().nullable(),
+    user: z.string(),
+    outcome: z.enum(['changed', 'skipped-already-had', 'skipped-did-not-have', 'failed']),
+    error: z.string().optional(),
+  })),
+});
+
+const ScheduledMessageOutput = z.object({
+  id: z.string(),
+  channel: z.string(),
+  message: z.string().nullable(),
+  at: z.string().nullable(),
+  cron: z.string().nullable(),
+  timeZone: z.string(),
+  catchUp: z.enum(['run-once', 'skip']),
+  status: z.enum(['scheduled', 'sent', 'failed', 'missed']),
+  nextRunAt: z.string().nullable(),
+  upcomingRuns: z.array(z.string()).optional(),
+  lastRunAt: z.string().nullable(),
+  lastError: z.string().nullable(),
+  runCount: z.number(),
+});
+
+const ReactionRefOutput = z.object({
+  messageId: z.string(),
+  emoji: z.string(),
+  channelId: z.string(),
+  channel: z.string(),
+});
+
+const AutoModRuleOutput = z.object({
+  id: z.string(),
+  name: z.string(),
+  enabled: z.boolean(),
+  trigger: z.object({
+    type: z.string(),
+    keywords: z.array(z.string()).optional(),
+    regexPatterns: z.array(z.string()).optional(),
+    presets: z.array(z.string()).optional(),
+    allowList: z.array(z.string()).optional(),
+    mentionLimit: z.number().optional(),
+    mentionRaidProtection: z.boolean().optional(),
+  }),
+  actions: z.array(z.object({
+    type: z.string(),
+    customMessage: z.string().optional(),
+    alertChannel: z.string().optional(),
+    timeoutSeconds: z.number().optional(),
+  })),
+  exemptRoles: z.array(z.string()),
+  exemptChannels: z.array(z.string()),
+  creatorId: z.string(),
+});
+
+const AutoModRuleRefOutput = z.object({
+  ruleId: z.string(),
+  rule: z.string(),
+  server: z.string(),
+});
+
+// What a confirmable tool returns instead of its own output while a confirmation is pending
+const ConfirmationOutput = z.object({
+  status: z.enum(['dry_run', 'confirmation_required']),
+  tool: z.string(),
+  preview: z.unknown(),
+  confirmationToken: z.string(),
+  expiresAt: z.string(),
+});
+
+// Failed calls return this as their structuredContent, next to isError: true
+const ToolErrorOutput = z.object({
+  error: z.object({ code: z.enum(TOOL_ERROR_CODES), message: z.string() }),
+});
+
+const TOOL_OUTPUT_SCHEMAS: Record<string, z.ZodTypeAny> = {
+  "send-message": MessageRefOutput,
+  "read-messages": z.object({
+    messages: z.array(MessageOutput),
+    // Pass back as the before or after argument to continue in the same direction
+    nextCursor: z.union([z.object({ before: z.string() }), z.object({ after: z.string() })]).nullable(),
+  }),
+  "list-channels": z.object({
+    server: z.string(),
+    // tree: true groups channels by category; otherwise text-based channels are listed flat
+    tree: z.array(z.object({ category: ChannelDescriptionOutput.nullable(), channels: z.array(ChannelDescriptionOutput) })).optional(),
+    channels: z.array(z.object({ id: z.string(), name: z.string(), type: z.string(), parent: z.string().nullable().optional() })).optional(),
+  }),
+  "list-servers": z.object({ servers: z.array(z.object({ id: z.string(), name: z.string(), bots: z.array(z.string()) })) }),
+  "create-channel": z.object({ channelId: z.string(), channel: z.string(), type: z.string(), category: z.string().nullable(), server: z.string() }),
+  "update-channel": z.object({ channelId: z.string(), channel: z.string(), type: z.string(), server: z.string() }),
+  "delete-channel": z.object({ channelId: z.string(), channel: z.string(), type: z.string(), server: z.string(), channelsLeftWithoutCategory: z.array(z.string()) }),
+  "move-channel": z.object({ channelId: z.string(), channel: z.string(), category: z.string().nullable(), position: z.number(), server: z.string() }),
+  "clone-channel": z.object({ sourceChannelId: z.string(), channelId: z.string(), channel: z.string(), type: z.string(), server: z.string() }),
+  "read-multiple-channels": z.object({
+    server: z.string(),
+    channelCount: z.number(),
+    // Channels that could not be read appear as an entry with an error instead of a message
+    messages: z.array(z.object({
+      channel: z.string(),
+      server: z.string(),
+      author: z.string().optional(),
+      content: z.string().optional(),
+      timestamp: z.string().optional(),
+      error: z.string().optional(),
+    })),
+    // True when the time budget ran out before every channel was read; skippedChannels lists the rest
+    incomplete: z.boolean(),
+    skippedChannels: z.array(z.string()),
+  }),
+  "list-roles": z.object({
+    server: z.string(),
+    roles: z.array(z.object({
+      id: z.string(),
+      name: z.string(),
+      color: z.string(),
+      position: z.number(),
+      permissions: z.array(z.string()),
+      mentionable: z.boolean(),
+    })),
+  }),
+  "assign-role": RoleChangeOutput.extend({ userId: z.string(), user: z.string() }),
+  "remove-role": RoleChangeOutput.extend({ userId: z.string(), user: z.string() }),
+  "create-role": RoleChangeOutput,
+  "delete-role": RoleChangeOutput,
+  "update-role": RoleChangeOutput,
+  "check-role-manageability": z.object({
+    role: z.object({
+      id: z.string(),
+      name: z.string(),
+      position: z.number(),
+      isEveryone: z.boolean(),
+      managed: z.boolean(),
+      managedBy: z.string().nullable(),
+    }),
+    bot: z.object({ highestRole: z.string(), highestRolePosition: z.number(), hasManageRoles: z.boolean() }),
+    actions: z.record(z.object({ allowed: z.boolean(), problems: z.array(z.string()) })),
+  }),
+  "get-member-count": z.object({
+    server: z.string(),
+    memberCount: z.number(),
+    approximateMemberCount: z.number().nullable(),
+    approximatePresenceCount: z.number().nullable(),
+  }),
+  "get-role-member-count": z.object({
+    server: z.string(),
+    role: z.string(),
+    memberCount: z.number(),
+    members: z.array(MemberSummaryOutput).optional(),
+    // True when the member list was still loading when the time budget ran out, so memberCount is a lower bound
+    incomplete: z.boolean(),
+  }),
+  "kick-member": ModerationOutput,
+  "ban-member": ModerationOutput.extend({ deleteMessageDays: z.number(), wasMember: z.boolean() }),
+  "unban-user": ModerationOutput,
+  "timeout-member": ModerationOutput.extend({ durationMinutes: z.number(), until: z.string().nullable() }),
+  "remove-timeout": ModerationOutput,
+  "list-bans": z.object({
+    server: z.string(),
+    bans: z.array(z.object({ id: z.string(), user: z.string(), reason: z.string().nullable() })),
+  }),
+  "edit-message": MessageRefOutput,
+  "delete-message": MessageRefOutput.extend({ author: z.string() }),
+  "pin-message": MessageRefOutput.extend({ pinned: z.boolean() }),
+  "unpin-message": MessageRefOutput.extend({ pinned: z.boolean() }),
+  "list-pinned-messages": z.object({ messages: z.array(MessageOutput) }),
+  "bulk-delete-messages": z.object({
+    channel: z.string(),
+    server: z.string(),
+    scanned: z.number(),
+    matched: z.number(),
+    bulkDeleted: z.number(),
+    individuallyDeleted: z.number(),
+    failed: z.array(z.string()),
+  }),
+  "search-messages": z.object({
+    server: z.string(),
+    channelsSearched: z.number(),
+    scanned: z.number(),
+    totalMatches: z.number(),
+    incomplete: z.boolean(),
+    skippedChannels: z.array(z.string()),
+    matches: z.array(MessageSummaryOutput.extend({
+      channel: z.string(),
+      url: z.string(),
+      context: z.object({ before: z.array(MessageSummaryOutput), after: z.array(MessageSummaryOutput) }),
+    })),
+    errors: z.array(z.object({ channel: z.string(), error: z.string() })),
+  }),
+  "list-threads": z.object({
+    threads: z.array(z.object({
+      id: z.string(),
+      name: z.string(),
+      type: z.string(),
+      parent: z.string().nullable(),
+      archived: z.boolean().nullable(),
+      locked: z.boolean().nullable(),
+      messageCount: z.number().nullable(),
+      memberCount: z.number().nullable(),
+      createdAt: z.string().nullable(),
+      tags: z.array(z.string()).optional(),
+    })),
+  }),
+  "create-thread": z.object({ threadId: z.string(), thread: z.string(), type: z.string(), parentId: z.string(), parent: z.string(), server: z.string() }),
+  "create-forum-post": z.object({ threadId: z.string(), thread: z.string(), appliedTags: z.array(z.string()), forumId: z.string(), forum: z.string(), server: z.string() }),
+  "archive-thread": z.object({ threadId: z.string(), thread: z.string(), archived: z.boolean(), locked: z.boolean() }),
+  "list-permission-overwrites": z.object({
+    channelId: z.string(),
+    channel: z.string(),
+    server: z.string(),
+    syncedWithCategory: z.boolean(),
+    overwrites: z.array(z.object({
+      id: z.string(),
+      type: z.enum(['role', 'member']),
+      target: z.string().nullable(),
+      allow: z.array(z.string()),
+      deny: z.array(z.string()),
+    })),
+  }),
+  "set-permission-overwrite": OverwriteTargetOutput.extend({ allow: z.array(z.string()), deny: z.array(z.string()) }),
+  "remove-permission-overwrite": OverwriteTargetOutput.extend({ server: z.string() }),
+  "explain-permissions": z.object({
+    member: z.string(),
+    channel: z.string(),
+    permissionsFrom: z.string().optional(),
+    allowed: z.array(z.string()),
+    denied: z.array(z.string()),
+    details: z.array(z.object({ permission: z.string(), allowed: z.boolean(), reason: z.string() })),
+  }),
+  "poll-events": z.object({
+    events: z.array(z.object({
+      cursor: z.number(),
+      type: z.enum(EVENT_TYPES),
+      timestamp: z.string(),
+      guildId: z.string(),
+      channelId: z.string().nullable(),
+      data: z.record(z.unknown()),
+    })),
+    nextCursor: z.number(),
+    hasMore: z.boolean(),
+    missedEvents: z.boolean(),
+  }),
+  "wait-for-message": z.object({ message: z.record(z.unknown()).nullable(), cursor: z.number() }),
+  "get-audit-log": z.object({ total: z.number(), entries: z.array(AuditEntryOutput) }),
+  "read-discord-audit-log": z.object({
+    server: z.string(),
+    entries: z.array(z.object({
+      id: z.string(),
+      action: z.string(),
+      executor: z.string().nullable(),
+      targetId: z.string().nullable(),
+      target: z.string().nullable(),
+      reason: z.string().nullable(),
+      changes: z.array(z.object({ key: z.string(), old: z.unknown(), new: z.unknown() })),
+      createdAt: z.string(),
+    })),
+  }),
+  "bulk-assign-role": BulkRoleOutput,
+  "bulk-remove-role": BulkRoleOutput,
+  "list-members": z.object({ members: z.array(MemberSummaryOutput), nextCursor: z.string().nullable() }),
+  "search-members": z.object({ members: z.array(MemberSummaryOutput) }),
+  "get-member-info": z.object({
+    id: z.string(),
+    user: z.string(),
+    displayName: z.string(),
+    nickname: z.string().nullable(),
+    bot: z.boolean(),
+    roles: z.array(z.object({ id: z.string(), name: z.string() })),
+    joinedAt: z.string().nullable(),
+    accountCreatedAt: z.string(),
+    boostingSince: z.string().nullable(),
+    pending: z.boolean(),
+    timedOut: z.boolean(),
+    timedOutUntil: z.string().nullable(),
+    avatarUrl: z.string(),
+  }),
+  "get-activity-stats": z.object({
+    window: z.object({ since: z.string(), until: z.string(), timeZone: z.string() }),
+    totals: z.object({ messages: z.number(), activeUsers: z.number(), channelsScanned: z.number() }),
+    perChannel: z.array(z.object({ channelId: z.string(), channel: z.string(), messages: z.number(), truncated: z.boolean() })),
+    perUser: z.array(z.object({ userId: z.string(), user: z.string(), messages: z.number() })),
+    perDay: z.array(z.object({ date: z.string(), messages: z.number() })),
+    busiestHours: z.array(z.object({ hour: z.number(), messages: z.number() })),
+    topPosters: z.array(z.object({ userId: z.string(), user: z.string(), messages: z.number() })),
+    members: z.object({ joined: z.number(), left: z.number(), leaversComplete: z.boolean(), eventDataSince: z.string() }),
+    deadChannels: z.array(z.object({
+      channelId: z.string(),
+      channel: z.string(),
+      lastMessageAt: z.string().nullable(),
+      daysSinceLastMessage: z.number().nullable(),
+    })),
+    // True when a channel could not be read (see errors), the time budget ran out before every channel was
+    // scanned (see skippedChannels) or before the member list loaded (members.joined is then a lower bound)
+    incomplete: z.boolean(),
+    skippedChannels: z.array(z.string()),
+    errors: z.array(z.object({ channel: z.string(), error: z.string() })),
+  }),
+  "schedule-message": ScheduledMessageOutput,
+  "list-scheduled-messages": z.object({ schedules: z.array(ScheduledMessageOutput) }),
+  "cancel-scheduled-message": z.object({ id: z.string(), cancelled: z.boolean() }),
+  "add-reaction": ReactionRefOutput,
+  "remove-reaction": ReactionRefOutput.extend({ userId: z.string() }),
+  "list-reactions": z.object({
+    messageId: z.string(),
+    reactions: z.array(z.object({
+      emoji: z.string(),
+      emojiId: z.string().nullable(),
+      count: z.number(),
+      includesBot: z.boolean(),
+      users: z.array(UserRefOutput),
+    })),
+  }),
+  "create-poll": MessageRefOutput.extend({ expiresAt: z.string().nullable() }),
+  "get-poll-results": z.object({
+    question: z.string(),
+    allowMultiselect: z.boolean(),
+    expiresAt: z.string(),
+    finalized: z.boolean(),
+    totalVotes: z.number(),
+    answers: z.array(z.object({
+      id: z.number(),
+      text: z.string().nullable(),
+      emoji: z.string().nullable(),
+      votes: z.number(),
+      voters: z.array(UserRefOutput).optional(),
+    })),
+  }),
+  "list-automod-rules": z.object({ server: z.string(), rules: z.array(AutoModRuleOutput) }),
+  "create-automod-rule": AutoModRuleOutput,
+  "update-automod-rule": AutoModRuleOutput,
+  "set-automod-rule-enabled": AutoModRuleRefOutput.extend({ enabled: z.boolean() }),
+  "delete-automod-rule": AutoModRuleRefOutput,
+};
+// --- End Tool Output Schemas ---
+
+// --- Bulk Role Helpers ---
+type BulkRoleOutcome = 'changed' | 'skipped-already-had' | 'skipped-did-not-have' | 'failed';
+
+interface BulkRolePlan {
+  role: RoleInfo;
+  pending: MemberInfo[];
+  skipped: { member: MemberInfo; outcome: BulkRoleOutcome }[];
+  unresolved: { user: string; error: string }[];
+}
+
+// Helper function to select the members a bulk role change applies to and sort out the ones it would skip.
+// A confirmed call passes the member IDs its preview listed, which replace the users list or filter.
+async function planBulkRoleChange(action: 'assign' | 'remove', args: unknown, targetIds?: string[]): Promise<BulkRolePlan> {
+  const { server: serverIdentifier, role: roleIdentifier, users, filter } = BulkRoleSchema.parse(args);
+  const guild = await findGuild(serverIdentifier);
+  const role = await findRole(roleIdentifier, guild.id);
+  await assertRoleManageable(role, action);
+
+  const members: MemberInfo[] = [];
+  const unresolved: BulkRolePlan['unresolved'] = [];
+  const selected = targetIds ?? users;
+  if (selected) {
+    for (const user of selected) {
+      try {
+        const member = await findMember(user, guild.id);
+        if (!members.some(m => m.id === member.id)) members.push(member);
+      } catch (error) {
+        unresolved.push({ user, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  } else if (filter) {
+    const hasRole = filter.hasRole ? await findRole(filter.hasRole, guild.id) : undefined;
+    const lacksRole = filter.lacksRole ? await findRole(filter.lacksRole, guild.id) : undefined;
+    const joinedBefore = filter.joinedBefore ? Date.parse(filter.joinedBefore) : undefined;
+    const joinedAfter = filter.joinedAfter ? Date.parse(filter.joinedAfter) : undefined;
+    const namePattern = filter.namePattern ? compileUserPattern(filter.namePattern) : undefined;
+
+    await loadAllMembers(guild, null);
+    for (const member of botFor(guild.id).members(guild.id)) {
+      const joined = member.joinedAt?.getTime() ?? null;
+      const names = [member.user.username, member.user.globalName, member.nickname].filter((n): n is string => Boolean(n));
+      if (hasRole && !hasRoleId(member, hasRole.id)) continue;
+      if (lacksRole && hasRoleId(member, lacksRole.id)) continue;
+      if (joinedBefore !== undefined && (joined === null || joined >= joinedBefore)) continue;
+      if (joinedAfter !== undefined && (joined === null || joined <= joinedAfter)) continue;
+      if (filter.bots !== undefined && member.user.bot !== filter.bots) continue;
+      if (namePattern && !names.some(name => namePattern!.test(name))) continue;
+      members.push(member);
+    }
+  }
+
+  const pending: MemberInfo[] = [];
+  const skipped: BulkRolePlan['skipped'] = [];
+  for (const member of members) {
+    const hasTargetRole = hasRoleId(member, role.id);
+    if (action === 'assign' && hasTargetRole) skipped.push({ member, outcome: 'skipped-already-had' });
+    else if (action === 'remove' && !hasTargetRole) skipped.push({ member, outcome: 'skipped-did-not-have' });
+    else pending.push(member);
+  }
+  return { role, pending, skipped, unresolved };
+}
+
+// Helper function to apply a bulk role change one member at a time. The backend queues requests per rate-limit
+// bucket, so sequential calls wait out rate limits instead of failing; the scheduler counts the waits.
+async function executeBulkRoleChange(action: 'assign' | 'remove', args: unknown, onProgress?: ProgressReporter, targetIds?: string[]) {
+  const { reason } = BulkRoleSchema.parse(args);
+  const { role, pending, skipped, unresolved } = await planBulkRoleChange(action, args, targetIds);
+
+  const outcomes: { userId: string | null; user: string; outcome: BulkRoleOutcome; error?: string }[] = [
+    ...unresolved.map(({ user, error }) => ({ userId: null, user, outcome: 'failed' as const, error })),
+    ...skipped.map(({ member, outcome }) => ({ userId: member.id, user: member.user.tag, outcome })),
+  ];
+
+  let done = 0;
+  const bot = botFor(role.guild.id);
+  const { rateLimitWaits, rateLimitWaitMs } = await scheduleRequests(bot, pending, async member => {
+    noteResolved('userIds', member);
+    try {
+      if (action === 'assign') await bot.addMemberRole(role.guild.id, member.id, role.id, reason ?? DEFAULT_AUDIT_REASON);
+      else await bot.removeMemberRole(role.guild.id, member.id, role.id, reason ?? DEFAULT_AUDIT_REASON);
+      outcomes.push({ userId: member.id, user: member.user.tag, outcome: 'changed' });
+    } catch (error) {
+      outcomes.push({ userId: member.id, user: member.user.tag, outcome: 'failed', error: error instanceof Error ? error.message : String(error) });
+    }
+    await onProgress?.(++done, pending.length);
+  }, { budgetMs: null, concurrency: 1 });
+
+  const count = (outcome: BulkRoleOutcome) => outcomes.filter(o => o.outcome === outcome).length;
+  return {
+    role: { id: role.id, name: role.name },
+    action,
+    summary: {
+      changed: count('changed'),
+      skipped: count('skipped-already-had') + count('skipped-did-not-have'),
+      failed: count('failed'),
+    },
+    rateLimitWaits,
+    rateLimitWaitMs,
+    outcomes,
+  };
+}
+
+type ProgressReporter = (progress: number, total: number) => Promise<void>;
+
+// Helper function to send MCP progress notifications to the requesting client, when it supplied a progress token
+function progressReporter(progressToken: string | number | undefined, extra: ServerRequestExtra): ProgressReporter | undefined {
+  if (progressToken === undefined) return undefined;
+  return async (progress, total) => {
+    try {
+      await extra.sendNotification({ method: "notifications/progress", params: { progressToken, progress, total } });
+    } catch (error) {
+      console.error('Error sending progress notification:', error);
+    }
+  };
+}
+// --- End Bulk Role Helpers ---
+
+// --- AutoMod Helpers ---
+const AUTOMOD_TRIGGER_TYPES = {
+  'keyword': AutoModerationRuleTriggerType.Keyword,
+  'keyword-preset': AutoModerationRuleTriggerType.KeywordPreset,
+  'spam': AutoModerationRuleTriggerType.Spam,
+  'mention-spam': AutoModerationRuleTriggerType.MentionSpam,
+} as const;
+
+const AUTOMOD_PRESETS: Record<typeof AUTOMOD_PRESET_NAMES[number], AutoModerationRuleKeywordPresetType> = {
+  'profanity': AutoModerationRuleKeywordPresetType.Profanity,
+  'sexual-content': AutoModerationRuleKeywordPresetType.SexualContent,
+  'slurs': AutoModerationRuleKeywordPresetType.Slurs,
+};
+
+async function assertCanManageAutoMod(guild: GuildInfo): Promise<void> {
+  const me = await botFor(guild.id).fetchMe(guild.id);
+  if (!hasPermission(memberPermissions(me), PermissionsBitField.Flags.ManageGuild)) {
+    throw new ToolError('MISSING_PERMISSIONS', `Cannot manage AutoMod rules: the bot is missing the "ManageGuild" permission in server "${guild.name}".`);
+  }
+}
+
+// Helper function to find an AutoMod rule by ID or name (case-insensitive)
+async function findAutoModRule(guild: GuildInfo, ruleIdentifier: string): Promise<AutoModRuleInfo> {
+  const rules = await botFor(guild.id).fetchAutoModRules(guild.id);
+  const rule = rules.find(r => r.id === ruleIdentifier) ?? rules.find(r => r.name.toLowerCase() === ruleIdentifier.toLowerCase());
+  if (!rule) {
+    throw new ToolError('NOT_FOUND', `AutoMod rule "${ruleIdentifier}" not found in server "${guild.name}". Available rules: ${rules.map(r => r.name).join(', ') || 'none'}`);
+  }
+  return rule;
+}
+
+// Helper function to convert trigger settings into Discord's trigger metadata, rejecting settings the trigger type does not support
+function buildAutoModTriggerMetadata(
+  triggerType: AutoModerationRuleTriggerType,
+  trigger: z.infer<typeof AutoModTriggerUpdateSchema>
+): Partial<AutoModTriggerMetadata> {
+  const supported: Record<number, (keyof typeof trigger)[]> = {
+    [AutoModerationRuleTriggerType.Keyword]: ['keywords', 'regexPatterns', 'allowList'],
+    [AutoModerationRuleTriggerType.KeywordPreset]: ['presets', 'allowList'],
+    [AutoModerationRuleTriggerType.Spam]: [],
+    [AutoModerationRuleTriggerType.MentionSpam]: ['mentionLimit', 'mentionRaidProtection'],
+  };
+  const allowed = supported[triggerType] ?? [];
+  const unsupported = (Object.keys(trigger) as (keyof typeof trigger)[]).filter(key => trigger[key] !== undefined && !allowed.includes(key));
+  if (unsupported.length > 0) {
+    throw new ToolError('INVALID_ARGUMENTS', `${AutoModerationRuleTriggerType[triggerType]} rules do not support: ${unsupported.join(', ')}. Supported settings: ${allowed.join(', ') || 'none'}.`);
+  }
+  if (triggerType === AutoModerationRuleTriggerType.Keyword && (trigger.allowList?.length ?? 0) > 100) {
+    throw new ToolError('INVALID_ARGUMENTS', 'Keyword rules allow at most 100 allow-list entries.');
+  }
+
+  const metadata: Partial<AutoModTriggerMetadata> = {
+    keywordFilter: trigger.keywords,
+    regexPatterns: trigger.regexPatterns,
+    allowList: trigger.allowList,
+    presets: trigger.presets?.map(preset => AUTOMOD_PRESETS[preset]),
+    mentionTotalLimit: trigger.mentionLimit,
+    mentionRaidProtectionEnabled: trigger.mentionRaidProtection,
+  };
+  // Only the given settings, so an update can be merged over the rule's current metadata
+  return Object.fromEntries(Object.entries(metadata).filter(([, value]) => value !== undefined));
+}
+
+async function buildAutoModActions(guild: GuildInfo, actions: z.infer<typeof AutoModActionsSchema>): Promise<AutoModActionInfo[]> {
+  const built: AutoModActionInfo[] = [];
+  if (actions.block || actions.blockMessage !== undefined) {
+    built.push({ type: AutoModerationActionType.BlockMessage, metadata: { customMessage: actions.blockMessage } });
+  }
+  if (actions.alertChannel) {
+    built.push({ type: AutoModerationActionType.SendAlertMessage, metadata: { channelId: (await findChannel(actions.alertChannel, guild.id)).id } });
+  }
+  if (actions.timeoutSeconds !== undefined) {
+    built.push({ type: AutoModerationActionType.Timeout, metadata: { durationSeconds: actions.timeoutSeconds } });
+  }
+  return built;
+}
+
+function formatAutoModRule(rule: AutoModRuleInfo) {
+  const metadata = rule.triggerMetadata;
+  const roles = botFor(rule.guildId).roles(rule.guildId);
+  const presetNames = Object.fromEntries(Object.entries(AUTOMOD_PRESETS).map(([name, value]) => [value, name]));
+  return {
+    id: rule.id,
+    name: rule.name,
+    enabled: rule.enabled,
+    trigger: {
+      type: Object.entries(AUTOMOD_TRIGGER_TYPES).find(([, value]) => value === rule.triggerType)?.[0] ?? AutoModerationRuleTriggerType[rule.triggerType],
+      keywords: metadata.keywordFilter.length ? metadata.keywordFilter : undefined,
+      regexPatterns: metadata.regexPatterns.length ? metadata.regexPatterns : undefined,
+      presets: metadata.presets.length ? metadata.presets.map(preset => presetNames[preset]) : undefined,
+      allowList: metadata.allowList.length ? metadata.allowList : undefined,
+      mentionLimit: metadata.mentionTotalLimit ?? undefined,
+      mentionRaidProtection: rule.triggerType === AutoModerationRuleTriggerType.MentionSpam ? metadata.mentionRaidProtectionEnabled : undefined,
+    },
+    actions: rule.actions.map(action => ({
+      type: AutoModerationActionType[action.type],
+      customMessage: action.metadata.customMessage ?? undefined,
+      alertChannel: action.metadata.channelId ? `#${cachedChannel(action.metadata.channelId)?.name ?? action.metadata.channelId}` : undefined,
+      timeoutSeconds: action.metadata.durationSeconds ?? undefined,
+    })),
+    exemptRoles: rule.exemptRoleIds.map(id => roles.find(role => role.id === id)?.name ?? id),
+    exemptChannels: rule.exemptChannelIds.map(id => `#${cachedChannel(id)?.name ?? id}`),
+    creatorId: rule.creatorId,
+  };
+}
+// --- End AutoMod Helpers ---
+
+// --- Confirmation ---
+// Destructive or high-impact tools can require a preview-then-confirm round trip. With
+// DISCORD_REQUIRE_CONFIRMATION=true (or dryRun: true on a call) the first call returns a preview of
+// exactly what would change plus a short-lived token; only a repeat call carrying that token executes.
+const REQUIRE_CONFIRMATION = process.env.DISCORD_REQUIRE_CONFIRMATION === 'true';
+const CONFIRMATION_TTL_MS = (Number(process.env.DISCORD_CONFIRMATION_TTL_SECONDS) || 120) * 1000;
+
+const ConfirmationArgsSchema = z.object({
+  dryRun: z.boolean().optional().describe('Only preview what would change, without executing'),
+  confirmationToken: z.string().optional().describe('Token from a previous preview, to execute the previewed action'),
+});
+
+interface PendingConfirmation {
+  tool: string;
+  argsKey: string;
+  expiresAt: number;
+  // The message or member IDs the preview listed, for tools that select their targets with filters
+  targetIds?: string[];
+}
+
+const pendingConfirmations = new Map<string, PendingConfirmation>();
+
+// Helper function to serialize arguments with sorted keys, so a token is bound to the exact arguments it previewed
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+function summarizeMessage(msg: MessageInfo) {
+  return {
+    id: msg.id,
+    author: msg.author.tag,
+    content: msg.content.length > 100 ? `${msg.content.slice(0, 100)}...` : msg.content,
+    timestamp: msg.createdAt.toISOString(),
+  };
+}
+
+function summarizeMember(member: MemberInfo) {
+  return {
+    id: member.id,
+    user: member.user.tag,
+    nickname: member.nickname,
+    bot: member.user.bot,
+    roles: assignedRoles(member).map(r => r.name),
+    joinedAt: member.joinedAt?.toISOString() ?? null,
+  };
+}
+
+// Permissions that let a role's members moderate the server or change its setup; granting them needs confirmation
+const ELEVATED_PERMISSIONS: PermissionName[] = [
+  'Administrator', 'ManageGuild', 'ManageRoles', 'ManageChannels', 'ManageWebhooks', 'ManageMessages',
+  'ManageNicknames', 'KickMembers', 'BanMembers', 'ModerateMembers', 'MentionEveryone',
+];
+
+// Helper function to list the elevated permissions in a permission set
+function elevatedPermissionsOf(permissions: bigint): PermissionName[] {
+  return ELEVATED_PERMISSIONS.filter(permission => hasPermission(permissions, PermissionsBitField.Flags[permission]));
+}
+
+// Helper function to preview a bulk role change as the list of members it would change and skip
+async function previewBulkRoleChange(action: 'assign' | 'remove', args: unknown) {
+  const { role, pending, skipped, unresolved } = await planBulkRoleChange(action, args);
+  return {
+    action: action === 'assign'
+      ? `Assign role "${role.name}" to ${pending.length} member(s)`
+      : `Remove role "${role.name}" from ${pending.length} member(s)`,
+    members: pending.map(member => ({ id: member.id, user: member.user.tag })),
+    skipped: skipped.map(({ member, outcome }) => ({ id: member.id, user: member.user.tag, outcome })),
+    unresolved,
+  };
+}
+
+// Preview builders for every tool that needs confirmation. Each validates the arguments, resolves the
+// targets and describes exactly what would change.
+const DESTRUCTIVE_TOOL_PREVIEWS: Record<string, (args: unknown) => Promise<Record<string, unknown>>> = {
+  "delete-role": async args => {
+    const { server: serverIdentifier, role: roleIdentifier } = DeleteRoleSchema.parse(args);
+    const guild = await findGuild(serverIdentifier);
+    const role = await findRole(roleIdentifier, guild.id);
+    await assertRoleManageable(role, 'delete');
+    return {
+      action: `Delete role "${role.name}" from server "${guild.name}"`,
+      role: { id: role.id, name: role.name, position: role.position, permissions: permissionNames(role.permissions) },
+      membersLosingRole: roleMembers(role).length,
+    };
+  },
+  "update-role": async args => {
+    const { server: serverIdentifier, role: roleIdentifier, newName, newColor, newPermissions, newMentionable } = UpdateRoleSchema.parse(args);
+    const guild = await findGuild(serverIdentifier);
+    const role = await findRole(roleIdentifier, guild.id);
+    await assertRoleManageable(role, 'update');
+    const replacement = newPermissions ? combinePermissions(parsePermissionNames(newPermissions)) : role.permissions;
+    return {
+      action: newPermissions
+        ? `Replace every permission of role "${role.name}" in server "${guild.name}"`
+        : `Update role "${role.name}" in server "${guild.name}"`,
+      permissionsAdded: permissionNames(replacement & ~role.permissions),
+      permissionsRemoved: permissionNames(role.permissions & ~replacement),
+      otherChanges: { name: newName, color: newColor, mentionable: newMentionable },
+      membersAffected: roleMembers(role).length,
+    };
+  },
+  "create-role": async args => {
+    const { server: serverIdentifier, roleName, color, permissions, mentionable } = CreateRoleSchema.parse(args);
+    const guild = await findGuild(serverIdentifier);
+    const granted = combinePermissions(permissions ? parsePermissionNames(permissions) : []);
+    return {
+      action: `Create role "${roleName}" in server "${guild.name}"`,
+      permissions: permissionNames(granted),
+      elevatedPermissions: elevatedPermissionsOf(granted),
+      otherSettings: { color, mentionable },
+    };
+  },
+  "assign-role": async args => {
+    const { server: serverIdentifier, user: userIdentifier, role: roleIdentifier } = AssignRoleSchema.parse(args);
+    const guild = await findGuild(serverIdentifier);
+    const member = await findMember(userIdentifier, guild.id);
+    const role = await findRole(roleIdentifier, guild.id);
+    await assertRoleManageable(role, 'assign');
+    return {
+      action: `Assign role "${role.name}" to ${member.user.tag} in server "${guild.name}"`,
+      member: summarizeMember(member),
+      role: { id: role.id, name: role.name, permissions: permissionNames(role.permissions) },
+      elevatedPermissions: elevatedPermissionsOf(role.permissions),
+    };
+  },
+  "bulk-assign-role": args => previewBulkRoleChange('assign', args),
+  "bulk-remove-role": args => previewBulkRoleChange('remove', args),
+  "delete-message": async args => {
+    const { server: serverIdentifier, channel: channelIdentifier, messageId } = DeleteMessageSchema.parse(args);
+    const channel = await findChannel(channelIdentifier, serverIdentifier);
+    const message = await botFor(channel.guild.id).fetchMessage(channel.id, messageId);
+    return { action: `Delete a message from #${channel.name}`, message: summarizeMessage(message) };
+  },
+  "bulk-delete-messages": async args => {
+    const { server: serverIdentifier, channel: channelIdentifier, ...filters } = BulkDeleteMessagesSchema.parse(args);
+    const channel = await findChannel(channelIdentifier, serverIdentifier);
+    const { matches, scanned } = await findBulkDeleteMatches(channel, filters);
+    return {
+      action: `Delete ${matches.length} message(s) from #${channel.name}`,
+      scanned,
+      messages: matches.map(summarizeMessage),
+    };
+  },
+  "kick-member": async args => {
+    const { server: serverIdentifier, user: userIdentifier, reason } = KickMemberSchema.parse(args);
+    const member = await findMember(userIdentifier, (await findGuild(serverIdentifier)).id);
+    await assertCanModerate(member, 'kick');
+    return { action: `Kick ${member.user.tag} from server "${member.guild.name}"`, member: summarizeMember(member), reason };
+  },
+  "ban-member": async args => {
+    const { server: serverIdentifier, user: userIdentifier, reason, deleteMessageDays } = BanMemberSchema.parse(args);
+    const guild = await findGuild(serverIdentifier);
+    const member = await findMember(userIdentifier, guild.id).catch(() => undefined);
+    if (member) await assertCanModerate(member, 'ban');
+    return {
+      action: `Ban ${member?.user.tag ?? `user ID ${userIdentifier}`} from server "${guild.name}"`,
+      member: member ? summarizeMember(member) : null,
+      deleteMessageDays,
+      reason,
+    };
+  },
+  "timeout-member": async args => {
+    const { server: serverIdentifier, user: userIdentifier, durationMinutes, reason } = TimeoutMemberSchema.parse(args);
+    const member = await findMember(userIdentifier, (await findGuild(serverIdentifier)).id);
+    await assertCanModerate(member, 'timeout');
+    return {
+      action: `Time out ${member.user.tag} for ${durationMinutes} minute(s)`,
+      member: summarizeMember(member),
+      until: new Date(Date.now() + durationMinutes * 60 * 1000).toISOString(),
+      reason,
+    };
+  },
+  "delete-channel": async args => {
+    const { server: serverIdentifier, channel: channelIdentifier, reason } = DeleteChannelSchema.parse(args);
+    const channel = await findAnyChannel(channelIdentifier, serverIdentifier);
+    return {
+      action: `Delete ${channelTypeName(channel.type)} channel #${channel.name} from server "${channel.guild.name}"`,
+      channel: { id: channel.id, name: channel.name, type: channelTypeName(channel.type), category: channel.parent?.name ?? null },
+      channelsLeftWithoutCategory: channel.type === ChannelType.GuildCategory
+        ? botFor(channel.guild.id).channels(channel.guild.id).filter(c => c.parentId === channel.id).map(c => `#${c.name}`)
+        : [],
+      reason: reason ?? null,
+    };
+  },
+  "delete-automod-rule": async args => {
+    const { server: serverIdentifier, rule: ruleIdentifier, reason } = DeleteAutoModRuleSchema.parse(args);
+    const guild = await findGuild(serverIdentifier);
+    const rule = await findAutoModRule(guild, ruleIdentifier);
+    return {
+      action: `Delete AutoMod rule "${rule.name}" from server "${guild.name}"`,
+      rule: formatAutoModRule(rule),
+      reason: reason ?? null,
+    };
+  },
+  "set-permission-overwrite": async args => {
+    const { server: serverIdentifier, channel: channelIdentifier, role: roleIdentifier, user: userIdentifier, allow, deny, inherit } = SetPermissionOverwriteSchema.parse(args);
+    const channel = await findAnyChannel(channelIdentifier, serverIdentifier);
+    const target = roleIdentifier ? await findRole(roleIdentifier, channel.guild.id) : await findMember(userIdentifier!, channel.guild.id);
+    parsePermissionNames([...allow, ...deny, ...inherit]);
+    const current = channel.permissionOverwrites.find(overwrite => overwrite.id === target.id);
+    const currentAllow = permissionNames(current?.allow ?? 0n);
+    const currentDeny = permissionNames(current?.deny ?? 0n);
+    const changed = new Set<string>([...allow, ...deny, ...inherit]);
+    return {
+      action: `Change the overwrite for ${'user' in target ? `user ${target.user.tag}` : `role "${target.name}"`} on #${channel.name}`,
+      current: { allow: currentAllow, deny: currentDeny },
+      after: {
+        allow: [...currentAllow.filter(p => !changed.has(p)), ...allow],
+        deny: [...currentDeny.filter(p => !changed.has(p)), ...deny],
+      },
+    };
+  },
+  "remove-permission-overwrite": async args => {
+    const { server: serverIdentifier, channel: channelIdentifier, role: roleIdentifier, user: userIdentifier } = RemovePermissionOverwriteSchema.parse(args);
+    const channel = await findAnyChannel(channelIdentifier, serverIdentifier);
+    const target = roleIdentifier ? await findRole(roleIdentifier, channel.guild.id) : await findMember(userIdentifier!, channel.guild.id);
+    const current = channel.permissionOverwrites.find(overwrite => overwrite.id === target.id);
+    return {
+      action: `Remove the overwrite for ${'user' in target ? `user ${target.user.tag}` : `role "${target.name}"`} from #${channel.name}`,
+      removed: { allow: permissionNames(current?.allow ?? 0n), deny: permissionNames(current?.deny ?? 0n) },
+    };
+  },
+};
+
+// Filter-based tools act on exactly the targets their preview listed once confirmed, so a confirmation can never
+// reach messages or members that matched the filters only after the preview
+const idsOf = (entries: unknown) => (entries as { id: string }[]).map(entry => entry.id);
+const PREVIEWED_TARGETS: Record<string, (preview: Record<string, unknown>) => string[]> = {
+  "bulk-assign-role": preview => idsOf(preview.members),
+  "bulk-remove-role": preview => idsOf(preview.members),
+  "bulk-delete-messages": preview => idsOf(preview.messages),
+};
+
+// Tools that only need confirmation for some arguments; dryRun previews them regardless
+const CONFIRMATION_CONDITIONS: Record<string, (args: Record<string, unknown>) => boolean | Promise<boolean>> = {
+  "update-role": args => args.newPermissions !== undefined,
+  "create-role": args => args.permissions !== undefined,
+  "assign-role": async args => {
+    const { server, role } = AssignRoleSchema.parse(args);
+    return elevatedPermissionsOf((await findRole(role, (await findGuild(server)).id)).permissions).length > 0;
+  },
+};
+
+type ConfirmationOutcome = { preview: ToolOutput } | { proceed: true; targetIds?: string[] };
+
+// Helper function run before every tool call. Returns a preview when the call must stop for confirmation, or
+// lets it proceed, limited to the previewed targets when a token confirmed it; throws when a token is invalid.
+async function checkConfirmation(tool: string, args: Record<string, unknown> | undefined): Promise<ConfirmationOutcome> {
+  const buildPreview = DESTRUCTIVE_TOOL_PREVIEWS[tool];
+  if (!buildPreview) return { proceed: true };
+
+  const { dryRun, confirmationToken } = ConfirmationArgsSchema.parse(args ?? {});
+  const { dryRun: _dryRun, confirmationToken: _token, ...toolArgs } = args ?? {};
+  const argsKey = stableStringify(toolArgs);
+
+  const now = Date.now();
+  for (const [token, pending] of pendingConfirmations) {
+    if (pending.expiresAt <= now) pendingConfirmations.delete(token);
+  }
+
+  if (confirmationToken && !dryRun) {
+    const pending = pendingConfirmations.get(confirmationToken);
+    if (!pending) {
+      throw new ToolError('CONFIRMATION_INVALID', `Confirmation token "${confirmationToken}" is unknown or has expired. Call ${tool} again without it to get a new preview.`);
+    }
+    if (pending.tool !== tool || pending.argsKey !== argsKey) {
+      throw new ToolError('CONFIRMATION_INVALID', `Confirmation token "${confirmationToken}" was issued for different arguments. Call ${tool} again without it to preview these arguments.`);
+    }
+    pendingConfirmations.delete(confirmationToken);
+    return { proceed: true, targetIds: pending.targetIds };
+  }
+
+  if (!dryRun && (!REQUIRE_CONFIRMATION || !(await (CONFIRMATION_CONDITIONS[tool]?.(toolArgs) ?? true)))) return { proceed: true };
+
+  const preview = await buildPreview(toolArgs);
+
+  const auditStore = auditContext.getStore();
+  if (auditStore) auditStore.outcome = 'preview';
+
+  const token = randomBytes(4).toString('hex');
+  const expiresAt = now + CONFIRMATION_TTL_MS;
+  pendingConfirmations.set(token, { tool, argsKey, expiresAt, targetIds: PREVIEWED_TARGETS[tool]?.(preview) });
+
+  const result = {
+    status: dryRun ? 'dry_run' : 'confirmation_required',
+    tool,
+    preview,
+    confirmationToken: token,
+    expiresAt: new Date(expiresAt).toISOString(),
+  };
+  return {
+    preview: {
+      summary: `Nothing has been changed yet. To apply this, call ${tool} again with the same arguments plus "confirmationToken": "${token}" before ${result.expiresAt}.`,
+      data: result,
+    },
+  };
+}
+
+// Helper function to advertise dryRun and confirmationToken on the tools that accept them
+function addConfirmationArguments<T extends { name: string; inputSchema: { properties?: object } }>(tool: T): T {
+  if (!DESTRUCTIVE_TOOL_PREVIEWS[tool.name]) return tool;
+  return {
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: {
+        ...tool.inputSchema.properties,
+        dryRun: {
+          type: "boolean",
+          description: 'Only preview what would change, without executing (returns a confirmation token)',
+        },
+        confirmationToken: {
+          type: "string",
+          description: 'Token from a previous preview, to execute exactly the previewed action',
+        },
+      },
+    },
+  };
+}
+// --- End Confirmation ---
+
+// --- Tool Output ---
+// Every tool returns a one-line summary plus structured data. The data goes out as structuredContent, and the
+// text block renders it in the format the caller picked: json (the data), markdown (summary and tables) or
+// compact (minified, without empty fields).
+interface ToolOutput {
+  summary: string;
+  data: Record<string, unknown>;
+}
+
+const OutputFormatSchema = z.enum(['json', 'markdown', 'compact']).default('json');
+type OutputFormat = z.infer<typeof OutputFormatSchema>;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Helper function to drop null, undefined and empty values for the compact format
+function pruneEmpty(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(pruneEmpty);
+  if (!isPlainObject(value)) return value;
+  const entries = Object.entries(value)
+    .map(([key, child]) => [key, pruneEmpty(child)] as const)
+    .filter(([, child]) =>
+      child !== null && child !== undefined && child !== '' &&
+      !(Array.isArray(child) && child.length === 0) &&
+      !(isPlainObject(child) && Object.keys(child).length === 0));
+  return Object.fromEntries(entries);
+}
+
+function markdownCell(value: unknown): string {
+  const text = value === null || value === undefined ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+function markdownTable(rows: Record<string, unknown>[]): string {
+  const columns = [...new Set(rows.flatMap(row => Object.keys(row)))];
+  return [
+    `| ${columns.join(' | ')} |`,
+    `| ${columns.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${columns.map(column => markdownCell(row[column])).join(' | ')} |`),
+  ].join('\n');
+}
+
+// Helper function to render the summary, then scalar fields as a list, arrays of objects as tables
+// and anything else nested as a JSON block
+function renderMarkdown(output: ToolOutput): string {
+  const fields: string[] = [];
+  const sections: string[] = [];
+  for (const [key, value] of Object.entries(output.data)) {
+    if (value === undefined) continue;
+    if (Array.isArray(value) && value.length > 0 && value.every(isPlainObject)) {
+      sections.push(`### ${key}\n\n${markdownTable(value)}`);
+    } else if (Array.isArray(value) && value.every(item => typeof item !== 'object' || item === null)) {
+      fields.push(`- **${key}:** ${value.length > 0 ? value.join(', ') : 'none'}`);
+    } else if (typeof value === 'object' && value !== null) {
+      sections.push(`### ${key}\n\n\`\`\`json\n${JSON.stringify(value, null, 2)}\n\`\`\``);
+    } else {
+      fields.push(`- **${key}:** ${value ?? 'none'}`);
+    }
+  }
+  return [output.summary, fields.join('\n'), ...sections].filter(Boolean).join('\n\n');
+}
+
+function renderToolOutput(output: ToolOutput, format: OutputFormat): string {
+  switch (format) {
+    case 'markdown':
+      return renderMarkdown(output);
+    case 'compact':
+      return JSON.stringify(pruneEmpty(output.data));
+    default:
+      return JSON.stringify(output.data, null, 2);
+  }
+}
+
+function renderToolError(error: ToolError, format: OutputFormat): string {
+  const body = toolErrorOutput(error);
+  switch (format) {
+    case 'markdown':
+      return `**Error (${error.code}):** ${error.message}`;
+    case 'compact':
+      return JSON.stringify(body);
+    default:
+      return JSON.stringify(body, null, 2);
+  }
+}
+
+// Helper function to give a failed call's structuredContent
+function toolErrorOutput(error: ToolError): z.infer<typeof ToolErrorOutput> {
+  return { error: { code: error.code, message: error.message } };
+}
+
+// Helper function to convert a zod schema into the JSON Schema object an MCP tool definition expects
+function toJsonSchema(schema: z.ZodTypeAny): { type: "object"; [key: string]: unknown } {
+  const { $schema: _schema, ...jsonSchema } = zodToJsonSchema(schema, { $refStrategy: 'none', removeAdditionalStrategy: 'strict' }) as Record<string, unknown>;
+  // Unions convert to a bare anyOf, but MCP requires an object type at the top level
+  return { ...jsonSchema, type: "object" };
+}
+
+// Helper function to advertise each tool's outputSchema; confirmable tools may return a pending confirmation instead,
+// and every tool may return an error. Clients check error results against the outputSchema too
+function addOutputSchema<T extends { name: string }>(tool: T): T & { outputSchema?: ReturnType<typeof toJsonSchema> } {
+  const schema = TOOL_OUTPUT_SCHEMAS[tool.name];
+  if (!schema) return tool;
+  return {
+    ...tool,
+    outputSchema: toJsonSchema(DESTRUCTIVE_TOOL_PREVIEWS[tool.name]
+      ? z.union([schema, ConfirmationOutput, ToolErrorOutput])
+      : z.union([schema, ToolErrorOutput])),
+  };
+}
+
+// Helper function to advertise the format argument every tool accepts
+function addFormatArgument<T extends { inputSchema: { properties?: object } }>(tool: T): T {
+  return {
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: {
+        ...tool.inputSchema.properties,
+        format: {
+          type: "string",
+          enum: OutputFormatSchema.removeDefault().options,
+          description: 'How to render the text result: json (default), markdown (summary and tables) or compact (minified JSON without empty fields)',
+        },
+      },
+    },
+  };
+}
+
+// Helper function to advertise the bot argument every tool accepts
+function addBotArgument<T extends { inputSchema: { properties?: object } }>(tool: T): T {
+  return {
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: {
+        ...tool.inputSchema.properties,
+        bot: {
+          type: "string",
+          enum: botProfiles.map(profile => profile.name),
+          description: 'Bot profile to act as. Defaults to the first configured bot that is in the target server',
+        },
+      },
+    },
+  };
+}
+// --- End Tool Output ---
+
+// --- MCP Sessions ---
+// Each connected client gets its own Server instance: one over stdio, or one per session over HTTP.
+// Resource subscriptions are tracked per session so updates only reach the clients that asked for them.
+type ServerRequestExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+interface McpSession {
+  server: Server;
+  // Canonical resource URI -> the URIs the client subscribed with, which its update notifications carry
+  subscribedResources: Map<string, Set<string>>;
+}
+
+const sessions = new Set<McpSession>();
+
+// Create a server instance with every request handler registered
+function createServer(): Server {
+  const server = new Server(
+    {
+      name: "discord",
+      version: "1.0.0",
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: { subscribe: true, listChanged: true },
+      },
+    }
+  );
+  const session: McpSession = { server, subscribedResources: new Map() };
+
+  server.setRequestHandler(ListToolsRequestSchema, listTools);
+  server.setRequestHandler(CallToolRequestSchema, handleCallTool);
+  server.setRequestHandler(ListResourcesRequestSchema, listResources);
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, listResourceTemplates);
+  server.setRequestHandler(ReadResourceRequestSchema, readResource);
+  // Subscriptions are resolved like reads, so unknown or refused resources are rejected and names map to IDs
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const { canonicalUri } = await resolveResource(uri);
+    const requested = session.subscribedResources.get(canonicalUri) ?? new Set<string>();
+    session.subscribedResources.set(canonicalUri, requested.add(uri));
+    return {};
+  });
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+    for (const [canonicalUri, requested] of session.subscribedResources) {
+      if (requested.delete(uri) && requested.size === 0) session.subscribedResources.delete(canonicalUri);
+    }
+    return {};
+  });
+
+  sessions.add(session);
+  server.onclose = () => sessions.delete(session);
+  return server;
+}
+// --- End MCP Sessions ---
+
+// List available tools
+async function listTools() {
+  return {
+    tools: [
+      {
+        name: "send-message",
+        description: "Send a message to a Discord channel, optionally with embeds, file attachments or as a reply",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            channel: {
+              type: "string",
+              description: 'Channel name (e.g., "general") or ID',
+            },
+            message: {
+              type: "string",
+              description: "Message content to send (max 2000 characters)",
+            },
+            embeds: {
+              type: "array",
+              description: "Up to 10 embeds (combined text max 6000 characters)",
+              items: {
+                type: "object",
+                properties: {
+                  title: { type: "string", description: "Embed title (max 256 characters)" },
+                  description: { type: "string", description: "Embed description (max 4096 characters)" },
+                  url: { type: "string", description: "URL the title links to" },
+                  color: { type: "string", description: "Hex color code (e.g., #3498db)" },
+                  fields: {
+                    type: "array",
+                    description: "Up to 25 fields",
+                    items: {
+                      type: "object",
+                      properties: {
+                        name: { type: "string", description: "Field name (max 256 characters)" },
+                        value: { type: "string", description: "Field value (max 1024 characters)" },
+                        inline: { type: "boolean", description: "Display the field inline" },
+                      },
+                      required: ["name", "value"],
+                    },
+                  },
+                  footer: { type: "string", description: "Footer text (max 2048 characters)" },
+                  imageUrl: { type: "string", description: "URL of a large image" },
+                  thumbnailUrl: { type: "string", description: "URL of a thumbnail image" },
+                  timestamp: { type: "string", description: "ISO 8601 timestamp shown in the footer" },
+                },
+              },
+            },
+            replyTo: {
+              type: "string",
+              description: 'ID of a message in the same channel to reply to',
+            },
+            files: {
+              type: "array",
+              items: { type: "string" },
+              description: 'Paths of files to attach, relative to DISCORD_ATTACHMENT_DIR (max 10)',
+            },
+            allowedMentions: {
+              type: "object",
+              description: 'Which mentions may ping (default: users only, never @everyone or roles)',
+              properties: {
+                parse: {
+                  type: "array",
+                  items: { type: "string", enum: ["users", "roles", "everyone"] },
+                  description: 'Mention types to allow from the content',
+                },
+                users: { type: "array", items: { type: "string" }, description: 'Specific user IDs that may be pinged' },
+                roles: { type: "array", items: { type: "string" }, description: 'Specific role IDs that may be pinged' },
+                repliedUser: { type: "boolean", description: 'Whether to ping the author of the replied-to message' },
+              },
+            },
+          },
+          required: ["channel"],
+        },
+      },
+      {
+        name: "read-messages",
+        description: "Read recent messages from a Discord channel",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            channel: {
+              type: "string",
+              description: 'Channel name (e.g., "general") or ID',
+            },
+            limit: {
+              type: "number",
+              description: `Number of messages to fetch (max ${MAX_READ_MESSAGES}, paged 100 at a time)`,
+              default: 50,
+            },
+            before: {
+              type: "string",
+              description: 'Return messages before this message ID (use nextCursor.before to continue backwards)',
+            },
+            after: {
+              type: "string",
+              description: 'Return messages after this message ID (use nextCursor.after to continue forwards)',
+            },
+            around: {
+              type: "string",
+              description: 'Return messages around this message ID (max 100, no pagination)',
+            },
+            since: {
+              type: "string",
+              description: 'Only return messages sent at or after this ISO 8601 timestamp',
+            },
+            until: {
+              type: "string",
+              description: 'Only return messages sent at or before this ISO 8601 timestamp',
+            },
+          },
+          required: ["channel"],
+        },
+      },
+      // New tool definitions
+      {
+        name: "list-channels",
+        description: "List all text-based channels (text, announcement, voice, stage) and forum channels in a specific server",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            includeThreads: {
+              type: "boolean",
+              description: 'Also list active threads',
+              default: false,
+            },
+            tree: {
+              type: "boolean",
+              description: 'Return every channel (including voice and categories) grouped by category, with types and positions',
+              default: false,
+            },
+          },
+          required: [], // Server is optional if bot is in only one
+        },
+      },
+      {
+        name: "list-servers",
+        description: "List all servers the bot is connected to",
+        inputSchema: { type: "object", properties: {} }, // No input needed
+      },
+      {
+        name: "create-channel",
+        description: "Create a new channel or category in a specific server",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            channelName: {
+              type: "string",
+              description: "Name for the new channel",
+            },
+            type: {
+              type: "string",
+              enum: ["text", "voice", "category", "announcement", "forum"],
+              description: "Channel type (default text)",
+              default: "text",
+            },
+            category: {
+              type: "string",
+              description: "Name or ID of the parent category",
+            },
+            topic: {
+              type: "string",
+              description: "Channel topic (text, announcement and forum channels)",
+            },
+            slowmode: {
+              type: "number",
+              description: "Slowmode in seconds (0-21600)",
+            },
+            nsfw: {
+              type: "boolean",
+              description: "Whether the channel is age-restricted",
+            },
+            position: {
+              type: "number",
+              description: "Sorting position of the channel",
+            },
+          },
+          required: ["channelName"],
+        },
+      },
+      // --- Channel Management Tools ---
+      {
+        name: "update-channel",
+        description: "Update the name, topic, slowmode or NSFW flag of a channel or category",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            channel: {
+              type: "string",
+              description: 'Channel or category name or ID',
+            },
+            newName: {
+              type: "string",
+              description: 'New name for the channel',
+            },
+            topic: {
+              type: "string",
+              description: 'New channel topic (empty string clears it)',
+            },
+            slowmode: {
+              type: "number",
+              description: 'New slowmode in seconds (0 disables it)',
+            },
+            nsfw: {
+              type: "boolean",
+              description: 'New age-restricted status',
+            },
+          },
+          required: ["channel"],
+        },
+      },
+      {
+        name: "delete-channel",
+        description: "Delete a channel or category",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            channel: {
+              type: "string",
+              description: 'Channel or category name or ID to delete',
+            },
+            reason: {
+              type: "string",
+              description: 'Reason recorded in the server audit log',
+            },
+          },
+          required: ["channel"],
+        },
+      },
+      {
+        name: "move-channel",
+        description: "Move a channel into or out of a category, or change its position",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            channel: {
+              type: "string",
+              description: 'Channel name or ID to move',
+            },
+            category: {
+              type: ["string", "null"],
+              description: 'Name or ID of the new parent category, or null to move it out of its category',
+            },
+            position: {
+              type: "number",
+              description: 'New sorting position of the channel',
+            },
+            syncPermissions: {
+              type: "boolean",
+              description: 'Sync permissions with the new category',
+              default: false,
+            },
+          },
+          required: ["channel"],
+        },
+      },
+      {
+        name: "clone-channel",
+        description: "Create a copy of a channel or category with the same settings and permissions",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            channel: {
+              type: "string",
+              description: 'Channel or category name or ID to clone',
+            },
+            newName: {
+              type: "string",
+              description: 'Name for the copy (defaults to the original name)',
+            },
+          },
+          required: ["channel"],
+        },
+      },
+      // --- End Channel Management Tools ---
+      // New tool: read-multiple-channels
+      {
+        name: "read-multiple-channels",
+        description: "Read recent messages from multiple text channels in a server",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            channels: {
+              type: "array",
+              items: { type: "string" },
+              description: 'List of channel names or IDs (optional, defaults to all text channels)',
+            },
+            limitPerChannel: {
+              type: "number",
+              description: "Max messages per channel (default 10, max 50)",
+              default: 10,
+            },
+            timeBudgetSeconds: {
+              type: "number",
+              description: 'Seconds to spend fetching before returning partial results marked incomplete (default 30, or DISCORD_TIME_BUDGET_SECONDS)',
+            },
+          },
+          required: [], // Server is optional, channels are optional
+        },
+      },
+      // --- Role Management Tools ---
+      {
+        name: "list-roles",
+        description: "List all roles in a specific server",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+          },
+          required: [],
+        },
+      },
+      {
+        name: "assign-role",
+        description: "Assign a role to a user in a server",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            user: {
+              type: "string",
+              description: 'User name#discriminator, user ID, or user mention',
+            },
+            role: {
+              type: "string",
+              description: 'Role name or ID',
+            },
+            reason: {
+              type: "string",
+              description: 'Reason recorded in the server audit log',
+            },
+          },
+          required: ["user", "role"],
+        },
+      },
+      {
+        name: "remove-role",
+        description: "Remove a role from a user in a server",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            user: {
+              type: "string",
+              description: 'User name#discriminator, user ID, or user mention',
+            },
+            role: {
+              type: "string",
+              description: 'Role name or ID',
+            },
+            reason: {
+              type: "string",
+              description: 'Reason recorded in the server audit log',
+            },
+          },
+          required: ["user", "role"],
+        },
+      },
+      {
+        name: "create-role",
+        description: "Create a new role in a server",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            roleName: {
+              type: "string",
+              description: 'Name for the new role',
+            },
+            color: {
+              type: "string",
+              description: 'Hex color code for the role (e.g., #FF0000)',
+            },
+            permissions: {
+              type: "array",
+              items: { type: "string" },
+              description: 'List of permission names (e.g., ["SendMessages", "ManageMessages"])',
+            },
+            mentionable: {
+              type: "boolean",
+              description: 'Whether the role should be mentionable',
+              default: false,
+            },
+            reason: {
+              type: "string",
+              description: 'Reason recorded in the server audit log',
+            },
+          },
+          required: ["roleName"],
+        },
+      },
+      {
+        name: "delete-role",
+        description: "Delete a role from a server",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            role: {
+              type: "string",
+              description: 'Role name or ID to delete',
+            },
+            reason: {
+              type: "string",
+              description: 'Reason recorded in the server audit log',
+            },
+          },
+          required: ["role"],
+        },
+      },
+      {
+        name: "update-role",
+        description: "Update an existing role in a server",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            role: {
+              type: "string",
+              description: 'Role name or ID to update',
+            },
+            newName: {
+              type: "string",
+              description: 'New name for the role',
+            },
+            newColor: {
+              type: "string",
+              description: 'New hex color code for the role',
+            },
+            newPermissions: {
+              type: "array",
+              items: { type: "string" },
+              description: 'New list of permission names (replaces existing)',
+            },
+            newMentionable: {
+              type: "boolean",
+              description: 'New mentionable status',
+            },
+            reason: {
+              type: "string",
+              description: 'Reason recorded in the server audit log',
+            },
+          },
+          required: ["role"],
+        },
+      },
+      {
+        name: "check-role-manageability",
+        description: "Check whether the bot can assign, remove, update or delete a role, and explain how to fix any blockers",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            role: {
+              type: "string",
+              description: 'Role name or ID to check',
+            },
+          },
+          required: ["role"],
+        },
+      },
+      // --- End Role Management Tools ---
+      // --- Member Count Tools ---
+      {
+        name: "get-member-count",
+        description: "Get the total number of members in a specific server, and about how many are online",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+          },
+          required: [],
+        },
+      },
+      {
+        name: "get-role-member-count",
+        description: "Get the number of members that have a specific role in a server",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            role: {
+              type: "string",
+              description: 'Role name or ID',
+            },
+            includeMembers: {
+              type: "boolean",
+              description: 'Also return the members that have the role',
+              default: false,
+            },
+            timeBudgetSeconds: {
+              type: "number",
+              description: 'Seconds to spend fetching before returning partial results marked incomplete (default 30, or DISCORD_TIME_BUDGET_SECONDS)',
+            },
+          },
+          required: ["role"],
+        },
+      },
+      // --- End Member Count Tools ---
+      // --- Moderation Tools ---
+      {
+        name: "kick-member",
+        description: "Kick a member from a server",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            user: {
+              type: "string",
+              description: 'User name#discriminator, user ID, or user mention',
+            },
+            reason: {
+              type: "string",
+              description: 'Reason recorded in the server audit log',
+            },
+          },
+          required: ["user", "reason"],
+        },
+      },
+      {
+        name: "ban-member",
+        description: "Ban a user from a server, optionally deleting their recent messages",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            user: {
+              type: "string",
+              description: 'User name#discriminator, user ID, or user mention',
+            },
+            reason: {
+              type: "string",
+              description: 'Reason recorded in the server audit log',
+            },
+            deleteMessageDays: {
+              type: "number",
+              description: "Delete the user's messages from the last N days (0-7, default 0)",
+              default: 0,
+            },
+          },
+          required: ["user", "reason"],
+        },
+      },
+      {
+        name: "unban-user",
+        description: "Lift a ban on a user in a server",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            user: {
+              type: "string",
+              description: 'User ID, username, or user mention of the banned user',
+            },
+            reason: {
+              type: "string",
+              description: 'Reason recorded in the server audit log',
+            },
+          },
+          required: ["user", "reason"],
+        },
+      },
+      {
+        name: "timeout-member",
+        description: "Temporarily prevent a member from chatting, reacting or joining voice",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            user: {
+              type: "string",
+              description: 'User name#discriminator, user ID, or user mention',
+            },
+            durationMinutes: {
+              type: "number",
+              description: 'Timeout duration in minutes (max 40320, i.e. 28 days)',
+            },
+            reason: {
+              type: "string",
+              description: 'Reason recorded in the server audit log',
+            },
+          },
+          required: ["user", "durationMinutes", "reason"],
+        },
+      },
+      {
+        name: "remove-timeout",
+        description: "Remove an active timeout from a member",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            user: {
+              type: "string",
+              description: 'User name#discriminator, user ID, or user mention',
+            },
+            reason: {
+              type: "string",
+              description: 'Reason recorded in the server audit log',
+            },
+          },
+          required: ["user", "reason"],
+        },
+      },
+      {
+        name: "list-bans",
+        description: "List all banned users in a server",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+          },
+          required: [],
+        },
+      },
+      // --- End Moderation Tools ---
+      // --- Message Management Tools ---
+      {
+        name: "edit-message",
+        description: "Edit a message previously sent by the bot",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            channel: {
+              type: "string",
+              description: 'Channel name (e.g., "general") or ID',
+            },
+            messageId: {
+              type: "string",
+              description: 'ID of the message to edit (must have been sent by the bot)',
+            },
+            message: {
+              type: "string",
+              description: 'New message content',
+            },
+          },
+          required: ["channel", "messageId", "message"],
+        },
+      },
+      {
+        name: "delete-message",
+        description: "Delete a single message from a channel",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            channel: {
+              type: "string",
+              description: 'Channel name (e.g., "general") or ID',
+            },
+            messageId: {
+              type: "string",
+              description: 'ID of the message to delete',
+            },
+          },
+          required: ["channel", "messageId"],
+        },
+      },
+      {
+        name: "pin-message",
+        description: "Pin a message in a channel",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            channel: {
+              type: "string",
+              description: 'Channel name (e.g., "general") or ID',
+            },
+            messageId: {
+              type: "string",
+              description: 'ID of the message to pin',
+            },
+          },
+          required: ["channel", "messageId"],
+        },
+      },
+      {
+        name: "unpin-message",
+        description: "Unpin a message in a channel",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            channel: {
+              type: "string",
+              description: 'Channel name (e.g., "general") or ID',
+            },
+            messageId: {
+              type: "string",
+              description: 'ID of the message to unpin',
+            },
+          },
+          required: ["channel", "messageId"],
+        },
+      },
+      {
+        name: "list-pinned-messages",
+        description: "List the pinned messages in a channel",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            channel: {
+              type: "string",
+              description: 'Channel name (e.g., "general") or ID',
+            },
+          },
+          required: ["channel"],
+        },
+      },
+      {
+        name: "bulk-delete-messages",
+        description: "Delete multiple recent messages from a channel, optionally filtered by author or content",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            channel: {
+              type: "string",
+              description: 'Channel name (e.g., "general") or ID',
+            },
+            count: {
+              type: "number",
+              description: 'Maximum number of matching messages to delete (max 500)',
+            },
+            author: {
+              type: "string",
+              description: 'Only delete messages by this user (name#discriminator, user ID, or mention)',
+            },
+            contains: {
+              type: "string",
+              description: 'Only delete messages whose content contains this text (case-insensitive)',
+            },
+            scanLimit: {
+              type: "number",
+              description: 'Maximum number of recent messages to scan for matches (default 500, max 1000)',
+              default: 500,
+            },
+          },
+          required: ["channel", "count"],
+        },
+      },
+      // --- End Message Management Tools ---
+      // --- Search Tools ---
+      {
+        name: "search-messages",
+        description: "Search message history across one or more channels by text, author, mentions, attachments, links and date",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            channels: {
+              type: "array",
+              items: { type: "string" },
+              description: 'List of channel names or IDs (optional, defaults to all text channels)',
+            },
+            query: {
+              type: "string",
+              description: 'Text to search for in message content (case-insensitive, max 200 characters)',
+            },
+            regex: {
+              type: "boolean",
+              description: 'Treat query as a regular expression',
+              default: false,
+            },
+            author: {
+              type: "string",
+              description: 'Only match messages by this user (name#discriminator, user ID, or mention)',
+            },
+            mentions: {
+              type: "string",
+              description: 'Only match messages that mention this user',
+            },
+            hasAttachment: {
+              type: "boolean",
+              description: 'Only match messages with (true) or without (false) attachments',
+            },
+            hasLink: {
+              type: "boolean",
+              description: 'Only match messages with (true) or without (false) links',
+            },
+            since: {
+              type: "string",
+              description: 'Only match messages sent at or after this ISO 8601 timestamp',
+            },
+            until: {
+              type: "string",
+              description: 'Only match messages sent at or before this ISO 8601 timestamp',
+            },
+            scanLimit: {
+              type: "number",
+              description: 'Maximum number of messages to scan across all channels (default 1000, max 5000)',
+              default: 1000,
+            },
+            maxResults: {
+              type: "number",
+              description: 'Maximum number of matches to return (default 25, max 100)',
+              default: 25,
+            },
+            contextSize: {
+              type: "number",
+              description: 'Number of surrounding messages to include on each side of a match (default 1, max 5)',
+              default: 1,
+            },
+            timeBudgetSeconds: {
+              type: "number",
+              description: 'Seconds to spend fetching before returning partial results marked incomplete (default 30, or DISCORD_TIME_BUDGET_SECONDS)',
+            },
+          },
+          required: [],
+        },
+      },
+      // --- End Search Tools ---
+      // --- Thread Tools ---
+      {
+        name: "list-threads",
+        description: "List active (and optionally archived) threads and forum posts",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            channel: {
+              type: "string",
+              description: 'Parent text, announcement or forum channel name or ID (optional, defaults to all channels)',
+            },
+            includeArchived: {
+              type: "boolean",
+              description: 'Also list archived threads (requires channel)',
+              default: false,
+            },
+            archivedLimit: {
+              type: "number",
+              description: 'Maximum number of archived threads to list (default 50, max 100)',
+              default: 50,
+            },
+          },
+          required: [],
+        },
+      },
+      {
+        name: "create-thread",
+        description: "Create a thread in a text or announcement channel, optionally from an existing message",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            channel: {
+              type: "string",
+              description: 'Text or announcement channel name or ID',
+            },
+            name: {
+              type: "string",
+              description: 'Thread name',
+            },
+            messageId: {
+              type: "string",
+              description: 'ID of the message to start the thread from (optional, creates a standalone thread if omitted)',
+            },
+            autoArchiveMinutes: {
+              type: "number",
+              enum: [60, 1440, 4320, 10080],
+              description: 'Minutes of inactivity before the thread is archived',
+            },
+            private: {
+              type: "boolean",
+              description: 'Create a private thread (standalone threads in text channels only)',
+              default: false,
+            },
+          },
+          required: ["channel", "name"],
+        },
+      },
+      {
+        name: "create-forum-post",
+        description: "Create a new post (thread) in a forum channel",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            forum: {
+              type: "string",
+              description: 'Forum channel name or ID',
+            },
+            title: {
+              type: "string",
+              description: 'Post title',
+            },
+            message: {
+              type: "string",
+              description: 'Content of the opening message',
+            },
+            tags: {
+              type: "array",
+              items: { type: "string" },
+              description: 'Names or IDs of forum tags to apply (max 5)',
+            },
+            autoArchiveMinutes: {
+              type: "number",
+              enum: [60, 1440, 4320, 10080],
+              description: 'Minutes of inactivity before the post is archived',
+            },
+          },
+          required: ["forum", "title", "message"],
+        },
+      },
+      {
+        name: "archive-thread",
+        description: "Archive, unarchive, lock or unlock a thread or forum post",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            thread: {
+              type: "string",
+              description: 'Thread name (active threads only) or ID',
+            },
+            archived: {
+              type: "boolean",
+              description: 'Archive (true) or unarchive (false) the thread',
+              default: true,
+            },
+            locked: {
+              type: "boolean",
+              description: 'Lock (true) or unlock (false) the thread so only moderators can unarchive it',
+            },
+          },
+          required: ["thread"],
+        },
+      },
+      // --- End Thread Tools ---
+      // --- Permission Overwrite Tools ---
+      {
+        name: "list-permission-overwrites",
+        description: "List the role and member permission overwrites on a channel or category",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            channel: {
+              type: "string",
+              description: 'Channel or category name or ID',
+            },
+          },
+          required: ["channel"],
+        },
+      },
+      {
+        name: "set-permission-overwrite",
+        description: "Allow, deny or reset specific permissions for a role or member on a channel or category (other permissions in the overwrite are kept)",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            channel: {
+              type: "string",
+              description: 'Channel or category name or ID',
+            },
+            role: {
+              type: "string",
+              description: 'Role name or ID the overwrite applies to (specify role or user)',
+            },
+            user: {
+              type: "string",
+              description: 'User the overwrite applies to (specify role or user)',
+            },
+            allow: {
+              type: "array",
+              items: { type: "string" },
+              description: 'Permission names to explicitly allow (e.g., ["SendMessages"])',
+            },
+            deny: {
+              type: "array",
+              items: { type: "string" },
+              description: 'Permission names to explicitly deny',
+            },
+            inherit: {
+              type: "array",
+              items: { type: "string" },
+              description: 'Permission names to reset so they are inherited from roles',
+            },
+          },
+          required: ["channel"],
+        },
+      },
+      {
+        name: "remove-permission-overwrite",
+        description: "Remove a role's or member's permission overwrite from a channel or category entirely",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            channel: {
+              type: "string",
+              description: 'Channel or category name or ID',
+            },
+            role: {
+              type: "string",
+              description: 'Role name or ID whose overwrite should be removed (specify role or user)',
+            },
+            user: {
+              type: "string",
+              description: 'User whose overwrite should be removed (specify role or user)',
+            },
+          },
+          required: ["channel"],
+        },
+      },
+      {
+        name: "explain-permissions",
+        description: "Explain a member's effective permissions in a channel and which role or overwrite granted or denied each one",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            user: {
+              type: "string",
+              description: 'User name#discriminator, user ID, or user mention',
+            },
+            channel: {
+              type: "string",
+              description: 'Channel, thread or category name or ID',
+            },
+            permissions: {
+              type: "array",
+              items: { type: "string" },
+              description: 'Only explain these permissions (e.g., ["SendMessages"]; defaults to all)',
+            },
+          },
+          required: ["user", "channel"],
+        },
+      },
+      // --- End Permission Overwrite Tools ---
+      // --- Event Inbox Tools ---
+      {
+        name: "poll-events",
+        description: "Return Discord events (messages, edits, deletions, member joins/leaves, reactions) received since a cursor",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Only return events from this server (name or ID)',
+            },
+            channel: {
+              type: "string",
+              description: 'Only return events from this channel (name or ID)',
+            },
+            types: {
+              type: "array",
+              items: { type: "string", enum: [...EVENT_TYPES] },
+              description: 'Only return these event types (defaults to all)',
+            },
+            cursor: {
+              type: "number",
+              description: 'Return events after this cursor (use nextCursor from the previous call; 0 for everything buffered)',
+              default: 0,
+            },
+            limit: {
+              type: "number",
+              description: 'Maximum number of events to return (default 50, max 100)',
+              default: 50,
+            },
+          },
+          required: [],
+        },
+      },
+      {
+        name: "wait-for-message",
+        description: "Wait until a message matching the filters is posted, or the timeout elapses",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            channel: {
+              type: "string",
+              description: 'Only match messages in this channel (name or ID)',
+            },
+            author: {
+              type: "string",
+              description: 'Only match messages by this user (name#discriminator, user ID, or mention)',
+            },
+            pattern: {
+              type: "string",
+              description: 'Only match messages whose content matches this regular expression (case-insensitive, max 200 characters)',
+            },
+            timeoutSeconds: {
+              type: "number",
+              description: 'Seconds to wait before giving up (default 50, max 300; keep below the client request timeout)',
+              default: 50,
+            },
+            cursor: {
+              type: "number",
+              description: 'Also match buffered messages received after this cursor, so nothing is missed between calls',
+            },
+            includeBots: {
+              type: "boolean",
+              description: 'Also match messages sent by bots (including this one)',
+              default: false,
+            },
+          },
+          required: [],
+        },
+      },
+      // --- End Event Inbox Tools ---
+      // --- Audit Log Tools ---
+      {
+        name: "get-audit-log",
+        description: "Query the local audit trail of tool calls made through this MCP server",
+        inputSchema: {
+          type: "object",
+          properties: {
+            tool: {
+              type: "string",
+              description: 'Only return calls to this tool',
+            },
+            outcome: {
+              type: "string",
+              enum: ["success", "error", "preview"],
+              description: 'Only return calls with this outcome',
+            },
+            server: {
+              type: "string",
+              description: 'Only return calls that touched this server (name or ID)',
+            },
+            user: {
+              type: "string",
+              description: 'Only return calls that touched this user ID',
+            },
+            since: {
+              type: "string",
+              description: 'Only return calls at or after this ISO 8601 timestamp',
+            },
+            until: {
+              type: "string",
+              description: 'Only return calls at or before this ISO 8601 timestamp',
+            },
+            limit: {
+              type: "number",
+              description: 'Maximum number of entries to return, newest first (default 50, max 500)',
+              default: 50,
+            },
+          },
+          required: [],
+        },
+      },
+      {
+        name: "read-discord-audit-log",
+        description: "Read a server's own Discord audit log, filtered by action type, user and time range",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            actionType: {
+              type: "string",
+              description: 'Only return entries of this action type (e.g., "MemberKick", "MemberBanAdd", "RoleDelete", "ChannelDelete", "MessageDelete")',
+            },
+            user: {
+              type: "string",
+              description: 'Only return actions performed by this user (name#discriminator, user ID, or mention)',
+            },
+            since: {
+              type: "string",
+              description: 'Only return entries at or after this ISO 8601 timestamp',
+            },
+            until: {
+              type: "string",
+              description: 'Only return entries at or before this ISO 8601 timestamp',
+            },
+            limit: {
+              type: "number",
+              description: 'Maximum number of entries to return, newest first (default 50, max 500)',
+              default: 50,
+            },
+          },
+          required: [],
+        },
+      },
+      // --- End Audit Log Tools ---
+      // --- Bulk Role Tools ---
+      {
+        name: "bulk-assign-role",
+        description: "Assign a role to many members at once, selected by an explicit list or a member filter, with per-member outcomes",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            role: {
+              type: "string",
+              description: 'Role name or ID to assign',
+            },
+            users: {
+              type: "array",
+              items: { type: "string" },
+              description: 'Explicit list of users (name#discriminator, user ID, or mention). Provide either users or filter.',
+            },
+            filter: {
+              type: "object",
+              description: 'Select members by criteria instead of listing them (at least one criterion)',
+              properties: {
+                hasRole: { type: "string", description: 'Only members who have this role (name or ID)' },
+                lacksRole: { type: "string", description: 'Only members who do not have this role (name or ID)' },
+                joinedBefore: { type: "string", description: 'Only members who joined before this ISO 8601 timestamp' },
+                joinedAfter: { type: "string", description: 'Only members who joined after this ISO 8601 timestamp' },
+                bots: { type: "boolean", description: 'true to match only bots, false to match only humans' },
+                namePattern: { type: "string", description: 'Regular expression matched case-insensitively against username, display name and nickname (max 200 characters)' },
+              },
+            },
+            reason: {
+              type: "string",
+              description: 'Reason recorded in the server audit log',
+            },
+          },
+          required: ["role"],
+        },
+      },
+      {
+        name: "bulk-remove-role",
+        description: "Remove a role from many members at once, selected by an explicit list or a member filter, with per-member outcomes",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            role: {
+              type: "string",
+              description: 'Role name or ID to remove',
+            },
+            users: {
+              type: "array",
+              items: { type: "string" },
+              description: 'Explicit list of users (name#discriminator, user ID, or mention). Provide either users or filter.',
+            },
+            filter: {
+              type: "object",
+              description: 'Select members by criteria instead of listing them (at least one criterion)',
+              properties: {
+                hasRole: { type: "string", description: 'Only members who have this role (name or ID)' },
+                lacksRole: { type: "string", description: 'Only members who do not have this role (name or ID)' },
+                joinedBefore: { type: "string", description: 'Only members who joined before this ISO 8601 timestamp' },
+                joinedAfter: { type: "string", description: 'Only members who joined after this ISO 8601 timestamp' },
+                bots: { type: "boolean", description: 'true to match only bots, false to match only humans' },
+                namePattern: { type: "string", description: 'Regular expression matched case-insensitively against username, display name and nickname (max 200 characters)' },
+              },
+            },
+            reason: {
+              type: "string",
+              description: 'Reason recorded in the server audit log',
+            },
+          },
+          required: ["role"],
+        },
+      },
+      // --- End Bulk Role Tools ---
+      // --- Member Directory Tools ---
+      {
+        name: "list-members",
+        description: "List the members of a server, with pagination and filters by role, join date, bot flag and membership screening status",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            role: {
+              type: "string",
+              description: 'Only members who have this role (name or ID)',
+            },
+            joinedBefore: {
+              type: "string",
+              description: 'Only members who joined before this ISO 8601 timestamp',
+            },
+            joinedAfter: {
+              type: "string",
+              description: 'Only members who joined after this ISO 8601 timestamp',
+            },
+            bots: {
+              type: "boolean",
+              description: 'true to list only bots, false to list only humans',
+            },
+            pending: {
+              type: "boolean",
+              description: 'true to list only members who have not passed membership screening, false for only those who have',
+            },
+            limit: {
+              type: "number",
+              description: 'Maximum number of members to return (default 100, max 1000)',
+              default: 100,
+            },
+            cursor: {
+              type: "string",
+              description: 'Continue after this cursor (the nextCursor of a previous call)',
+            },
+          },
+          required: [],
+        },
+      },
+      {
+        name: "search-members",
+        description: "Search a server's members by username or nickname prefix using Discord's server-side search",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            query: {
+              type: "string",
+              description: 'Username or nickname prefix to search for',
+            },
+            limit: {
+              type: "number",
+              description: 'Maximum number of members to return (default 25, max 1000)',
+              default: 25,
+            },
+          },
+          required: ["query"],
+        },
+      },
+      {
+        name: "get-member-info",
+        description: "Get details about a server member: roles, nickname, join and account creation dates, timeout status and avatar",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            user: {
+              type: "string",
+              description: 'User name#discriminator, user ID, or user mention',
+            },
+          },
+          required: ["user"],
+        },
+      },
+      // --- End Member Directory Tools ---
+      // --- Activity Stats Tools ---
+      {
+        name: "get-activity-stats",
+        description: "Get activity statistics for a server over a time window: messages per channel, user, day and hour, top posters, joiners and leavers, and dead channels. Returns JSON suitable for charting.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            channels: {
+              type: "array",
+              items: { type: "string" },
+              description: 'Channels to analyze (defaults to every text and announcement channel)',
+            },
+            since: {
+              type: "string",
+              description: 'Start of the window as an ISO 8601 timestamp (defaults to 7 days before until)',
+            },
+            until: {
+              type: "string",
+              description: 'End of the window as an ISO 8601 timestamp (defaults to now)',
+            },
+            timeZone: {
+              type: "string",
+              description: 'IANA time zone used to bucket days and hours (default UTC)',
+              default: "UTC",
+            },
+            includeBots: {
+              type: "boolean",
+              description: 'Count messages sent by bots',
+              default: false,
+            },
+            topPosters: {
+              type: "number",
+              description: 'Number of top posters to return (default 10)',
+              default: 10,
+            },
+            deadChannelDays: {
+              type: "number",
+              description: 'Report channels with no messages in this many days (default 30)',
+              default: 30,
+            },
+            maxMessagesPerChannel: {
+              type: "number",
+              description: 'Stop scanning a channel after this many messages (default 5000)',
+              default: 5000,
+            },
+            timeBudgetSeconds: {
+              type: "number",
+              description: 'Seconds to spend fetching before returning partial results marked incomplete (default 30, or DISCORD_TIME_BUDGET_SECONDS)',
+            },
+          },
+          required: [],
+        },
+      },
+      // --- End Activity Stats Tools ---
+      // --- Scheduled Message Tools ---
+      {
+        name: "schedule-message",
+        description: "Schedule a message to be sent once at a given time, or repeatedly on a cron schedule. Accepts the same message options as send-message.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            channel: {
+              type: "string",
+              description: 'Channel name (e.g., "general") or ID',
+            },
+            message: {
+              type: "string",
+              description: "Message content to send (max 2000 characters)",
+            },
+            embeds: {
+              type: "array",
+              description: "Up to 10 embeds (combined text max 6000 characters)",
+              items: {
+                type: "object",
+                properties: {
+                  title: { type: "string", description: "Embed title (max 256 characters)" },
+                  description: { type: "string", description: "Embed description (max 4096 characters)" },
+                  url: { type: "string", description: "URL the title links to" },
+                  color: { type: "string", description: "Hex color code (e.g., #3498db)" },
+                  fields: {
+                    type: "array",
+                    description: "Up to 25 fields",
+                    items: {
+                      type: "object",
+                      properties: {
+                        name: { type: "string", description: "Field name (max 256 characters)" },
+                        value: { type: "string", description: "Field value (max 1024 characters)" },
+                        inline: { type: "boolean", description: "Display the field inline" },
+                      },
+                      required: ["name", "value"],
+                    },
+                  },
+                  footer: { type: "string", description: "Footer text (max 2048 characters)" },
+                  imageUrl: { type: "string", description: "URL of a large image" },
+                  thumbnailUrl: { type: "string", description: "URL of a thumbnail image" },
+                  timestamp: { type: "string", description: "ISO 8601 timestamp shown in the footer" },
+                },
+              },
+            },
+            replyTo: {
+              type: "string",
+              description: 'ID of a message in the same channel to reply to',
+            },
+            files: {
+              type: "array",
+              items: { type: "string" },
+              description: 'Paths of files to attach, relative to DISCORD_ATTACHMENT_DIR (max 10)',
+            },
+            allowedMentions: {
+              type: "object",
+              description: 'Which mentions may ping (default: users only, never @everyone or roles)',
+              properties: {
+                parse: {
+                  type: "array",
+                  items: { type: "string", enum: ["users", "roles", "everyone"] },
+                  description: 'Mention types to allow from the content',
+                },
+                users: { type: "array", items: { type: "string" }, description: 'Specific user IDs that may be pinged' },
+                roles: { type: "array", items: { type: "string" }, description: 'Specific role IDs that may be pinged' },
+                repliedUser: { type: "boolean", description: 'Whether to ping the author of the replied-to message' },
+              },
+            },
+            at: {
+              type: "string",
+              description: 'Send once at this ISO 8601 timestamp with an offset (e.g., "2024-05-01T09:30:00+02:00")',
+            },
+            cron: {
+              type: "string",
+              description: 'Send repeatedly on this cron schedule: minute hour day-of-month month day-of-week (e.g., "30 9 * * 1-5" for weekdays at 9:30)',
+            },
+            timeZone: {
+              type: "string",
+              description: 'IANA time zone the cron schedule is evaluated in (default UTC)',
+              default: "UTC",
+            },
+            catchUp: {
+              type: "string",
+              enum: ["run-once", "skip"],
+              description: 'Runs missed while the server was offline: "run-once" sends a single catch-up message at startup, "skip" drops them (default run-once)',
+              default: "run-once",
+            },
+          },
+          required: ["channel"],
+        },
+      },
+      {
+        name: "list-scheduled-messages",
+        description: "List scheduled and recurring messages with their next run time and last result",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Only list schedules in this server (name or ID)',
+            },
+            channel: {
+              type: "string",
+              description: 'Only list schedules for this channel (name or ID)',
+            },
+            includeFinished: {
+              type: "boolean",
+              description: 'Also list one-shot schedules that were sent, failed or missed',
+              default: false,
+            },
+          },
+          required: [],
+        },
+      },
+      {
+        name: "cancel-scheduled-message",
+        description: "Cancel a scheduled or recurring message",
+        inputSchema: {
+          type: "object",
+          properties: {
+            id: {
+              type: "string",
+              description: 'ID of the scheduled message to cancel',
+            },
+          },
+          required: ["id"],
+        },
+      },
+      // --- End Scheduled Message Tools ---
+      // --- Reaction and Poll Tools ---
+      {
+        name: "add-reaction",
+        description: "React to a message with a unicode or custom server emoji",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            channel: {
+              type: "string",
+              description: 'Channel name (e.g., "general") or ID',
+            },
+            messageId: {
+              type: "string",
+              description: 'ID of the message',
+            },
+            emoji: {
+              type: "string",
+              description: 'Unicode emoji (e.g., "👍") or custom server emoji by name (e.g., "partyparrot"), name:id or mention',
+            },
+          },
+          required: ["channel", "messageId", "emoji"],
+        },
+      },
+      {
+        name: "remove-reaction",
+        description: "Remove the bot's reaction, or another user's reaction, from a message",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            channel: {
+              type: "string",
+              description: 'Channel name (e.g., "general") or ID',
+            },
+            messageId: {
+              type: "string",
+              description: 'ID of the message',
+            },
+            emoji: {
+              type: "string",
+              description: 'Unicode emoji (e.g., "👍") or custom server emoji by name (e.g., "partyparrot"), name:id or mention',
+            },
+            user: {
+              type: "string",
+              description: "Remove this user's reaction instead of the bot's own (requires Manage Messages)",
+            },
+          },
+          required: ["channel", "messageId", "emoji"],
+        },
+      },
+      {
+        name: "list-reactions",
+        description: "List the reactions on a message with per-emoji counts and the users who reacted",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            channel: {
+              type: "string",
+              description: 'Channel name (e.g., "general") or ID',
+            },
+            messageId: {
+              type: "string",
+              description: 'ID of the message',
+            },
+            emoji: {
+              type: "string",
+              description: 'Only list this emoji',
+            },
+            usersLimit: {
+              type: "number",
+              description: 'Maximum number of users to list per emoji (default 100, max 1000, 0 for counts only)',
+              default: 100,
+            },
+          },
+          required: ["channel", "messageId"],
+        },
+      },
+      {
+        name: "create-poll",
+        description: "Post a native Discord poll with up to 10 answers",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            channel: {
+              type: "string",
+              description: 'Channel name (e.g., "general") or ID',
+            },
+            question: {
+              type: "string",
+              description: 'The poll question (max 300 characters)',
+            },
+            answers: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  text: { type: "string", description: "Answer text (max 55 characters)" },
+                  emoji: { type: "string", description: "Optional unicode or custom server emoji shown with the answer" },
+                },
+                required: ["text"],
+              },
+              description: 'Between 1 and 10 answers',
+            },
+            durationHours: {
+              type: "number",
+              description: 'How long the poll stays open, in hours (default 24, max 768)',
+              default: 24,
+            },
+            allowMultiselect: {
+              type: "boolean",
+              description: 'Whether voters may pick more than one answer',
+              default: false,
+            },
+          },
+          required: ["channel", "question", "answers"],
+        },
+      },
+      {
+        name: "get-poll-results",
+        description: "Get the vote counts of a poll, and optionally who voted for each answer",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            channel: {
+              type: "string",
+              description: 'Channel name (e.g., "general") or ID',
+            },
+            messageId: {
+              type: "string",
+              description: 'ID of the message containing the poll',
+            },
+            includeVoters: {
+              type: "boolean",
+              description: 'Also list who voted for each answer',
+              default: false,
+            },
+          },
+          required: ["channel", "messageId"],
+        },
+      },
+      // --- End Reaction and Poll Tools ---
+      // --- AutoMod Tools ---
+      {
+        name: "list-automod-rules",
+        description: "List the AutoMod rules of a server with their triggers, actions and exemptions",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+          },
+          required: [],
+        },
+      },
+      {
+        name: "create-automod-rule",
+        description: "Create an AutoMod rule with a keyword, keyword-preset, spam or mention-spam trigger",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            name: {
+              type: "string",
+              description: 'Name of the rule',
+            },
+            trigger: {
+              type: "object",
+              description: 'What the rule matches. Settings are prefixed with the trigger types that support them.',
+              properties: {
+                type: { type: "string", enum: ["keyword", "keyword-preset", "spam", "mention-spam"], description: "Trigger type" },
+                keywords: { type: "array", items: { type: "string" }, description: "keyword: words or phrases to match; * matches any characters at the start or end" },
+                regexPatterns: { type: "array", items: { type: "string" }, description: "keyword: regular expressions to match (max 10)" },
+                presets: { type: "array", items: { type: "string", enum: ["profanity", "sexual-content", "slurs"] }, description: "keyword-preset: Discord-maintained word lists" },
+                allowList: { type: "array", items: { type: "string" }, description: "keyword, keyword-preset: words or phrases that never trigger the rule" },
+                mentionLimit: { type: "number", description: "mention-spam: maximum unique role and user mentions per message (max 50)" },
+                mentionRaidProtection: { type: "boolean", description: "mention-spam: also detect mention raids automatically" },
+              },
+              required: ["type"],
+            },
+            actions: {
+              type: "object",
+              description: 'What happens when the rule matches (at least one action)',
+              properties: {
+                block: { type: "boolean", description: "Block the message" },
+                blockMessage: { type: "string", description: "Explanation shown to the member when their message is blocked (implies block, max 150 characters)" },
+                alertChannel: { type: "string", description: "Channel to post an alert to (name or ID)" },
+                timeoutSeconds: { type: "number", description: "Time the member out for this many seconds (keyword and mention-spam rules only, max 2419200)" },
+              },
+            },
+            exemptRoles: {
+              type: "array",
+              items: { type: "string" },
+              description: 'Roles the rule does not apply to (names or IDs, max 20)',
+            },
+            exemptChannels: {
+              type: "array",
+              items: { type: "string" },
+              description: 'Channels or categories the rule does not apply to (names or IDs, max 50)',
+            },
+            enabled: {
+              type: "boolean",
+              description: 'Whether the rule is active',
+              default: true,
+            },
+            reason: {
+              type: "string",
+              description: 'Reason recorded in the server audit log',
+            },
+          },
+          required: ["name", "trigger", "actions"],
+        },
+      },
+      {
+        name: "update-automod-rule",
+        description: "Update an AutoMod rule's name, trigger settings, actions or exemptions",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            rule: {
+              type: "string",
+              description: 'Rule name or ID',
+            },
+            name: {
+              type: "string",
+              description: 'New name for the rule',
+            },
+            trigger: {
+              type: "object",
+              description: "Trigger settings to change; the trigger type itself cannot change",
+              properties: {
+                keywords: { type: "array", items: { type: "string" }, description: "keyword: words or phrases to match; * matches any characters at the start or end" },
+                regexPatterns: { type: "array", items: { type: "string" }, description: "keyword: regular expressions to match (max 10)" },
+                presets: { type: "array", items: { type: "string", enum: ["profanity", "sexual-content", "slurs"] }, description: "keyword-preset: Discord-maintained word lists" },
+                allowList: { type: "array", items: { type: "string" }, description: "keyword, keyword-preset: words or phrases that never trigger the rule" },
+                mentionLimit: { type: "number", description: "mention-spam: maximum unique role and user mentions per message (max 50)" },
+                mentionRaidProtection: { type: "boolean", description: "mention-spam: also detect mention raids automatically" },
+              },
+            },
+            actions: {
+              type: "object",
+              description: 'Replacement actions (at least one action)',
+              properties: {
+                block: { type: "boolean", description: "Block the message" },
+                blockMessage: { type: "string", description: "Explanation shown to the member when their message is blocked (implies block, max 150 characters)" },
+                alertChannel: { type: "string", description: "Channel to post an alert to (name or ID)" },
+                timeoutSeconds: { type: "number", description: "Time the member out for this many seconds (keyword and mention-spam rules only, max 2419200)" },
+              },
+            },
+            exemptRoles: {
+              type: "array",
+              items: { type: "string" },
+              description: 'Replacement list of roles the rule does not apply to (names or IDs, max 20)',
+            },
+            exemptChannels: {
+              type: "array",
+              items: { type: "string" },
+              description: 'Replacement list of channels or categories the rule does not apply to (names or IDs, max 50)',
+            },
+            reason: {
+              type: "string",
+              description: 'Reason recorded in the server audit log',
+            },
+          },
+          required: ["rule"],
+        },
+      },
+      {
+        name: "set-automod-rule-enabled",
+        description: "Enable or disable an AutoMod rule",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            rule: {
+              type: "string",
+              description: 'Rule name or ID',
+            },
+            enabled: {
+              type: "boolean",
+              description: 'true to enable the rule, false to disable it',
+            },
+            reason: {
+              type: "string",
+              description: 'Reason recorded in the server audit log',
+            },
+          },
+          required: ["rule", "enabled"],
+        },
+      },
+      {
+        name: "delete-automod-rule",
+        description: "Delete an AutoMod rule",
+        inputSchema: {
+          type: "object",
+          properties: {
+            server: {
+              type: "string",
+              description: 'Server name or ID (optional if bot is only in one server)',
+            },
+            rule: {
+              type: "string",
+              description: 'Rule name or ID',
+            },
+            reason: {
+              type: "string",
+              description: 'Reason recorded in the server audit log',
+            },
+          },
+          required: ["rule"],
+        },
+      },
+      // --- End AutoMod Tools ---
+    ].map(addConfirmationArguments).map(addBotArgument).map(addFormatArgument).map(addOutputSchema),
+  };
+}
+
+// Execute a single tool call
+async function callTool(name: string, args: Record<string, unknown> | undefined, onProgress?: ProgressReporter): Promise<ToolOutput> {
+  await enforcePolicy(name, args);
+  const confirmation = await checkConfirmation(name, args);
+  if ('preview' in confirmation) return confirmation.preview;
+  const { targetIds } = confirmation;
+
+  switch (name) {
+    case "send-message": {
+      const { server: serverIdentifier, channel: channelIdentifier, ...input } = SendMessageSchema.parse(args);
+      const channel = await findChannel(channelIdentifier, serverIdentifier);
+
+      const sent = await botFor(channel.guild.id).sendMessage(channel.id, await buildMessagePayload(channel, input));
+      return {
+        summary: `Message sent to #${channel.name} in ${channel.guild.name}.`,
+        data: { messageId: sent.id, channelId: channel.id, channel: channel.name, server: channel.guild.name },
+      };
+    }
+
+    case "read-messages": {
+      const { server: serverIdentifier, channel: channelIdentifier, limit, before, after, around, since, until } = ReadMessagesSchema.parse(args);
+      const channel = await findChannel(channelIdentifier, serverIdentifier);
+
+      const { messages, nextCursor } = await fetchMessageHistory(channel, {
+        limit,
+        before,
+        after,
+        around,
+        since: since ? new Date(since) : undefined,
+        until: until ? new Date(until) : undefined,
+      });
+      const formattedMessages = messages.map(msg => ({
+        id: msg.id,
+        channel: `#${channel.name}`,
+        server: channel.guild.name,
+        author: msg.author.tag,
+        content: msg.content,
+        timestamp: msg.createdAt.toISOString(),
+      }));
+
+      return {
+        summary: `Fetched ${formattedMessages.length} message(s) from #${channel.name}.`,
+        data: { messages: formattedMessages, nextCursor },
+      };
+    }
+
+    // New tool handlers
+    case "list-channels": {
+      const { server: serverIdentifier, includeThreads, tree } = ListChannelsSchema.parse(args);
+      const guild = await findGuild(serverIdentifier);
+      const bot = botFor(guild.id);
+
+      if (tree) {
+        const describe = (c: ChannelInfo) => ({ id: c.id, name: c.name, type: channelTypeName(c.type), position: c.position });
+        const byPosition = (a: ChannelInfo, b: ChannelInfo) => a.position - b.position;
+        const channels = bot.channels(guild.id).filter(c => !c.thread && isChannelAllowed(c));
+        const topLevel = channels
+          .filter(c => c.type !== ChannelType.GuildCategory && !c.parentId)
+          .sort(byPosition);
+        const categories = channels
+          .filter(c => c.type === ChannelType.GuildCategory)
+          .sort(byPosition);
+
+        const channelTree = [
+          { category: null, channels: topLevel.map(describe) },
+          ...categories.map(category => ({
+            category: describe(category),
+            channels: channels.filter(c => c.parentId === category.id).sort(byPosition).map(describe),
+          })),
+        ];
+
+        return {
+          summary: `Channels in server "${guild.name}" grouped by category.`,
+          data: { server: guild.name, tree: channelTree },
+        };
+      }
+
+      if (includeThreads) {
+        await bot.fetchActiveThreads(guild.id);
+      }
+      const textChannels = bot.channels(guild.id)
+        .filter(c => (isTextBasedType(c.type) || c.type === ChannelType.GuildForum) && (includeThreads || !c.thread) && isChannelAllowed(c))
+        .map(c => ({
+          id: c.id,
+          name: c.name,
+          type: channelTypeName(c.type),
+          ...(c.thread ? { parent: c.parent ? `#${c.parent.name}` : null } : {}),
+        }));
+
+      return {
+        summary: `Text channels in server "${guild.name}".`,
+        data: { server: guild.name, channels: textChannels },
+      };
+    }
+
+    case "list-servers": {
+      ListServersSchema.parse(args); // Validate no args are passed
+      const guilds = Array.from(selectedGuilds().values()).filter(isGuildAllowed).map(g => ({
+        id: g.id,
+        name: g.name,
+        // The first bot listed is the one tools use for this server unless a call names another
+        bots: botProfiles.filter(profile => profile.bot.guild(g.id)).map(profile => profile.name),
+      }));
+      return {
+        summary: `Connected to ${guilds.length} server(s) with ${botProfiles.length} bot(s).`,
+        data: { servers: guilds },
+      };
+    }
+
+    case "create-channel": {
+      const { server: serverIdentifier, channelName, type, category: categoryIdentifier, topic, slowmode, nsfw, position } = CreateChannelSchema.parse(args);
+      const guild = await findGuild(serverIdentifier);
+      const channelType = CREATABLE_CHANNEL_TYPES[type];
+      assertChannelSettingsSupported(channelType, { topic, slowmode, nsfw, parent: categoryIdentifier });
+      const parent = categoryIdentifier ? await findCategory(categoryIdentifier, guild.id) : undefined;
+
+      // Check if a channel of the same type already exists in the same category (case-insensitive)
+      const existingChannel = botFor(guild.id).channels(guild.id).find(
+        c => c.name.toLowerCase() === channelName.toLowerCase() && c.type === channelType && !c.thread && c.parentId === (parent?.id ?? null)
+      );
+      if (existingChannel) {
+        throw new ToolError('INVALID_ARGUMENTS', `A ${type} channel named "${channelName}" already exists ${parent ? `in category "${parent.name}"` : 'at the top level'} of server "${guild.name}".`);
+      }
+
+      const createdChannel = await botFor(guild.id).createChannel(guild.id, {
+        name: channelName,
+        type: channelType,
+        parentId: parent?.id,
+        topic,
+        rateLimitPerUser: slowmode,
+        nsfw,
+        position,
+      });
+
+      return {
+        summary: `Successfully created ${type} channel #${createdChannel.name}${parent ? ` in category "${parent.name}"` : ''} in server "${guild.name}".`,
+        data: { channelId: createdChannel.id, channel: createdChannel.name, type, category: parent?.name ?? null, server: guild.name },
+      };
+    }
+
+    // --- Channel Management Handlers ---
+    case "update-channel": {
+      const { server: serverIdentifier, channel: channelIdentifier, newName, topic, slowmode, nsfw } = UpdateChannelSchema.parse(args);
+      const channel = await findAnyChannel(channelIdentifier, serverIdentifier);
+      assertChannelSettingsSupported(channel.type, { topic, slowmode, nsfw });
+
+      const updates: ChannelEditOptions = {};
+      if (newName !== undefined) updates.name = newName;
+      if (topic !== undefined) updates.topic = topic;
+      if (slowmode !== undefined) updates.rateLimitPerUser = slowmode;
+      if (nsfw !== undefined) updates.nsfw = nsfw;
+
+      if (Object.keys(updates).length === 0) {
+        throw new ToolError('INVALID_ARGUMENTS', "No update parameters provided for the channel.");
+      }
+
+      const updatedChannel = await botFor(channel.guild.id).editChannel(channel.id, updates);
+      return {
+        summary: `Successfully updated ${channelTypeName(updatedChannel.type)} channel #${updatedChannel.name} in server "${updatedChannel.guild.name}".`,
+        data: { channelId: updatedChannel.id, channel: updatedChannel.name, type: channelTypeName(updatedChannel.type), server: updatedChannel.guild.name },
+      };
+    }
+
+    case "delete-channel": {
+      const { server: serverIdentifier, channel: channelIdentifier, reason } = DeleteChannelSchema.parse(args);
+      const channel = await findAnyChannel(channelIdentifier, serverIdentifier);
+      const bot = botFor(channel.guild.id);
+      const orphaned = channel.type === ChannelType.GuildCategory
+        ? bot.channels(channel.guild.id).filter(c => c.parentId === channel.id).map(c => `#${c.name}`)
+        : [];
+
+      await bot.deleteChannel(channel.id, reason);
+      return {
+        summary: `Successfully deleted ${channelTypeName(channel.type)} channel #${channel.name} from server "${channel.guild.name}".` +
+          (orphaned.length > 0 ? ` Its ${orphaned.length} channel(s) (${orphaned.join(', ')}) are now outside any category.` : ''),
+        data: { channelId: channel.id, channel: channel.name, type: channelTypeName(channel.type), server: channel.guild.name, channelsLeftWithoutCategory: orphaned },
+      };
+    }
+
+    case "move-channel": {
+      const { server: serverIdentifier, channel: channelIdentifier, category: categoryIdentifier, position, syncPermissions } = MoveChannelSchema.parse(args);
+      const found = await findAnyChannel(channelIdentifier, serverIdentifier);
+
+      const changes: ChannelEditOptions = { position };
+      if (categoryIdentifier !== undefined) {
+        if (found.type === ChannelType.GuildCategory) {
+          throw new ToolError('INVALID_ARGUMENTS', `#${found.name} is a category; categories cannot be nested.`);
+        }
+        const parent = categoryIdentifier === null ? null : await findCategory(categoryIdentifier, found.guild.id);
+        changes.parentId = parent?.id ?? null;
+        changes.lockPermissions = syncPermissions;
+      }
+      const channel = await botFor(found.guild.id).editChannel(found.id, changes);
+
+      const parentName = channel.parent ? `category "${channel.parent.name}"` : 'no category';
+      return {
+        summary: `Successfully moved #${channel.name} to ${parentName} at position ${channel.position} in server "${channel.guild.name}".`,
+        data: { channelId: channel.id, channel: channel.name, category: channel.parent?.name ?? null, position: channel.position, server: channel.guild.name },
+      };
+    }
+
+    case "clone-channel": {
+      const { server: serverIdentifier, channel: channelIdentifier, newName } = CloneChannelSchema.parse(args);
+      const channel = await findAnyChannel(channelIdentifier, serverIdentifier);
+
+      const clonedChannel = await botFor(channel.guild.id).cloneChannel(channel.id, newName ?? channel.name);
+      return {
+        summary: `Successfully cloned #${channel.name} into ${channelTypeName(clonedChannel.type)} channel #${clonedChannel.name} in server "${channel.guild.name}".`,
+        data: { sourceChannelId: channel.id, channelId: clonedChannel.id, channel: clonedChannel.name, type: channelTypeName(clonedChannel.type), server: channel.guild.name },
+      };
+    }
+    // --- End Channel Management Handlers ---
+
+    case "read-multiple-channels": {
+      const { server: serverIdentifier, channels: channelIdentifiers, limitPerChannel, timeBudgetSeconds } = ReadMultipleChannelsSchema.parse(args);
+      const guild = await findGuild(serverIdentifier);
+
+      const targetChannels = await resolveTextChannels(guild, channelIdentifiers);
+
+      if (targetChannels.length === 0) {
+        return {
+          summary: `No text channels found or specified in server "${guild.name}".`,
+          data: { server: guild.name, channelCount: 0, messages: [], incomplete: false, skippedChannels: [] },
+        };
+      }
+
+      const bot = botFor(guild.id);
+      const { settled, skipped } = await scheduleRequests(
+        bot,
+        targetChannels,
+        channel => bot.fetchMessages(channel.id, { limit: limitPerChannel }),
+        { budgetMs: timeBudgetMs(timeBudgetSeconds) },
+      );
+
+      const allMessages: any[] = [];
+      for (const outcome of settled) {
+        const channel = outcome.item;
+        if ('error' in outcome) {
+          // Log error fetching from a specific channel but continue with others
+          console.error(`Error fetching messages from #${channel.name}:`, outcome.error);
+          allMessages.push({
+            channel: `#${channel.name}`,
+            server: channel.guild.name,
+            error: `Failed to fetch messages: ${outcome.error instanceof Error ? outcome.error.message : 'Unknown error'}`,
+          });
+          continue;
+        }
+        const formattedMessages = outcome.value.map(msg => ({
+          channel: `#${channel.name}`,
+          server: channel.guild.name,
+          author: msg.author.tag,
+          content: msg.content,
+          timestamp: msg.createdAt.toISOString(),
+        }));
+        allMessages.push(...formattedMessages);
+      }
+
+      // Sort messages by timestamp descending (newest first)
+      allMessages.sort((a, b) => (b.timestamp && a.timestamp ? new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime() : 0));
+
+      const skippedChannels = skipped.map(channel => `#${channel.name}`);
+      return {
+        summary: `Fetched ${allMessages.length} message(s) from ${settled.length} of ${targetChannels.length} channel(s) in "${guild.name}".` +
+          (skipped.length ? ` Ran out of time before reading ${skippedChannels.join(', ')}.` : ''),
+        data: {
+          server: guild.name,
+          channelCount: targetChannels.length,
+          messages: allMessages,
+          incomplete: skipped.length > 0,
+          skippedChannels,
+        },
+      };
+    }
+
+    // --- Role Management Handlers ---
+    case "list-roles": {
+      const { server: serverIdentifier } = ListRolesSchema.parse(args);
+      const guild = await findGuild(serverIdentifier);
+      const roles = (await botFor(guild.id).fetchRoles(guild.id)).map(role => ({ // Fetch so the list is up-to-date
+        id: role.id,
+        name: role.name,
+        color: roleHexColor(role),
+        position: role.position,
+        permissions: permissionNames(role.permissions),
+        mentionable: role.mentionable,
+      })); //.sort((a, b) => b.position - a.position); // Sort by position
+
+      return {
+        summary: `${roles.length} role(s) in server "${guild.name}".`,
+        data: { server: guild.name, roles },
+      };
+    }
+
+    case "assign-role": {
+      const { server: serverIdentifier, user: userIdentifier, role: roleIdentifier, reason } = AssignRoleSchema.parse(args);
+      const guild = await findGuild(serverIdentifier);
+      const member = await findMember(userIdentifier, guild.id);
+      const role = await findRole(roleIdentifier, guild.id);
+      await assertRoleManageable(role, 'assign');
+
+      if (hasRoleId(member, role.id)) {
+        throw new ToolError('INVALID_ARGUMENTS', `User ${member.user.tag} already has the role "${role.name}".`);
+      }
+
+      await botFor(guild.id).addMemberRole(guild.id, member.id, role.id, reason ?? DEFAULT_AUDIT_REASON);
+      return {
+        summary: `Successfully assigned role "${role.name}" to user ${member.user.tag} in server "${guild.name}".`,
+        data: { roleId: role.id, role: role.name, userId: member.id, user: member.user.tag, server: guild.name },
+      };
+    }
+
+    case "remove-role": {
+      const { server: serverIdentifier, user: userIdentifier, role: roleIdentifier, reason } = RemoveRoleSchema.parse(args);
+      const guild = await findGuild(serverIdentifier);
+      const member = await findMember(userIdentifier, guild.id);
+      const role = await findRole(roleIdentifier, guild.id);
+      await assertRoleManageable(role, 'remove');
+
+      if (!hasRoleId(member, role.id)) {
+        throw new ToolError('INVALID_ARGUMENTS', `User ${member.user.tag} does not have the role "${role.name}".`);
+      }
+
+      await botFor(guild.id).removeMemberRole(guild.id, member.id, role.id, reason ?? DEFAULT_AUDIT_REASON);
+      return {
+        summary: `Successfully removed role "${role.name}" from user ${member.user.tag} in server "${guild.name}".`,
+        data: { roleId: role.id, role: role.name, userId: member.id, user: member.user.tag, server: guild.name },
+      };
+    }
+
+    case "create-role": {
+      const { server: serverIdentifier, roleName, color, permissions, mentionable, reason } = CreateRoleSchema.parse(args);
+      const guild = await findGuild(serverIdentifier);
+
+      // Check if role already exists (case-insensitive)
+      const existingRole = botFor(guild.id).roles(guild.id).find(r => r.name.toLowerCase() === roleName.toLowerCase());
+      if (existingRole) {
+        throw new ToolError('INVALID_ARGUMENTS', `A role named "${roleName}" already exists in server "${guild.name}".`);
+      }
+
+      // Validate permissions if provided
+      const validatedPermissions = permissions ? parsePermissionNames(permissions) : undefined;
+
+      const createdRole = await botFor(guild.id).createRole(guild.id, {
+        name: roleName,
+        color: color !== undefined ? resolveColor(color as ColorResolvable) : undefined, // Type assertion
+        permissions: validatedPermissions ? combinePermissions(validatedPermissions) : undefined,
+        mentionable: mentionable,
+        reason: reason ?? DEFAULT_AUDIT_REASON,
+      });
+
+      return {
+        summary: `Successfully created role "${createdRole.name}" in server "${guild.name}".`,
+        data: { roleId: createdRole.id, role: createdRole.name, server: guild.name },
+      };
+    }
+
+    case "delete-role": {
+      const { server: serverIdentifier, role: roleIdentifier, reason } = DeleteRoleSchema.parse(args);
+      const guild = await findGuild(serverIdentifier);
+      const role = await findRole(roleIdentifier, guild.id);
+      await assertRoleManageable(role, 'delete');
+
+      await botFor(guild.id).deleteRole(guild.id, role.id, reason ?? DEFAULT_AUDIT_REASON);
+      return {
+        summary: `Successfully deleted role "${role.name}" from server "${guild.name}".`,
+        data: { roleId: role.id, role: role.name, server: guild.name },
+      };
+    }
+
+    case "update-role": {
+      const { server: serverIdentifier, role: roleIdentifier, newName, newColor, newPermissions, newMentionable, reason } = UpdateRoleSchema.parse(args);
+      const guild = await findGuild(serverIdentifier);
+      const role = await findRole(roleIdentifier, guild.id);
+      await assertRoleManageable(role, 'update');
+
+      const updates: RoleOptions = {};
+      if (newName !== undefined) updates.name = newName;
+      if (newColor !== undefined) updates.color = resolveColor(newColor as ColorResolvable);
+      if (newMentionable !== undefined) updates.mentionable = newMentionable;
+
+      if (newPermissions !== undefined) {
+        updates.permissions = combinePermissions(parsePermissionNames(newPermissions));
+      }
+
+      if (Object.keys(updates).length === 0) {
+        throw new ToolError('INVALID_ARGUMENTS', "No update parameters provided for the role.");
+      }
+
+      // Apply updates with reason
+      const updatedRole = await botFor(guild.id).editRole(guild.id, role.id, {
+        ...updates,
+        reason: reason ?? DEFAULT_AUDIT_REASON,
+      });
+
+      return {
+        summary: `Successfully updated role "${updatedRole.name}" in server "${guild.name}".`,
+        data: { roleId: updatedRole.id, role: updatedRole.name, server: guild.name },
+      };
+    }
+
+    case "check-role-manageability": {
+      const { server: serverIdentifier, role: roleIdentifier } = CheckRoleManageabilitySchema.parse(args);
+      const guild = await findGuild(serverIdentifier);
+      const role = await findRole(roleIdentifier, guild.id);
+      const analysis = await analyzeRoleManageability(role);
+
+      return {
+        summary: `Manageability of role "${role.name}" in server "${guild.name}".`,
+        data: { ...analysis },
+      };
+    }
+    // --- End Role Management Handlers ---
+
+    // --- Member Count Handlers ---
+    case "get-member-count": {
+      const { server: serverIdentifier } = GetMemberCountSchema.parse(args);
+      const guild = await findGuild(serverIdentifier);
+      // The gateway keeps memberCount current; with_counts adds Discord's approximate counts, including who is online
+      const counted = await botFor(guild.id).fetchGuildCounts(guild.id);
+      const memberCount = guild.memberCount;
+      const approximatePresenceCount = counted.approximatePresenceCount;
+
+      return {
+        summary: `Server "${guild.name}" has ${memberCount} members` +
+          (approximatePresenceCount !== null ? `, about ${approximatePresenceCount} of them online.` : '.'),
+        data: { server: guild.name, memberCount, approximateMemberCount: counted.approximateMemberCount, approximatePresenceCount },
+      };
+    }
+
+    case "get-role-member-count": {
+      const { server: serverIdentifier, role: roleIdentifier, includeMembers, timeBudgetSeconds } = GetRoleMemberCountSchema.parse(args);
+      const guild = await findGuild(serverIdentifier);
+      const role = await findRole(roleIdentifier, guild.id);
+
+      // Discord has no per-role count, so count the cached members; the full list is only fetched once per server
+      const complete = await loadAllMembers(guild, timeBudgetMs(timeBudgetSeconds));
+      const membersWithRole = roleMembers(role);
+
+      return {
+        summary: `There are ${complete ? '' : 'at least '}${membersWithRole.length} members with the role "${role.name}" in server "${guild.name}".` +
+          (complete ? '' : ' The member list was still loading when the time budget ran out.'),
+        data: {
+          server: guild.name,
+          role: role.name,
+          memberCount: membersWithRole.length,
+          members: includeMembers ? membersWithRole.map(summarizeMember) : undefined,
+          incomplete: !complete,
+        },
+      };
+    }
+    // --- End Member Count Handlers ---
+
+    // --- Moderation Handlers ---
+    case "kick-member": {
+      const { server: serverIdentifier, user: userIdentifier, reason } = KickMemberSchema.parse(args);
+      const guild = await findGuild(serverIdentifier);
+      const member = await findMember(userIdentifier, guild.id);
+      await assertCanModerate(member, 'kick');
+
+      await botFor(guild.id).kickMember(guild.id, member.id, reason);
+      return {
+        summary: `Successfully kicked ${member.user.tag} from server "${guild.name}". Reason: ${reason}`,
+        data: { userId: member.id, user: member.user.tag, server: guild.name, reason },
+      };
+    }
+
+    case "ban-member": {
+      const { server: serverIdentifier, user: userIdentifier, reason, deleteMessageDays } = BanMemberSchema.parse(args);
+      const guild = await findGuild(serverIdentifier);
+      const deleteMessageSeconds = deleteMessageDays * 24 * 60 * 60;
+
+      let member: MemberInfo | undefined;
+      try {
+        member = await findMember(userIdentifier, guild.id);
+      } catch (error) {
+        // Users who already left can still be banned by ID
+        if (!/^\d{17,20}$/.test(userIdentifier.replace(/[<@!>]/g, ''))) throw error;
+      }
+
+      if (member) {
+        await assertCanModerate(member, 'ban');
+        await botFor(guild.id).banUser(guild.id, member.id, { reason, deleteMessageSeconds });
+        return {
+          summary: `Successfully banned ${member.user.tag} from server "${guild.name}"${deleteMessageDays > 0 ? ` and deleted their messages from the last ${deleteMessageDays} day(s)` : ''}. Reason: ${reason}`,
+          data: { userId: member.id, user: member.user.tag, server: guild.name, reason, deleteMessageDays, wasMember: true },
+        };
+      }
+
+      const me = await botFor(guild.id).fetchMe(guild.id);
+      if (!hasPermission(memberPermissions(me), PermissionsBitField.Flags.BanMembers)) {
+        throw new ToolError('MISSING_PERMISSIONS', `Cannot ban ${userIdentifier}: the bot is missing the "BanMembers" permission in server "${guild.name}".`);
+      }
+      const userId = userIdentifier.replace(/[<@!>]/g, '');
+      await botFor(guild.id).banUser(guild.id, userId, { reason, deleteMessageSeconds });
+      return {
+        summary: `Successfully banned user ID ${userId} (not currently a member) from server "${guild.name}". Reason: ${reason}`,
+        data: { userId, user: null, server: guild.name, reason, deleteMessageDays, wasMember: false },
+      };
+    }
+
+    case "unban-user": {
+      const { server: serverIdentifier, user: userIdentifier, reason } = UnbanUserSchema.parse(args);
+      const guild = await findGuild(serverIdentifier);
+      const bot = botFor(guild.id);
+      const me = await bot.fetchMe(guild.id);
+      if (!hasPermission(memberPermissions(me), PermissionsBitField.Flags.BanMembers)) {
+        throw new ToolError('MISSING_PERMISSIONS', `Cannot unban ${userIdentifier}: the bot is missing the "BanMembers" permission in server "${guild.name}".`);
+      }
+
+      const bans = await bot.fetchBans(guild.id);
+      const cleanedIdentifier = userIdentifier.replace(/[<@!>]/g, '').toLowerCase();
+      const ban = bans.find(b => b.user.id === cleanedIdentifier) ?? bans.find(b =>
+        b.user.tag.toLowerCase() === cleanedIdentifier || b.user.username.toLowerCase() === cleanedIdentifier
+      );
+      if (!ban) {
+        throw new ToolError('NOT_FOUND', `User "${userIdentifier}" is not banned in server "${guild.name}".`);
+      }
+
+      await bot.unbanUser(guild.id, ban.user.id, reason);
+      return {
+        summary: `Successfully unbanned ${ban.user.tag} in server "${guild.name}". Reason: ${reason}`,
+        data: { userId: ban.user.id, user: ban.user.tag, server: guild.name, reason },
+      };
+    }
+
+    case "timeout-member": {
+      const { server: serverIdentifier, user: userIdentifier, durationMinutes, reason } = TimeoutMemberSchema.parse(args);
+      const guild = await findGuild(serverIdentifier);
+      const member = await findMember(userIdentifier, guild.id);
+      await assertCanModerate(member, 'timeout');
+
+      const updated = await botFor(guild.id).timeoutMember(guild.id, member.id, new Date(Date.now() + durationMinutes * 60 * 1000), reason);
+      return {
+        summary: `Successfully timed out ${member.user.tag} in server "${guild.name}" for ${durationMinutes} minute(s). Reason: ${reason}`,
+        data: {
+          userId: member.id,
+          user: member.user.tag,
+          server: guild.name,
+          durationMinutes,
+          until: updated.communicationDisabledUntil?.toISOString() ?? null,
+          reason,
+        },
+      };
+    }
+
+    case "remove-timeout": {
+      const { server: serverIdentifier, user: userIdentifier, reason } = RemoveTimeoutSchema.parse(args);
+      const guild = await findGuild(serverIdentifier);
+      const member = await findMember(userIdentifier, guild.id);
+
+      if (!isTimedOut(member)) {
+        throw new ToolError('INVALID_ARGUMENTS', `User ${member.user.tag} is not currently timed out in server "${guild.name}".`);
+      }
+      await assertCanModerate(member, 'timeout');
+
+      await botFor(guild.id).timeoutMember(guild.id, member.id, null, reason);
+      return {
+        summary: `Successfully removed the timeout from ${member.user.tag} in server "${guild.name}". Reason: ${reason}`,
+        data: { userId: member.id, user: member.user.tag, server: guild.name, reason },
+      };
+    }
+
+    case "list-bans": {
+      const { server: serverIdentifier } = ListBansSchema.parse(args);
+      const guild = await findGuild(serverIdentifier);
+      const bot = botFor(guild.id);
+      const me = await bot.fetchMe(guild.id);
+      if (!hasPermission(memberPermissions(me), PermissionsBitField.Flags.BanMembers)) {
+        throw new ToolError('MISSING_PERMISSIONS', `Cannot list bans: the bot is missing the "BanMembers" permission in server "${guild.name}".`);
+      }
+
+      const bans = await bot.fetchBans(guild.id);
+      const banList = bans.map(ban => ({
+        id: ban.user.id,
+        user: ban.user.tag,
+        reason: ban.reason ?? null,
+      }));
+
+      return {
+        summary: `${banList.length} banned user(s) in server "${guild.name}".`,
+        data: { server: guild.name, bans: banList },
+      };
+    }
+    // --- End Moderation Handlers ---
+
+    // --- Message Management Handlers ---
+    case "edit-message": {
+      const { server: serverIdentifier, channel: channelIdentifier, messageId, message } = EditMessageSchema.parse(args);
+      const channel = await findChannel(channelIdentifier, serverIdentifier);
+      const bot = botFor(channel.guild.id);
+      const target = await bot.fetchMessage(channel.id, messageId);
+
+      if (target.author.id !== bot.user?.id) {
+        throw new ToolError('INVALID_ARGUMENTS', `Message ${messageId} was sent by ${target.author.tag}. Discord only allows the bot to edit its own messages.`);
+      }
+
+      const edited = await bot.editMessage(channel.id, messageId, message);
+      return {
+        summary: `Successfully edited message ${edited.id} in #${channel.name} in ${channel.guild.name}.`,
+        data: { messageId: edited.id, channelId: channel.id, channel: channel.name, server: channel.guild.name },
+      };
+    }
+
+    case "delete-message": {
+      const { server: serverIdentifier, channel: channelIdentifier, messageId } = DeleteMessageSchema.parse(args);
+      const channel = await findChannel(channelIdentifier, serverIdentifier);
+      const bot = botFor(channel.guild.id);
+      const target = await bot.fetchMessage(channel.id, messageId);
+
+      await bot.deleteMessage(channel.id, messageId);
+      return {
+        summary: `Successfully deleted message ${messageId} by ${target.author.tag} from #${channel.name} in ${channel.guild.name}.`,
+        data: { messageId, author: target.author.tag, channelId: channel.id, channel: channel.name, server: channel.guild.name },
+      };
+    }
+
+    case "pin-message": {
+      const { server: serverIdentifier, channel: channelIdentifier, messageId } = PinMessageSchema.parse(args);
+      const channel = await findChannel(channelIdentifier, serverIdentifier);
+      const bot = botFor(channel.guild.id);
+      const target = await bot.fetchMessage(channel.id, messageId);
+
+      if (target.pinned) {
+        throw new ToolError('INVALID_ARGUMENTS', `Message ${messageId} is already pinned in #${channel.name}.`);
+      }
+
+      await bot.setMessagePinned(channel.id, messageId, true);
+      return {
+        summary: `Successfully pinned message ${messageId} in #${channel.name} in ${channel.guild.name}.`,
+        data: { messageId, pinned: true, channelId: channel.id, channel: channel.name, server: channel.guild.name },
+      };
+    }
+
+    case "unpin-message": {
+      const { server: serverIdentifier, channel: channelIdentifier, messageId } = PinMessageSchema.parse(args);
+      const channel = await findChannel(channelIdentifier, serverIdentifier);
+      const bot = botFor(channel.guild.id);
+      const target = await bot.fetchMessage(channel.id, messageId);
+
+      if (!target.pinned) {
+        throw new ToolError('INVALID_ARGUMENTS', `Message ${messageId} is not pinned in #${channel.name}.`);
+      }
+
+      await bot.setMessagePinned(channel.id, messageId, false);
+      return {
+        summary: `Successfully unpinned message ${messageId} in #${channel.name} in ${channel.guild.name}.`,
+        data: { messageId, pinned: false, channelId: channel.id, channel: channel.name, server: channel.guild.name },
+      };
+    }
+
+    case "list-pinned-messages": {
+      const { server: serverIdentifier, channel: channelIdentifier } = ListPinnedMessagesSchema.parse(args);
+      const channel = await findChannel(channelIdentifier, serverIdentifier);
+
+      const pinned = await botFor(channel.guild.id).fetchPinnedMessages(channel.id);
+      const formattedMessages = pinned.map(msg => ({
+        id: msg.id,
+        channel: `#${channel.name}`,
+        server: channel.guild.name,
+        author: msg.author.tag,
+        content: msg.content,
+        timestamp: msg.createdAt.toISOString(),
+      }));
+
+      return {
+        summary: `${formattedMessages.length} pinned message(s) in #${channel.name}.`,
+        data: { messages: formattedMessages },
+      };
+    }
+
+    case "bulk-delete-messages": {
+      const { server: serverIdentifier, channel: channelIdentifier, ...filters } = BulkDeleteMessagesSchema.parse(args);
+      const channel = await findChannel(channelIdentifier, serverIdentifier);
+      const bot = botFor(channel.guild.id);
+      // A confirmed call deletes exactly the previewed messages; ones deleted since the preview are reported as failed
+      const missing: string[] = [];
+      let matches: MessageInfo[];
+      let scanned = 0;
+      if (targetIds) {
+        matches = [];
+        for (const messageId of targetIds) {
+          try {
+            matches.push(await bot.fetchMessage(channel.id, messageId));
+          } catch {
+            missing.push(`${messageId}: no longer exists`);
+          }
+        }
+      } else {
+        ({ matches, scanned } = await findBulkDeleteMatches(channel, filters));
+      }
+
+      if (matches.length === 0) {
+        return {
+          summary: `No matching messages found in the last ${scanned} message(s) of #${channel.name}.`,
+          data: {
+            channel: `#${channel.name}`,
+            server: channel.guild.name,
+            scanned,
+            matched: 0,
+            bulkDeleted: 0,
+            individuallyDeleted: 0,
+            failed: missing,
+          },
+        };
+      }
+
+      // Discord's bulkDelete only accepts messages younger than 14 days; older ones are deleted one at a time
+      const bulkCutoff = Date.now() - BULK_DELETE_MAX_AGE_MS;
+      const recent = matches.filter(msg => msg.createdAt.getTime() > bulkCutoff);
+      const old = matches.filter(msg => msg.createdAt.getTime() <= bulkCutoff);
+
+      let bulkDeleted = 0;
+      for (let i = 0; i < recent.length; i += 100) {
+        const chunk = recent.slice(i, i + 100);
+        if (chunk.length === 1) {
+          await bot.deleteMessage(channel.id, chunk[0].id);
+          bulkDeleted += 1;
+        } else {
+          bulkDeleted += await bot.bulkDeleteMessages(channel.id, chunk.map(msg => msg.id));
+        }
+      }
+
+      let individuallyDeleted = 0;
+      const failures = [...missing];
+      for (const msg of old) {
+        try {
+          await bot.deleteMessage(channel.id, msg.id);
+          individuallyDeleted += 1;
+        } catch (deleteError) {
+          failures.push(`${msg.id}: ${deleteError instanceof Error ? deleteError.message : 'Unknown error'}`);
+        }
+      }
+
+      const outcome = {
+        channel: `#${channel.name}`,
+        server: channel.guild.name,
+        scanned,
+        matched: matches.length,
+        bulkDeleted,
+        individuallyDeleted,
+        failed: failures,
+      };
+      return {
+        summary: `Deleted ${bulkDeleted + individuallyDeleted} of ${matches.length} matching message(s) from #${channel.name}.`,
+        data: outcome,
+      };
+    }
+    // --- End Message Management Handlers ---
+
+    // --- Search Handlers ---
+    case "search-messages": {
+      const {
+        server: serverIdentifier, channels: channelIdentifiers, query, regex, author, mentions,
+        hasAttachment, hasLink, since, until, scanLimit, maxResults, contextSize, timeBudgetSeconds,
+      } = SearchMessagesSchema.parse(args);
+      const guild = await findGuild(serverIdentifier);
+      const targetChannels = await resolveTextChannels(guild, channelIdentifiers);
+
+      const pattern = query && regex ? compileUserPattern(query) : undefined;
+      const needle = query?.toLowerCase();
+      const authorId = author ? await resolveUserId(author, guild.id) : undefined;
+      const mentionId = mentions ? await resolveUserId(mentions, guild.id) : undefined;
+
+      const matchesFilters = (msg: MessageInfo) => {
+        if (pattern && !pattern.test(msg.content)) return false;
+        if (!pattern && needle && !msg.content.toLowerCase().includes(needle)) return false;
+        if (authorId && msg.author.id !== authorId) return false;
+        if (mentionId && !msg.mentionedUserIds.includes(mentionId)) return false;
+        if (hasAttachment !== undefined && (msg.attachments.length > 0) !== hasAttachment) return false;
+        if (hasLink !== undefined && /https?:\/\/\S+/i.test(msg.content) !== hasLink) return false;
+        return true;
+      };
+      const summarize = (msg: MessageInfo) => ({
+        id: msg.id,
+        author: msg.author.tag,
+        content: msg.content,
+        timestamp: msg.createdAt.toISOString(),
+      });
+
+      // Split the scan budget evenly so one busy channel cannot starve the rest
+      const perChannelBudget = Math.max(1, Math.floor(scanLimit / Math.max(1, targetChannels.length)));
+      const results: (ReturnType<typeof summarize> & {
+        channel: string;
+        url: string;
+        context: { before: ReturnType<typeof summarize>[]; after: ReturnType<typeof summarize>[] };
+      })[] = [];
+      const errors: { channel: string; error: string }[] = [];
+      let scanned = 0;
+      let budgetExhausted = false;
+
+      const { settled, skipped } = await scheduleRequests(botFor(guild.id), targetChannels, channel => fetchMessageHistory(channel, {
+        limit: perChannelBudget,
+        since: since ? new Date(since) : undefined,
+        until: until ? new Date(until) : undefined,
+      }), { budgetMs: timeBudgetMs(timeBudgetSeconds) });
+
+      for (const outcome of settled) {
+        const channel = outcome.item;
+        if ('error' in outcome) {
+          // Log error searching a specific channel but continue with others
+          console.error(`Error searching messages in #${channel.name}:`, outcome.error);
+          errors.push({
+            channel: `#${channel.name}`,
+            error: `Failed to search messages: ${outcome.error instanceof Error ? outcome.error.message : 'Unknown error'}`,
+          });
+          continue;
+        }
+        const { messages, nextCursor } = outcome.value;
+        scanned += messages.length;
+        if (nextCursor) budgetExhausted = true;
+
+        // messages are newest first, so older context sits at higher indices
+        messages.forEach((msg, index) => {
+          if (!matchesFilters(msg)) return;
+          results.push({
+            ...summarize(msg),
+            channel: `#${channel.name}`,
+            url: msg.url,
+            context: {
+              before: messages.slice(index + 1, index + 1 + contextSize).reverse().map(summarize),
+              after: messages.slice(Math.max(0, index - contextSize), index).map(summarize),
+            },
+          });
+        });
+      }
+
+      results.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+      const result = {
+        server: guild.name,
+        channelsSearched: targetChannels.length,
+        scanned,
+        totalMatches: results.length,
+        // True when some channel had more history in the window than its share of scanLimit, or the time budget
+        // ran out before every channel was searched
+        incomplete: budgetExhausted || skipped.length > 0,
+        skippedChannels: skipped.map(channel => `#${channel.name}`),
+        matches: results.slice(0, maxResults),
+        errors,
+      };
+
+      return {
+        summary: `Found ${results.length} matching message(s) after scanning ${scanned} message(s) in ${settled.length} of ${targetChannels.length} channel(s) of "${guild.name}".`,
+        data: result,
+      };
+    }
+    // --- End Search Handlers ---
+
+    // --- Thread Handlers ---
+    case "list-threads": {
+      const { server: serverIdentifier, channel: channelIdentifier, includeArchived, archivedLimit } = ListThreadsSchema.parse(args);
+      const guild = await findGuild(serverIdentifier);
+      const parent = channelIdentifier
+        ? await findGuildChannel(
+            channelIdentifier,
+            guild.id,
+            c => c.type === ChannelType.GuildText || c.type === ChannelType.GuildAnnouncement || c.type === ChannelType.GuildForum,
+            'text, announcement or forum channel',
+          )
+        : undefined;
+
+      if (includeArchived && !parent) {
+        throw new ToolError('INVALID_ARGUMENTS', 'Listing archived threads requires a channel, because Discord only returns archived threads per parent channel.');
+      }
+
+      const bot = botFor(guild.id);
+      const threads = (await bot.fetchActiveThreads(guild.id)).filter(t => !parent || t.parentId === parent.id);
+
+      if (parent && includeArchived) {
+        threads.push(...await bot.fetchArchivedThreads(parent.id, { type: 'public', limit: archivedLimit }));
+        if (parent.type === ChannelType.GuildText) {
+          try {
+            threads.push(...await bot.fetchArchivedThreads(parent.id, { type: 'private', limit: archivedLimit }));
+          } catch {
+            // Private archived threads need the Manage Threads permission; skip them otherwise
+          }
+        }
+      }
+
+      const formattedThreads = threads.filter(isChannelAllowed).map(thread => ({
+        id: thread.id,
+        name: thread.name,
+        type: channelTypeName(thread.type),
+        parent: thread.parent ? `#${thread.parent.name}` : null,
+        archived: thread.thread?.archived ?? false,
+        locked: thread.thread?.locked ?? false,
+        messageCount: thread.thread?.messageCount ?? null,
+        memberCount: thread.thread?.memberCount ?? null,
+        createdAt: thread.thread?.createdAt?.toISOString() ?? null,
+        tags: thread.parent?.type === ChannelType.GuildForum
+          ? (thread.thread?.appliedTags ?? []).map(tagId => thread.parent!.availableTags.find(tag => tag.id === tagId)?.name ?? tagId)
+          : undefined,
+      }));
+
+      return {
+        summary: `${formattedThreads.length} thread(s) in ${parent ? `#${parent.name}` : `server "${guild.name}"`}.`,
+        data: { threads: formattedThreads },
+      };
+    }
+
+    case "create-thread": {
+      const { server: serverIdentifier, channel: channelIdentifier, name: threadName, messageId, autoArchiveMinutes, private: isPrivate } = CreateThreadSchema.parse(args);
+      const channel = await findChannel(channelIdentifier, serverIdentifier);
+      if (channel.type !== ChannelType.GuildText && channel.type !== ChannelType.GuildAnnouncement) {
+        throw new ToolError('INVALID_ARGUMENTS', `Threads can only be created in text or announcement channels; #${channel.name} is a ${channelTypeName(channel.type)} channel.`);
+      }
+      const bot = botFor(channel.guild.id);
+
+      let thread: ChannelInfo;
+      if (messageId) {
+        const message = await bot.fetchMessage(channel.id, messageId);
+        if (message.thread) {
+          throw new ToolError('INVALID_ARGUMENTS', `Message ${messageId} already has a thread: #${message.thread.name} (${message.thread.id}).`);
+        }
+        thread = await bot.createThread(channel.id, { name: threadName, autoArchiveMinutes, messageId });
+      } else if (channel.type === ChannelType.GuildText) {
+        thread = await bot.createThread(channel.id, { name: threadName, autoArchiveMinutes, private: isPrivate });
+      } else {
+        if (isPrivate) {
+          throw new ToolError('INVALID_ARGUMENTS', 'Private threads cannot be created in announcement channels.');
+        }
+        thread = await bot.createThread(channel.id, { name: threadName, autoArchiveMinutes });
+      }
+
+      return {
+        summary: `Successfully created ${channelTypeName(thread.type)} #${thread.name} (ID: ${thread.id}) in #${channel.name} in ${channel.guild.name}.`,
+        data: { threadId: thread.id, thread: thread.name, type: channelTypeName(thread.type), parentId: channel.id, parent: channel.name, server: channel.guild.name },
+      };
+    }
+
+    case "create-forum-post": {
+      const { server: serverIdentifier, forum: forumIdentifier, title, message, tags, autoArchiveMinutes } = CreateForumPostSchema.parse(args);
+      const forum = await findForumChannel(forumIdentifier, serverIdentifier);
+
+      const appliedTags = (tags ?? []).map(tagIdentifier => {
+        const tag = forum.availableTags.find(t => t.id === tagIdentifier || t.name.toLowerCase() === tagIdentifier.toLowerCase());
+        if (!tag) {
+          const availableTags = forum.availableTags.map(t => `"${t.name}"`).join(', ') || 'none';
+          throw new ToolError('NOT_FOUND', `Tag "${tagIdentifier}" not found in forum #${forum.name}. Available tags: ${availableTags}`);
+        }
+        return tag.id;
+      });
+      if (appliedTags.length === 0 && forum.requireTag) {
+        const availableTags = forum.availableTags.map(t => `"${t.name}"`).join(', ');
+        throw new ToolError('INVALID_ARGUMENTS', `Forum #${forum.name} requires at least one tag. Available tags: ${availableTags}`);
+      }
+
+      const post = await botFor(forum.guild.id).createForumPost(forum.id, { name: title, message, appliedTags, autoArchiveMinutes });
+
+      return {
+        summary: `Successfully created forum post "${post.name}" (ID: ${post.id}) in #${forum.name} in ${forum.guild.name}.`,
+        data: { threadId: post.id, thread: post.name, appliedTags, forumId: forum.id, forum: forum.name, server: forum.guild.name },
+      };
+    }
+
+    case "archive-thread": {
+      const { server: serverIdentifier, thread: threadIdentifier, archived, locked } = ArchiveThreadSchema.parse(args);
+      const channel = await findChannel(threadIdentifier, serverIdentifier);
+      if (!channel.thread) {
+        throw new ToolError('INVALID_ARGUMENTS', `#${channel.name} is a ${channelTypeName(channel.type)} channel, not a thread.`);
+      }
+
+      // Send both flags in one edit, since an archived thread rejects any edit other than unarchiving
+      const updated = await botFor(channel.guild.id).editChannel(channel.id, { archived, ...(locked !== undefined ? { locked } : {}) });
+      const archivedNow = updated.thread?.archived ?? false;
+      const lockedNow = updated.thread?.locked ?? false;
+      return {
+        summary: `Thread #${updated.name} (ID: ${updated.id}) is now ${archivedNow ? 'archived' : 'active'} and ${lockedNow ? 'locked' : 'unlocked'}.`,
+        data: { threadId: updated.id, thread: updated.name, archived: archivedNow, locked: lockedNow },
+      };
+    }
+    // --- End Thread Handlers ---
+
+    // --- Permission Overwrite Handlers ---
+    case "list-permission-overwrites": {
+      const { server: serverIdentifier, channel: channelIdentifier } = ListPermissionOverwritesSchema.parse(args);
+      const channel = await findAnyChannel(channelIdentifier, serverIdentifier);
+      const guild = channel.guild;
+
+      const bot = botFor(guild.id);
+      const overwrites = channel.permissionOverwrites.map(overwrite => {
+        const target = overwrite.type === 'role'
+          ? bot.roles(guild.id).find(role => role.id === overwrite.id)?.name
+          : bot.members(guild.id).find(member => member.id === overwrite.id)?.user.tag;
+        return {
+          id: overwrite.id,
+          type: overwrite.type,
+          target: target ?? null,
+          allow: permissionNames(overwrite.allow),
+          deny: permissionNames(overwrite.deny),
+        };
+      });
+
+      return {
+        summary: `${overwrites.length} permission overwrite(s) on #${channel.name} in server "${guild.name}"${channel.permissionsLocked ? ' (synced with its category)' : ''}.`,
+        data: { channelId: channel.id, channel: channel.name, server: guild.name, syncedWithCategory: channel.permissionsLocked ?? false, overwrites },
+      };
+    }
+
+    case "set-permission-overwrite": {
+      const { server: serverIdentifier, channel: channelIdentifier, role: roleIdentifier, user: userIdentifier, allow, deny, inherit } = SetPermissionOverwriteSchema.parse(args);
+      const channel = await findAnyChannel(channelIdentifier, serverIdentifier);
+      const target = roleIdentifier
+        ? await findRole(roleIdentifier, channel.guild.id)
+        : await findMember(userIdentifier!, channel.guild.id);
+      const targetType = 'user' in target ? 'member' : 'role';
+      const targetName = 'user' in target ? `user ${target.user.tag}` : `role "${target.name}"`;
+
+      // Validate names, and make sure no permission is given two different states
+      parsePermissionNames([...allow, ...deny, ...inherit]);
+      const seen = new Set<string>();
+      for (const permission of [...allow, ...deny, ...inherit]) {
+        if (seen.has(permission)) {
+          throw new ToolError('INVALID_ARGUMENTS', `Permission "${permission}" appears in more than one of allow, deny and inherit.`);
+        }
+        seen.add(permission);
+      }
+
+      const edited = await botFor(channel.guild.id).editPermissionOverwrite(channel.id, { id: target.id, type: targetType }, {
+        allow: combinePermissions(parsePermissionNames(allow)),
+        deny: combinePermissions(parsePermissionNames(deny)),
+        inherit: combinePermissions(parsePermissionNames(inherit)),
+      });
+      const updated = edited.permissionOverwrites.find(overwrite => overwrite.id === target.id);
+      const allowedNow = permissionNames(updated?.allow ?? 0n);
+      const deniedNow = permissionNames(updated?.deny ?? 0n);
+      return {
+        summary: `Successfully updated the overwrite for ${targetName} on #${channel.name}. Now allowed: ${allowedNow.join(', ') || 'none'}. Now denied: ${deniedNow.join(', ') || 'none'}.`,
+        data: {
+          channelId: channel.id,
+          channel: channel.name,
+          targetId: target.id,
+          targetType,
+          allow: allowedNow,
+          deny: deniedNow,
+        },
+      };
+    }
+
+    case "remove-permission-overwrite": {
+      const { server: serverIdentifier, channel: channelIdentifier, role: roleIdentifier, user: userIdentifier } = RemovePermissionOverwriteSchema.parse(args);
+      const channel = await findAnyChannel(channelIdentifier, serverIdentifier);
+      const target = roleIdentifier
+        ? await findRole(roleIdentifier, channel.guild.id)
+        : await findMember(userIdentifier!, channel.guild.id);
+      const targetType = 'user' in target ? 'member' : 'role';
+      const targetName = 'user' in target ? `user ${target.user.tag}` : `role "${target.name}"`;
+
+      if (!channel.permissionOverwrites.some(overwrite => overwrite.id === target.id)) {
+        throw new ToolError('NOT_FOUND', `There is no permission overwrite for ${targetName} on #${channel.name}.`);
+      }
+
+      await botFor(channel.guild.id).deletePermissionOverwrite(channel.id, target.id);
+      return {
+        summary: `Successfully removed the permission overwrite for ${targetName} from #${channel.name} in server "${channel.guild.name}".`,
+        data: { channelId: channel.id, channel: channel.name, targetId: target.id, targetType, server: channel.guild.name },
+      };
+    }
+
+    case "explain-permissions": {
+      const { server: serverIdentifier, user: userIdentifier, channel: channelIdentifier, permissions } = ExplainPermissionsSchema.parse(args);
+      const guild = await findGuild(serverIdentifier);
+      const member = await findMember(userIdentifier, guild.id);
+      const resolved = await findGuildChannel(channelIdentifier, guild.id, () => true, 'channel');
+
+      // Threads inherit their parent's overwrites
+      const channel = resolved.thread ? resolved.parent : resolved;
+      if (!channel) {
+        throw new Error(`Thread #${resolved.name} has no parent channel to read permissions from.`);
+      }
+      if (permissions) parsePermissionNames(permissions);
+
+      const explanations = explainChannelPermissions(member, channel)
+        .filter(e => !permissions || permissions.includes(e.permission));
+      const result = {
+        member: member.user.tag,
+        channel: `#${resolved.name}`,
+        ...(resolved.thread ? { permissionsFrom: `#${channel.name}` } : {}),
+        allowed: explanations.filter(e => e.allowed).map(e => e.permission),
+        denied: explanations.filter(e => !e.allowed).map(e => e.permission),
+        details: explanations,
+      };
+
+      return {
+        summary: `Permissions of ${member.user.tag} in #${resolved.name}: ${result.allowed.length} allowed, ${result.denied.length} denied.`,
+        data: result,
+      };
+    }
+    // --- End Permission Overwrite Handlers ---
+
+    // --- Event Inbox Handlers ---
+    case "poll-events": {
+      const { server: serverIdentifier, channel: channelIdentifier, types, cursor, limit } = PollEventsSchema.parse(args);
+      const guild = serverIdentifier || channelIdentifier ? await findGuild(serverIdentifier) : undefined;
+      const channel = channelIdentifier ? await findChannel(channelIdentifier, guild!.id) : undefined;
+
+      const pending = eventBuffer.filter(event => event.cursor > cursor);
+      const matching = pending.filter(event =>
+        (!guild || event.guildId === guild.id) &&
+        (!channel || event.channelId === channel.id) &&
+        (!types || types.includes(event.type))
+      );
+      const events = matching.slice(0, limit);
+      // Advance past skipped non-matching events too, unless we stopped early because of the limit
+      const nextCursor = matching.length > limit
+        ? events[events.length - 1].cursor
+        : (pending.length > 0 ? pending[pending.length - 1].cursor : cursor);
+      const oldestCursor = eventBuffer.length > 0 ? eventBuffer[0].cursor : nextEventCursor;
+
+      const result = {
+        events,
+        nextCursor,
+        hasMore: matching.length > limit,
+        // Events between the cursor and the oldest buffered event were dropped from the bounded buffer
+        missedEvents: cursor > 0 && cursor < oldestCursor - 1,
+      };
+      return {
+        summary: `${events.length} event(s); next cursor ${nextCursor}${result.hasMore ? ', more pending' : ''}.`,
+        data: result,
+      };
+    }
+
+    case "wait-for-message": {
+      const { server: serverIdentifier, channel: channelIdentifier, author, pattern, timeoutSeconds, cursor, includeBots } = WaitForMessageSchema.parse(args);
+      const guild = await findGuild(serverIdentifier);
+      const channel = channelIdentifier ? await findChannel(channelIdentifier, guild.id) : undefined;
+      const authorId = author ? (await findMember(author, guild.id)).id : undefined;
+      const regex = pattern ? compileUserPattern(pattern) : undefined;
+
+      const matches = (event: BufferedEvent) =>
+        event.type === 'messageCreate' &&
+        event.guildId === guild.id &&
+        (!channel || event.channelId === channel.id) &&
+        (!authorId || event.data.authorId === authorId) &&
+        (includeBots || !event.data.bot) &&
+        (!regex || regex.test(String(event.data.content ?? '')));
+
+      const buffered = cursor !== undefined ? eventBuffer.find(event => event.cursor > cursor && matches(event)) : undefined;
+      const event = buffered ?? await waitForEvent(matches, timeoutSeconds * 1000);
+
+      if (!event) {
+        return {
+          summary: `No matching message arrived within ${timeoutSeconds} second(s). Pass cursor ${nextEventCursor - 1} to the next call to avoid missing messages in between.`,
+          data: { message: null, cursor: nextEventCursor - 1 },
+        };
+      }
+      return {
+        summary: `A matching message from ${String(event.data.author)} arrived in channel ${event.channelId}.`,
+        data: { message: { ...event.data, channelId: event.channelId, timestamp: event.timestamp }, cursor: event.cursor },
+      };
+    }
+    // --- End Event Inbox Handlers ---
+
+    // --- Audit Log Handlers ---
+    case "get-audit-log": {
+      const { tool, outcome, server: serverIdentifier, user: userIdentifier, since, until, limit } = GetAuditLogSchema.parse(args);
+      const guildId = serverIdentifier ? (await findGuild(serverIdentifier)).id : undefined;
+      const userId = userIdentifier?.replace(/[<@!>]/g, '');
+      const sinceMs = since ? Date.parse(since) : undefined;
+      const untilMs = until ? Date.parse(until) : undefined;
+
+      // Entries that touched a server the policy refuses are hidden, like the server itself
+      const isEntryGuildAllowed = (id: string) => {
+        const entryGuild = botForGuild(id)?.guild(id);
+        return entryGuild ? isGuildAllowed(entryGuild) : isAllowedByList(policy?.guilds, id);
+      };
+      const entries = (await readAuditEntries()).filter(entry => {
+        const timestamp = Date.parse(entry.timestamp);
+        return entry.resolved.guildIds.every(isEntryGuildAllowed) &&
+          (!tool || entry.tool === tool) &&
+          (!outcome || entry.outcome === outcome) &&
+          (!guildId || entry.resolved.guildIds.includes(guildId)) &&
+          (!userId || entry.resolved.userIds.includes(userId)) &&
+          (sinceMs === undefined || timestamp >= sinceMs) &&
+          (untilMs === undefined || timestamp <= untilMs);
+      });
+      const newestFirst = entries.reverse().slice(0, limit);
+
+      return {
+        summary: `${entries.length} matching audit entries (showing ${newestFirst.length}).`,
+        data: { total: entries.length, entries: newestFirst },
+      };
+    }
+
+    case "read-discord-audit-log": {
+      const { server: serverIdentifier, actionType, user: userIdentifier, since, until, limit } = ReadDiscordAuditLogSchema.parse(args);
+      const guild = await findGuild(serverIdentifier);
+      const bot = botFor(guild.id);
+      const me = await bot.fetchMe(guild.id);
+      if (!hasPermission(memberPermissions(me), PermissionsBitField.Flags.ViewAuditLog)) {
+        throw new ToolError('MISSING_PERMISSIONS', `Cannot read the audit log: the bot is missing the "ViewAuditLog" permission in server "${guild.name}".`);
+      }
+
+      let userId: string | undefined;
+      if (userIdentifier) {
+        const cleaned = userIdentifier.replace(/[<@!>]/g, '');
+        // Moderators who have since left can still be filtered by ID
+        userId = /^\d{17,20}$/.test(cleaned) ? cleaned : (await findMember(userIdentifier, guild.id)).id;
+      }
+      const type = actionType ? AuditLogEvent[actionType as keyof typeof AuditLogEvent] : undefined;
+      const sinceMs = since ? Date.parse(since) : undefined;
+
+      // Page backwards from `until` (or now) in batches of 100 until the limit or `since` is reached
+      const collected: AuditLogEntryInfo[] = [];
+      let before = until ? SnowflakeUtil.generate({ timestamp: Date.parse(until) + 1 }).toString() : undefined;
+      while (collected.length < limit) {
+        const page = await bot.fetchAuditLog(guild.id, { type, userId, before, limit: Math.min(100, limit - collected.length) });
+        if (page.length === 0) break;
+        let crossedSince = false;
+        for (const entry of page) {
+          if (sinceMs !== undefined && entry.createdAt.getTime() < sinceMs) {
+            crossedSince = true;
+            break;
+          }
+          collected.push(entry);
+        }
+        before = page[page.length - 1].id;
+        if (crossedSince || page.length < 100) break;
+      }
+
+      const formattedEntries = collected.map(entry => ({
+        id: entry.id,
+        action: AuditLogEvent[entry.action],
+        executor: entry.executor ?? entry.executorId,
+        targetId: entry.targetId,
+        target: entry.target,
+        reason: entry.reason,
+        changes: entry.changes.map(change => ({ key: change.key, old: change.old, new: change.new })),
+        createdAt: entry.createdAt.toISOString(),
+      }));
+
+      return {
+        summary: `${formattedEntries.length} audit log entries in server "${guild.name}".`,
+        data: { server: guild.name, entries: formattedEntries },
+      };
+    }
+    // --- End Audit Log Handlers ---
+
+    // --- Bulk Role Handlers ---
+    case "bulk-assign-role":
+    case "bulk-remove-role": {
+      const action = name === "bulk-assign-role" ? 'assign' : 'remove';
+      const result = await executeBulkRoleChange(action, args, onProgress, targetIds);
+
+      return {
+        summary: `Bulk ${action} of role "${result.role.name}": ${result.summary.changed} changed, ${result.summary.skipped} skipped, ${result.summary.failed} failed.`,
+        data: result,
+      };
+    }
+    // --- End Bulk Role Handlers ---
+
+    // --- Member Directory Handlers ---
+    case "list-members": {
+      const { server: serverIdentifier, role: roleIdentifier, joinedBefore, joinedAfter, bots, pending, limit, cursor } = ListMembersSchema.parse(args);
+      const guild = await findGuild(serverIdentifier);
+      const role = roleIdentifier ? await findRole(roleIdentifier, guild.id) : undefined;
+      const joinedBeforeMs = joinedBefore ? Date.parse(joinedBefore) : undefined;
+      const joinedAfterMs = joinedAfter ? Date.parse(joinedAfter) : undefined;
+
+      // Discord lists members in ID order, so the last member inspected is the cursor for the next page
+      const matches: MemberInfo[] = [];
+      let after = cursor;
+      let exhausted = false;
+      while (matches.length < limit && !exhausted) {
+        const page = await botFor(guild.id).listMembers(guild.id, { limit: 1000, after });
+        exhausted = page.length < 1000;
+        for (const member of page) {
+          after = member.id;
+          const joined = member.joinedAt?.getTime() ?? null;
+          if (role && !hasRoleId(member, role.id)) continue;
+          if (joinedBeforeMs !== undefined && (joined === null || joined >= joinedBeforeMs)) continue;
+          if (joinedAfterMs !== undefined && (joined === null || joined <= joinedAfterMs)) continue;
+          if (bots !== undefined && member.user.bot !== bots) continue;
+          if (pending !== undefined && member.pending !== pending) continue;
+          matches.push(member);
+          if (matches.length === limit) {
+            exhausted = exhausted && member.id === page[page.length - 1].id;
+            break;
+          }
+        }
+      }
+
+      const result = {
+        members: matches.map(summarizeMember),
+        nextCursor: exhausted ? null : after,
+      };
+      return {
+        summary: `${matches.length} member(s) in server "${guild.name}"${result.nextCursor ? '; more are available' : ''}.`,
+        data: result,
+      };
+    }
+
+    case "search-members": {
+      const { server: serverIdentifier, query, limit } = SearchMembersSchema.parse(args);
+      const guild = await findGuild(serverIdentifier);
+      const members = await botFor(guild.id).searchMembers(guild.id, query, limit);
+
+      return {
+        summary: `${members.length} member(s) matching "${query}" in server "${guild.name}".`,
+        data: { members: members.map(summarizeMember) },
+      };
+    }
+
+    case "get-member-info": {
+      const { server: serverIdentifier, user: userIdentifier } = GetMemberInfoSchema.parse(args);
+      const guild = await findGuild(serverIdentifier);
+      const member = await findMember(userIdentifier, guild.id);
+      const timedOutUntil = isTimedOut(member) ? member.communicationDisabledUntil : null;
+
+      const info = {
+        id: member.id,
+        user: member.user.tag,
+        displayName: member.displayName,
+        nickname: member.nickname,
+        bot: member.user.bot,
+        roles: memberRoles(member)
+          .filter(r => r.id !== guild.id)
+          .map(r => ({ id: r.id, name: r.name })),
+        joinedAt: member.joinedAt?.toISOString() ?? null,
+        accountCreatedAt: member.user.createdAt.toISOString(),
+        boostingSince: member.premiumSince?.toISOString() ?? null,
+        pending: member.pending,
+        timedOut: timedOutUntil !== null,
+        timedOutUntil: timedOutUntil?.toISOString() ?? null,
+        avatarUrl: member.avatarUrl,
+      };
+      return {
+        summary: `Member ${member.user.tag} in server "${guild.name}".`,
+        data: info,
+      };
+    }
+    // --- End Member Directory Handlers ---
+
+    // --- Activity Stats Handlers ---
+    case "get-activity-stats": {
+      const {
+        server: serverIdentifier, channels: channelIdentifiers, since, until, timeZone,
+        includeBots, topPosters, deadChannelDays, maxMessagesPerChannel, timeBudgetSeconds,
+      } = GetActivityStatsSchema.parse(args);
+      const guild = await findGuild(serverIdentifier);
+      const channels = await resolveTextChannels(guild, channelIdentifiers);
+      const untilMs = until ? Date.parse(until) : Date.now();
+      const sinceMs = since ? Date.parse(since) : untilMs - 7 * 24 * 60 * 60 * 1000;
+      if (sinceMs >= untilMs) {
+        throw new ToolError('INVALID_ARGUMENTS', '"since" must be before "until".');
+      }
+
+      // Bucket keys in the requested time zone: "YYYY-MM-DD" for days, 0-23 for hours
+      const formatter = new Intl.DateTimeFormat('en-CA', {
+        timeZone, year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', hourCycle: 'h23',
+      });
+      const bucketOf = (timestamp: number) => {
+        const parts = Object.fromEntries(formatter.formatToParts(timestamp).map(part => [part.type, part.value]));
+        return { day: `${parts.year}-${parts.month}-${parts.day}`, hour: Number(parts.hour) };
+      };
+
+      const perDay = new Map<string, number>();
+      for (let t = sinceMs; t <= untilMs; t += 60 * 60 * 1000) perDay.set(bucketOf(t).day, 0);
+      perDay.set(bucketOf(untilMs).day, 0);
+      const perHour = new Array<number>(24).fill(0);
+      const perUser = new Map<string, { userId: string; user: string; messages: number }>();
+      const perChannel: { channelId: string; channel: string; messages: number; truncated: boolean }[] = [];
+      const errors: { channel: string; error: string }[] = [];
+
+      const deadline = Date.now() + timeBudgetMs(timeBudgetSeconds);
+      const { settled, skipped } = await scheduleRequests(botFor(guild.id), channels, channel => fetchMessageHistory(channel, {
+        limit: maxMessagesPerChannel,
+        since: new Date(sinceMs),
+        until: new Date(untilMs),
+      }), { budgetMs: deadline - Date.now() });
+
+      for (const outcome of settled) {
+        const channel = outcome.item;
+        if ('error' in outcome) {
+          // Log error reading a specific channel but continue with others
+          console.error(`Error reading messages from #${channel.name}:`, outcome.error);
+          errors.push({
+            channel: `#${channel.name}`,
+            error: `Failed to read messages: ${outcome.error instanceof Error ? outcome.error.message : 'Unknown error'}`,
+          });
+          continue;
+        }
+        const { messages, nextCursor } = outcome.value;
+        let counted = 0;
+        for (const message of messages) {
+          if (!includeBots && message.author.bot) continue;
+          counted++;
+          const { day, hour } = bucketOf(message.createdAt.getTime());
+          perDay.set(day, (perDay.get(day) ?? 0) + 1);
+          perHour[hour]++;
+          const poster = perUser.get(message.author.id) ?? { userId: message.author.id, user: message.author.tag, messages: 0 };
+          poster.messages++;
+          perUser.set(message.author.id, poster);
+        }
+        perChannel.push({ channelId: channel.id, channel: channel.name, messages: counted, truncated: nextCursor !== null });
+      }
+
+      // Joiners come from current members' join dates plus buffered join events (for members who have since left);
+      // leavers are only known from buffered events, so they are complete only if the buffer covers the window
+      const membersLoaded = await loadAllMembers(guild, Math.max(0, deadline - Date.now()));
+      const inWindow = (timestamp: number) => timestamp >= sinceMs && timestamp <= untilMs;
+      const joinerIds = new Set(botFor(guild.id).members(guild.id).filter(m => m.joinedAt !== null && inWindow(m.joinedAt.getTime())).map(m => m.id));
+      const leaverIds = new Set<string>();
+      for (const event of eventBuffer) {
+        if (event.guildId !== guild.id || !inWindow(Date.parse(event.timestamp))) continue;
+        if (event.type === 'guildMemberAdd') joinerIds.add(String(event.data.userId));
+        if (event.type === 'guildMemberRemove') leaverIds.add(String(event.data.userId));
+      }
+      const coverageStart = eventCoverageStart();
+
+      const deadCutoff = Date.now() - deadChannelDays * 24 * 60 * 60 * 1000;
+      const deadChannels = channels.flatMap(channel => {
+        const lastMessageMs = channel.lastMessageId ? SnowflakeUtil.timestampFrom(channel.lastMessageId) : null;
+        if (lastMessageMs !== null && lastMessageMs >= deadCutoff) return [];
+        return [{
+          channelId: channel.id,
+          channel: channel.name,
+          lastMessageAt: lastMessageMs !== null ? new Date(lastMessageMs).toISOString() : null,
+          daysSinceLastMessage: lastMessageMs !== null ? Math.floor((Date.now() - lastMessageMs) / (24 * 60 * 60 * 1000)) : null,
+        }];
+      });
+
+      const users = Array.from(perUser.values()).sort((a, b) => b.messages - a.messages);
+      const stats = {
+        window: { since: new Date(sinceMs).toISOString(), until: new Date(untilMs).toISOString(), timeZone },
+        totals: {
+          messages: users.reduce((sum, u) => sum + u.messages, 0),
+          activeUsers: users.length,
+          channelsScanned: settled.length - errors.length,
+        },
+        perChannel: perChannel.sort((a, b) => b.messages - a.messages),
+        perUser: users,
+        perDay: Array.from(perDay.entries()).sort(([a], [b]) => a.localeCompare(b)).map(([date, messages]) => ({ date, messages })),
+        busiestHours: perHour.map((messages, hour) => ({ hour, messages })).sort((a, b) => b.messages - a.messages || a.hour - b.hour),
+        topPosters: users.slice(0, topPosters),
+        members: {
+          joined: joinerIds.size,
+          left: leaverIds.size,
+          leaversComplete: coverageStart <= sinceMs,
+          eventDataSince: new Date(coverageStart).toISOString(),
+        },
+        deadChannels,
+        incomplete: skipped.length > 0 || !membersLoaded || errors.length > 0,
+        skippedChannels: skipped.map(channel => `#${channel.name}`),
+        errors,
+      };
+
+      return {
+        summary: `Activity stats for server "${guild.name}": ${stats.totals.messages} message(s) from ${stats.totals.activeUsers} user(s) in ${stats.totals.channelsScanned} channel(s).` +
+          (errors.length ? ` Could not read ${errors.map(entry => entry.channel).join(', ')}.` : '') +
+          (skipped.length > 0 || !membersLoaded ? ' The time budget ran out, so the stats are incomplete.' : ''),
+        data: stats,
+      };
+    }
+    // --- End Activity Stats Handlers ---
+
+    // --- Scheduled Message Handlers ---
+    case "schedule-message": {
+      const { at, cron, timeZone, catchUp, ...payload } = ScheduleMessageSchema.parse(args);
+      const { server: serverIdentifier, channel: channelIdentifier, ...input } = SendMessageSchema.parse(payload);
+      const channel = await findChannel(channelIdentifier, serverIdentifier);
+      // Build the payload once now so attachment and reply problems surface at scheduling time
+      await buildMessagePayload(channel, input);
+
+      const schedule: ScheduledMessage = {
+        id: randomBytes(4).toString('hex'),
+        guildId: channel.guild.id,
+        channelId: channel.id,
+        // Stored by ID so renaming the channel does not break the schedule; a bot picked for this call stays picked
+        payload: { ...input, server: channel.guild.id, channel: channel.id, ...(selectedBot.getStore() ? { bot: botName(botFor(channel.guild.id)) } : {}) },
+        at: at ?? null,
+        cron: cron ?? null,
+        timeZone,
+        catchUp,
+        status: 'scheduled',
+        nextRunAt: null,
+        lastRunAt: null,
+        lastError: null,
+        runCount: 0,
+        createdAt: new Date().toISOString(),
+      };
+      const nextRun = nextScheduledRun(schedule, new Date());
+      if (!nextRun || (at && nextRun.getTime() <= Date.now())) {
+        throw new ToolError('INVALID_ARGUMENTS', at ? `"at" must be in the future.` : `Cron schedule "${cron}" never runs.`);
+      }
+      schedule.nextRunAt = nextRun.toISOString();
+
+      scheduledMessages.set(schedule.id, schedule);
+      await saveScheduledMessages();
+      armScheduler();
+
+      return {
+        summary: `Scheduled message ${schedule.id} for #${channel.name} in ${channel.guild.name}; next run at ${schedule.nextRunAt}.`,
+        data: formatScheduledMessage(schedule),
+      };
+    }
+
+    case "list-scheduled-messages": {
+      const { server: serverIdentifier, channel: channelIdentifier, includeFinished } = ListScheduledMessagesSchema.parse(args);
+      const guild = serverIdentifier || channelIdentifier ? await findGuild(serverIdentifier) : undefined;
+      const channel = channelIdentifier ? await findChannel(channelIdentifier, guild!.id) : undefined;
+
+      const schedules = Array.from(scheduledMessages.values()).filter(schedule => {
+        const scheduleGuild = botForGuild(schedule.guildId)?.guild(schedule.guildId);
+        return (!scheduleGuild || isGuildAllowed(scheduleGuild)) &&
+          (!guild || schedule.guildId === guild.id) &&
+          (!channel || schedule.channelId === channel.id) &&
+          (includeFinished || schedule.status === 'scheduled');
+      });
+
+      return {
+        summary: `${schedules.length} scheduled message(s).`,
+        data: { schedules: schedules.map(formatScheduledMessage) },
+      };
+    }
+
+    case "cancel-scheduled-message": {
+      const { id } = CancelScheduledMessageSchema.parse(args);
+      const schedule = scheduledMessages.get(id);
+      if (!schedule) {
+        throw new ToolError('NOT_FOUND', `Scheduled message "${id}" not found.`);
+      }
+      await findGuild(schedule.guildId); // Refuses schedules in servers outside the policy
+
+      scheduledMessages.delete(id);
+      await saveScheduledMessages();
+      armScheduler();
+
+      return {
+        summary: `Cancelled scheduled message ${id}.`,
+        data: { id, cancelled: true },
+      };
+    }
+    // --- End Scheduled Message Handlers ---
+
+    // --- Reaction and Poll Handlers ---
+    case "add-reaction": {
+      const { server: serverIdentifier, channel: channelIdentifier, messageId, emoji } = ReactionSchema.parse(args);
+      const channel = await findChannel(channelIdentifier, serverIdentifier);
+      const bot = botFor(channel.guild.id);
+      await bot.fetchMessage(channel.id, messageId);
+      const resolved = resolveEmoji(emoji, channel.guild);
+
+      await bot.addReaction(channel.id, messageId, resolved.emoji);
+      return {
+        summary: `Reacted with ${resolved.display} to message ${messageId} in #${channel.name}.`,
+        data: { messageId, emoji: resolved.display, channelId: channel.id, channel: channel.name },
+      };
+    }
+
+    case "remove-reaction": {
+      const { server: serverIdentifier, channel: channelIdentifier, messageId, emoji, user: userIdentifier } = RemoveReactionSchema.parse(args);
+      const channel = await findChannel(channelIdentifier, serverIdentifier);
+      const bot = botFor(channel.guild.id);
+      const message = await bot.fetchMessage(channel.id, messageId);
+      const resolved = resolveEmoji(emoji, channel.guild);
+      const reaction = message.reactions.find(r => emojiKey(r.emoji) === resolved.key);
+      if (!reaction) {
+        throw new ToolError('NOT_FOUND', `Message ${messageId} has no ${resolved.display} reactions.`);
+      }
+
+      const userId = userIdentifier ? (await findMember(userIdentifier, channel.guild.id)).id : bot.user!.id;
+      await bot.removeReaction(channel.id, messageId, reaction.emoji, userId);
+      return {
+        summary: `Removed the ${resolved.display} reaction of <@${userId}> from message ${messageId} in #${channel.name}.`,
+        data: { messageId, emoji: resolved.display, userId, channelId: channel.id, channel: channel.name },
+      };
+    }
+
+    case "list-reactions": {
+      const { server: serverIdentifier, channel: channelIdentifier, messageId, emoji, usersLimit } = ListReactionsSchema.parse(args);
+      const channel = await findChannel(channelIdentifier, serverIdentifier);
+      const bot = botFor(channel.guild.id);
+      const message = await bot.fetchMessage(channel.id, messageId);
+      const key = emoji ? resolveEmoji(emoji, channel.guild).key : undefined;
+      const reactions = message.reactions.filter(r => !key || emojiKey(r.emoji) === key);
+
+      const formattedReactions = [];
+      for (const reaction of reactions) {
+        // Reaction users are paged 100 at a time
+        const users: { id: string; user: string }[] = [];
+        let after: string | undefined;
+        while (users.length < usersLimit && users.length < reaction.count) {
+          const page = await bot.fetchReactionUsers(channel.id, messageId, reaction.emoji, { limit: Math.min(100, usersLimit - users.length), after });
+          if (page.length === 0) break;
+          users.push(...page.map(u => ({ id: u.id, user: u.tag })));
+          after = page[page.length - 1].id;
+        }
+        formattedReactions.push({
+          emoji: formatEmoji(reaction.emoji),
+          emojiId: reaction.emoji.id,
+          count: reaction.count,
+          includesBot: reaction.me,
+          users,
+        });
+      }
+
+      return {
+        summary: `${formattedReactions.length} reaction(s) on message ${messageId} in #${channel.name}.`,
+        data: { messageId, reactions: formattedReactions },
+      };
+    }
+
+    case "create-poll": {
+      const { server: serverIdentifier, channel: channelIdentifier, question, answers, durationHours, allowMultiselect } = CreatePollSchema.parse(args);
+      const channel = await findChannel(channelIdentifier, serverIdentifier);
+
+      const sent = await botFor(channel.guild.id).sendMessage(channel.id, {
+        poll: {
+          question,
+          answers: answers.map(answer => ({
+            text: answer.text,
+            emoji: answer.emoji ? resolveEmoji(answer.emoji, channel.guild).emoji : undefined,
+          })),
+          durationHours,
+          allowMultiselect,
+        },
+      });
+      const expiresAt = sent.poll?.expiresAt?.toISOString() ?? null;
+      return {
+        summary: `Poll posted to #${channel.name} in ${channel.guild.name}. Message ID: ${sent.id}. Closes at ${expiresAt ?? 'unknown'}.`,
+        data: { messageId: sent.id, channelId: channel.id, channel: channel.name, server: channel.guild.name, expiresAt },
+      };
+    }
+
+    case "get-poll-results": {
+      const { server: serverIdentifier, channel: channelIdentifier, messageId, includeVoters } = GetPollResultsSchema.parse(args);
+      const channel = await findChannel(channelIdentifier, serverIdentifier);
+      const bot = botFor(channel.guild.id);
+      const message = await bot.fetchMessage(channel.id, messageId);
+      const poll = message.poll;
+      if (!poll) {
+        throw new ToolError('INVALID_ARGUMENTS', `Message ${messageId} in #${channel.name} does not contain a poll.`);
+      }
+
+      const answers = [];
+      for (const answer of poll.answers) {
+        // Voters are paged 100 at a time
+        const voters: { id: string; user: string }[] = [];
+        if (includeVoters) {
+          let after: string | undefined;
+          while (voters.length < answer.voteCount) {
+            const page = await bot.fetchPollVoters(channel.id, messageId, answer.id, { limit: 100, after });
+            if (page.length === 0) break;
+            voters.push(...page.map(u => ({ id: u.id, user: u.tag })));
+            after = page[page.length - 1].id;
+          }
+        }
+        answers.push({
+          id: answer.id,
+          text: answer.text,
+          emoji: answer.emoji ? formatEmoji(answer.emoji) : null,
+          votes: answer.voteCount,
+          voters: includeVoters ? voters : undefined,
+        });
+      }
+
+      const results = {
+        question: poll.question,
+        allowMultiselect: poll.allowMultiselect,
+        expiresAt: poll.expiresAt?.toISOString() ?? null,
+        finalized: poll.resultsFinalized,
+        totalVotes: answers.reduce((sum, answer) => sum + answer.votes, 0),
+        answers,
+      };
+      return {
+        summary: `Poll "${results.question}" in #${channel.name}: ${results.totalVotes} vote(s)${results.finalized ? ', final' : ''}.`,
+        data: results,
+      };
+    }
+    // --- End Reaction and Poll Handlers ---
+
+    // --- AutoMod Handlers ---
+    case "list-automod-rules": {
+      const { server: serverIdentifier } = ListAutoModRulesSchema.parse(args);
+      const guild = await findGuild(serverIdentifier);
+      await assertCanManageAutoMod(guild);
+      const rules = await botFor(guild.id).fetchAutoModRules(guild.id);
+
+      return {
+        summary: `${rules.length} AutoMod rule(s) in server "${guild.name}".`,
+        data: { server: guild.name, rules: rules.map(formatAutoModRule) },
+      };
+    }
+
+    case "create-automod-rule": {
+      const { server: serverIdentifier, name: ruleName, trigger, actions, exemptRoles, exemptChannels, enabled, reason } = CreateAutoModRuleSchema.parse(args);
+      const guild = await findGuild(serverIdentifier);
+      await assertCanManageAutoMod(guild);
+      const { type, ...triggerSettings } = trigger;
+      const triggerType = AUTOMOD_TRIGGER_TYPES[type];
+
+      const rule = await botFor(guild.id).createAutoModRule(guild.id, {
+        name: ruleName,
+        triggerType,
+        triggerMetadata: buildAutoModTriggerMetadata(triggerType, triggerSettings),
+        actions: await buildAutoModActions(guild, actions),
+        enabled,
+        exemptRoleIds: exemptRoles ? await Promise.all(exemptRoles.map(async role => (await findRole(role, guild.id)).id)) : [],
+        exemptChannelIds: exemptChannels ? await Promise.all(exemptChannels.map(async channel => (await findAnyChannel(channel, guild.id)).id)) : [],
+        reason: reason ?? DEFAULT_AUDIT_REASON,
+      });
+
+      return {
+        summary: `Created AutoMod rule "${rule.name}" (ID: ${rule.id}) in server "${guild.name}".`,
+        data: formatAutoModRule(rule),
+      };
+    }
+
+    case "update-automod-rule": {
+      const { server: serverIdentifier, rule: ruleIdentifier, name: newName, trigger, actions, exemptRoles, exemptChannels, reason } = UpdateAutoModRuleSchema.parse(args);
+      const guild = await findGuild(serverIdentifier);
+      await assertCanManageAutoMod(guild);
+      const rule = await findAutoModRule(guild, ruleIdentifier);
+
+      if (actions?.timeoutSeconds !== undefined &&
+          rule.triggerType !== AutoModerationRuleTriggerType.Keyword && rule.triggerType !== AutoModerationRuleTriggerType.MentionSpam) {
+        throw new ToolError('INVALID_ARGUMENTS', 'Timeouts are only supported for keyword and mention-spam rules.');
+      }
+      if ([newName, trigger, actions, exemptRoles, exemptChannels].every(value => value === undefined)) {
+        throw new ToolError('INVALID_ARGUMENTS', "No update parameters provided for the AutoMod rule.");
+      }
+
+      const updatedRule = await botFor(guild.id).editAutoModRule(guild.id, rule.id, {
+        name: newName,
+        // Merged over the current settings, since Discord replaces the whole trigger metadata
+        triggerMetadata: trigger ? { ...rule.triggerMetadata, ...buildAutoModTriggerMetadata(rule.triggerType, trigger) } : undefined,
+        actions: actions ? await buildAutoModActions(guild, actions) : undefined,
+        exemptRoleIds: exemptRoles ? await Promise.all(exemptRoles.map(async role => (await findRole(role, guild.id)).id)) : undefined,
+        exemptChannelIds: exemptChannels ? await Promise.all(exemptChannels.map(async channel => (await findAnyChannel(channel, guild.id)).id)) : undefined,
+        reason: reason ?? DEFAULT_AUDIT_REASON,
+      });
+
+      return {
+        summary: `Updated AutoMod rule "${updatedRule.name}" (ID: ${updatedRule.id}) in server "${guild.name}".`,
+        data: formatAutoModRule(updatedRule),
+      };
+    }
+
+    case "set-automod-rule-enabled": {
+      const { server: serverIdentifier, rule: ruleIdentifier, enabled, reason } = SetAutoModRuleEnabledSchema.parse(args);
+      const guild = await findGuild(serverIdentifier);
+      await assertCanManageAutoMod(guild);
+      const rule = await findAutoModRule(guild, ruleIdentifier);
+
+      await botFor(guild.id).editAutoModRule(guild.id, rule.id, { enabled, reason: reason ?? DEFAULT_AUDIT_REASON });
+      return {
+        summary: `${enabled ? 'Enabled' : 'Disabled'} AutoMod rule "${rule.name}" (ID: ${rule.id}) in server "${guild.name}".`,
+        data: { ruleId: rule.id, rule: rule.name, enabled, server: guild.name },
+      };
+    }
+
+    case "delete-automod-rule": {
+      const { server: serverIdentifier, rule: ruleIdentifier, reason } = DeleteAutoModRuleSchema.parse(args);
+      const guild = await findGuild(serverIdentifier);
+      await assertCanManageAutoMod(guild);
+      const rule = await findAutoModRule(guild, ruleIdentifier);
+
+      await botFor(guild.id).deleteAutoModRule(guild.id, rule.id, reason ?? DEFAULT_AUDIT_REASON);
+      return {
+        summary: `Deleted AutoMod rule "${rule.name}" (ID: ${rule.id}) from server "${guild.name}".`,
+        data: { ruleId: rule.id, rule: rule.name, server: guild.name },
+      };
+    }
+    // --- End AutoMod Handlers ---
+
+    default:
+      throw new ToolError('UNKNOWN_TOOL', `Unknown tool: ${name}`);
+  } // End switch
+}
+
+// Execute a tool call and record it in the audit trail
+async function auditedCallTool(name: string, args: Record<string, unknown> | undefined, onProgress?: ProgressReporter): Promise<ToolOutput> {
+  const context: AuditContext = { guildIds: new Set(), channelIds: new Set(), userIds: new Set(), bots: new Set() };
+  const startedAt = Date.now();
+  const validated = TOOL_SCHEMAS[name]?.safeParse(args ?? {});
+
+  const record = (outcome: AuditEntry['outcome'], error?: string) => appendAuditEntry({
+    timestamp: new Date(startedAt).toISOString(),
+    tool: name,
+    arguments: validated?.success ? validated.data : (args ?? {}),
+    resolved: {
+      guildIds: [...context.guildIds],
+      channelIds: [...context.channelIds],
+      userIds: [...context.userIds],
+      bots: [...context.bots],
+    },
+    outcome,
+    error,
+    durationMs: Date.now() - startedAt,
+  });
+
+  return auditContext.run(context, async () => {
+    try {
+      const { bot } = BotArgumentSchema.parse(args ?? {});
+      const result = await selectedBot.run(bot, () => callTool(name, args, onProgress));
+      await record(context.outcome ?? 'success');
+      return result;
+    } catch (error) {
+      const toolError = toToolError(error);
+      await record('error', `${toolError.code}: ${toolError.message}`);
+      throw toolError;
+    }
+  });
+}
+
+// Handle tool execution
+async function handleCallTool(request: CallToolRequest, extra: ServerRequestExtra) {
+  const { name, arguments: rawArgs, _meta } = request.params;
+  // format only affects rendering, so it is kept out of the arguments that are audited and confirmed
+  const { format: rawFormat, ...args } = rawArgs ?? {};
+  const parsedFormat = OutputFormatSchema.safeParse(rawFormat);
+  const format = parsedFormat.success ? parsedFormat.data : 'json';
+
+  try {
+    if (!parsedFormat.success) {
+      throw new ToolError('INVALID_ARGUMENTS', `Invalid arguments: format: ${parsedFormat.error.errors[0].message}`);
+    }
+    const output = await auditedCallTool(name, args, progressReporter(_meta?.progressToken, extra));
+    return {
+      content: [{ type: "text", text: renderToolOutput(output, format) }],
+      structuredContent: output.data,
+    };
+  } catch (error) {
+    const toolError = toToolError(error);
+    return {
+      content: [{ type: "text", text: renderToolError(toolError, format) }],
+      structuredContent: toolErrorOutput(toolError),
+      isError: true,
+    };
+  }
+}
+
+// --- Resources ---
+// Guilds, channels and messages are exposed as discord://{guild}/... resources so clients can browse them
+const RESOURCE_MESSAGE_LIMIT = 50;
+
+function channelsResourceUri(guildId: string) {
+  return `discord://${guildId}/channels`;
+}
+
+function rolesResourceUri(guildId: string) {
+  return `discord://${guildId}/roles`;
+}
+
+function messagesResourceUri(guildId: string, channelId: string) {
+  return `discord://${guildId}/${channelId}/messages`;
+}
+
+// Helper function to notify the sessions subscribed to a changed resource, under the URIs they subscribed with
+function notifyResourceUpdated(canonicalUri: string) {
+  for (const session of sessions) {
+    for (const uri of session.subscribedResources.get(canonicalUri) ?? []) {
+      session.server.sendResourceUpdated({ uri }).catch(error => {
+        console.error(`Error sending resource update for ${uri}:`, error);
+      });
+    }
+  }
+}
+
+// The tool whose policy rules govern each kind of resource, since a resource exposes the same data
+const RESOURCE_TOOLS = { channels: 'list-channels', roles: 'list-roles', messages: 'read-messages' } as const;
+
+type ResolvedResource =
+  | { canonicalUri: string; guild: GuildInfo; kind: 'channels' }
+  | { canonicalUri: string; guild: GuildInfo; kind: 'roles' }
+  | { canonicalUri: string; guild: GuildInfo; kind: 'messages'; channel: ChannelInfo };
+
+// Helper function to resolve a resource URI, which may name the guild and channel, to its target and the
+// ID-based URI that update notifications use. Unknown targets and ones the policy refuses throw.
+async function resolveResource(uri: string): Promise<ResolvedResource> {
+  const match = /^discord:\/\/([^/]+)\/(?:(channels|roles)|([^/]+)\/messages)$/.exec(uri);
+  if (!match) {
+    throw new Error(`Unknown resource URI: ${uri}. Expected discord://{guild}/channels, discord://{guild}/roles or discord://{guild}/{channel}/messages`);
+  }
+  const [, guildIdentifier, collection, channelIdentifier] = match;
+  const server = decodeURIComponent(guildIdentifier);
+
+  if (collection === 'channels' || collection === 'roles') {
+    await enforcePolicy(RESOURCE_TOOLS[collection], { server });
+    const guild = await findGuild(server);
+    return collection === 'channels'
+      ? { canonicalUri: channelsResourceUri(guild.id), guild, kind: collection }
+      : { canonicalUri: rolesResourceUri(guild.id), guild, kind: collection };
+  }
+
+  const channelArgument = decodeURIComponent(channelIdentifier);
+  await enforcePolicy(RESOURCE_TOOLS.messages, { server, channel: channelArgument });
+  const guild = await findGuild(server);
+  const channel = await findChannel(channelArgument, guild.id);
+  if (!isChannelAllowed(channel)) {
+    throw new ToolError('POLICY_REFUSED', `Refused by policy: channel "#${channel.name}" is not allowed by the policy.`);
+  }
+  return { canonicalUri: messagesResourceUri(guild.id, channel.id), guild, kind: 'messages', channel };
+}
+
+async function listResources() {
+  const resources = Array.from(selectedGuilds().values()).filter(isGuildAllowed).flatMap(guild => [
+    {
+      uri: channelsResourceUri(guild.id),
+      name: `${guild.name} channels`,
+      description: `Channels in server "${guild.name}" grouped by category`,
+      mimeType: "application/json",
+    },
+    {
+      uri: rolesResourceUri(guild.id),
+      name: `${guild.name} roles`,
+      description: `Roles in server "${guild.name}"`,
+      mimeType: "application/json",
+    },
+    ...botFor(guild.id).channels(guild.id)
+      .filter(c => (c.type === ChannelType.GuildText || c.type === ChannelType.GuildAnnouncement) && isChannelAllowed(c))
+      .map(channel => ({
+        uri: messagesResourceUri(guild.id, channel.id),
+        name: `#${channel.name} messages (${guild.name})`,
+        description: `The ${RESOURCE_MESSAGE_LIMIT} most recent messages in #${channel.name}`,
+        mimeType: "application/json",
+      })),
+  ]);
+  return { resources };
+}
+
+async function listResourceTemplates() {
+  return {
+    resourceTemplates: [
+      {
+        uriTemplate: "discord://{guild}/channels",
+        name: "Server channels",
+        description: "Channels in a server grouped by category (guild ID)",
+        mimeType: "application/json",
+      },
+      {
+        uriTemplate: "discord://{guild}/roles",
+        name: "Server roles",
+        description: "Roles in a server (guild ID)",
+        mimeType: "application/json",
+      },
+      {
+        uriTemplate: "discord://{guild}/{channel}/messages",
+        name: "Channel messages",
+        description: `The ${RESOURCE_MESSAGE_LIMIT} most recent messages in a channel or thread (guild and channel IDs)`,
+        mimeType: "application/json",
+      },
+    ],
+  };
+}
+
+async function readResource(request: ReadResourceRequest) {
+  const { uri } = request.params;
+  const resource = await resolveResource(uri);
+  const { guild } = resource;
+  const bot = botFor(guild.id);
+
+  let data: unknown;
+  if (resource.kind === 'channels') {
+    data = bot.channels(guild.id)
+      .filter(c => !c.thread && isChannelAllowed(c))
+      .sort((a, b) => a.position - b.position)
+      .map(c => ({
+        id: c.id,
+        name: c.name,
+        type: channelTypeName(c.type),
+        position: c.position,
+        category: c.parent?.name ?? null,
+      }));
+  } else if (resource.kind === 'roles') {
+    data = (await bot.fetchRoles(guild.id))
+      .sort((a, b) => b.position - a.position)
+      .map(role => ({
+        id: role.id,
+        name: role.name,
+        color: roleHexColor(role),
+        position: role.position,
+        permissions: permissionNames(role.permissions),
+        mentionable: role.mentionable,
+      }));
+  } else {
+    const { messages } = await fetchMessageHistory(resource.channel, { limit: RESOURCE_MESSAGE_LIMIT });
+    data = messages.map(msg => ({
+      id: msg.id,
+      author: msg.author.tag,
+      content: msg.content,
+      timestamp: msg.createdAt.toISOString(),
+    }));
+  }
+
+  return {
+    contents: [{
+      uri,
+      mimeType: "application/json",
+      text: JSON.stringify(data, null, 2),
+    }],
+  };
+}
+
+// Forward gateway events to subscribers of the affected resources
+for (const { bot } of botProfiles) {
+  bot.on('messageCreate', message => notifyResourceUpdated(messagesResourceUri(message.guildId, message.channelId)));
+  bot.on('messageUpdate', update => notifyResourceUpdated(messagesResourceUri(update.guildId, update.channelId)));
+  bot.on('messageDelete', deletion => notifyResourceUpdated(messagesResourceUri(deletion.guildId, deletion.channelId)));
+  bot.on('channelsChanged', guildId => notifyResourceUpdated(channelsResourceUri(guildId)));
+  bot.on('rolesChanged', guildId => notifyResourceUpdated(rolesResourceUri(guildId)));
+  bot.on('guildsChanged', () => {
+    for (const session of sessions) {
+      session.server.sendResourceListChanged().catch(error => {
+        console.error('Error sending resource list change:', error);
+      });
+    }
+  });
+}
+// --- End Resources ---
+
+// --- Event Inbox ---
+// A bounded, in-memory buffer of gateway events for poll-events and wait-for-message.
+// Each event gets an increasing cursor; the oldest events are dropped once the buffer is full.
+const EVENT_BUFFER_SIZE = Number(process.env.DISCORD_EVENT_BUFFER_SIZE) || 1000;
+
+interface BufferedEvent {
+  cursor: number;
+  type: typeof EVENT_TYPES[number];
+  timestamp: string;
+  guildId: string;
+  channelId: string | null;
+  data: Record<string, unknown>;
+}
+
+const eventBuffer: BufferedEvent[] = [];
+let nextEventCursor = 1;
+const eventWaiters = new Set<(event: BufferedEvent) => boolean>();
+
+function recordEvent(bot: DiscordBackend, type: BufferedEvent['type'], guildId: string, channelId: string | null, data: Record<string, unknown>) {
+  // A guild several bots share would report each event once per bot; keep only the routed bot's copy
+  if (botForGuild(guildId) !== bot) return;
+  // Events from guilds and channels outside the policy are never buffered
+  const guild = bot.guild(guildId);
+  const channel = channelId ? bot.channel(channelId) : undefined;
+  if (guild && !isGuildAllowed(guild)) return;
+  if (channel && !isChannelAllowed(channel)) return;
+
+  const event: BufferedEvent = { cursor: nextEventCursor++, type, timestamp: new Date().toISOString(), guildId, channelId, data };
+  eventBuffer.push(event);
+  if (eventBuffer.length > EVENT_BUFFER_SIZE) eventBuffer.shift();
+  for (const waiter of eventWaiters) {
+    if (waiter(event)) eventWaiters.delete(waiter);
+  }
+}
+
+// Helper function to resolve with the first new event matching a predicate, or null after the timeout
+function waitForEvent(predicate: (event: BufferedEvent) => boolean, timeoutMs: number): Promise<BufferedEvent | null> {
+  return new Promise(resolve => {
+    const waiter = (event: BufferedEvent) => {
+      if (!predicate(event)) return false;
+      clearTimeout(timer);
+      resolve(event);
+      return true;
+    };
+    const timer = setTimeout(() => {
+      eventWaiters.delete(waiter);
+      resolve(null);
+    }, timeoutMs);
+    eventWaiters.add(waiter);
+  });
+}
+
+const eventInboxStartedAt = Date.now();
+
+// Helper function to return the time from which the buffer holds every event: startup, or the oldest
+// buffered event once older ones have been dropped
+function eventCoverageStart(): number {
+  const oldest = eventBuffer[0];
+  return oldest && oldest.cursor > 1 ? Date.parse(oldest.timestamp) : eventInboxStartedAt;
+}
+
+for (const { bot } of botProfiles) {
+  bot.on('messageCreate', message => {
+    recordEvent(bot, 'messageCreate', message.guildId, message.channelId, {
+      messageId: message.id,
+      author: message.author.tag,
+      authorId: message.author.id,
+      bot: message.author.bot,
+      content: message.content,
+      url: message.url,
+    });
+  });
+  bot.on('messageUpdate', update => {
+    recordEvent(bot, 'messageUpdate', update.guildId, update.channelId, {
+      messageId: update.messageId,
+      author: update.author?.tag ?? null,
+      authorId: update.author?.id ?? null,
+      oldContent: update.oldContent,
+      newContent: update.newContent,
+    });
+  });
+  bot.on('messageDelete', deletion => {
+    recordEvent(bot, 'messageDelete', deletion.guildId, deletion.channelId, {
+      messageId: deletion.messageId,
+      author: deletion.author?.tag ?? null,
+      authorId: deletion.author?.id ?? null,
+      content: deletion.content,
+    });
+  });
+  bot.on('memberAdd', member => {
+    recordEvent(bot, 'guildMemberAdd', member.guild.id, null, {
+      userId: member.id,
+      user: member.user.tag,
+      bot: member.user.bot,
+    });
+  });
+  bot.on('memberRemove', (guildId, user) => {
+    recordEvent(bot, 'guildMemberRemove', guildId, null, {
+      userId: user.id,
+      user: user.tag,
+    });
+  });
+  bot.on('reactionAdd', reaction => {
+    recordEvent(bot, 'messageReactionAdd', reaction.guildId, reaction.channelId, {
+      messageId: reaction.messageId,
+      emoji: formatEmoji(reaction.emoji),
+      userId: reaction.userId,
+      user: reaction.user,
+    });
+  });
+  bot.on('reactionRemove', reaction => {
+    recordEvent(bot, 'messageReactionRemove', reaction.guildId, reaction.channelId, {
+      messageId: reaction.messageId,
+      emoji: formatEmoji(reaction.emoji),
+      userId: reaction.userId,
+      user: reaction.user,
+    });
+  });
+}
+// --- End Event Inbox ---
+
+// Discord client login and error handling
+// --- Scheduled Messages ---
+// Schedules persist to scheduled-messages.json next to .env (or DISCORD_SCHEDULE_FILE) and are delivered
+// through the same audited send-message path as a tool call. Runs missed while offline are handled on
+// startup according to each schedule's catch-up policy.
+const SCHEDULE_FILE = process.env.DISCORD_SCHEDULE_FILE
+  ? path.resolve(process.env.DISCORD_SCHEDULE_FILE)
+  : path.resolve(__dirname, '..', 'scheduled-messages.json');
+
+const ScheduledMessageRecordSchema = z.object({
+  id: z.string(),
+  guildId: z.string(),
+  channelId: z.string(),
+  payload: z.record(z.unknown()),
+  at: z.string().nullable(),
+  cron: z.string().nullable(),
+  timeZone: z.string(),
+  catchUp: z.enum(['run-once', 'skip']),
+  status: z.enum(['scheduled', 'sent', 'failed', 'missed']),
+  nextRunAt: z.string().nullable(),
+  lastRunAt: z.string().nullable(),
+  lastError: z.string().nullable(),
+  runCount: z.number(),
+  createdAt: z.string(),
+});
+
+type ScheduledMessage = z.infer<typeof ScheduledMessageRecordSchema>;
+
+// Loaded once at startup; a missing file means no schedules, but an invalid file is fatal
+function loadScheduledMessages(): Map<string, ScheduledMessage> {
+  if (!existsSync(SCHEDULE_FILE)) return new Map();
+  try {
+    const { schedules } = z.object({ schedules: z.array(ScheduledMessageRecordSchema) })
+      .parse(JSON.parse(readFileSync(SCHEDULE_FILE, 'utf8')));
+    return new Map(schedules.map(schedule => [schedule.id, schedule]));
+  } catch (error) {
+    throw new Error(`Invalid schedule file ${SCHEDULE_FILE}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+const scheduledMessages = loadScheduledMessages();
+let scheduleWrite: Promise<void> = Promise.resolve();
+let schedulerTimer: NodeJS.Timeout | undefined;
+let schedulerRunning = false;
+
+// Writes are queued and replace the file atomically, so a crash never leaves it half written
+function saveScheduledMessages(): Promise<void> {
+  scheduleWrite = scheduleWrite.then(async () => {
+    const tempFile = `${SCHEDULE_FILE}.tmp`;
+    await fs.writeFile(tempFile, JSON.stringify({ schedules: Array.from(scheduledMessages.values()) }, null, 2));
+    await fs.rename(tempFile, SCHEDULE_FILE);
+  }).catch(error => {
+    console.error(`Error saving scheduled messages to ${SCHEDULE_FILE}:`, error);
+  });
+  return scheduleWrite;
+}
+
+// Helper function to compute the next run strictly after `from`; one-shot schedules only have their `at` time
+function nextScheduledRun(schedule: ScheduledMessage, from: Date): Date | null {
+  if (schedule.at) return new Date(schedule.at);
+  try {
+    return new Cron(schedule.cron!, { timezone: schedule.timeZone, paused: true }).nextRun(from);
+  } catch (error) {
+    throw new ToolError('INVALID_ARGUMENTS', `Invalid cron schedule "${schedule.cron}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+function formatScheduledMessage(schedule: ScheduledMessage) {
+  const channel = cachedChannel(schedule.channelId);
+  const upcoming: string[] = [];
+  if (schedule.cron && schedule.status === 'scheduled') {
+    let from = new Date();
+    for (let i = 0; i < 3; i++) {
+      const run = nextScheduledRun(schedule, from);
+      if (!run) break;
+      upcoming.push(run.toISOString());
+      from = run;
+    }
+  }
+  return {
+    id: schedule.id,
+    channel: channel ? `#${channel.name}` : schedule.channelId,
+    message: schedule.payload.message ?? null,
+    at: schedule.at,
+    cron: schedule.cron,
+    timeZone: schedule.timeZone,
+    catchUp: schedule.catchUp,
+    status: schedule.status,
+    nextRunAt: schedule.nextRunAt,
+    upcomingRuns: schedule.cron ? upcoming : undefined,
+    lastRunAt: schedule.lastRunAt,
+    lastError: schedule.lastError,
+    runCount: schedule.runCount,
+  };
+}
+
+async function deliverScheduledMessage(schedule: ScheduledMessage): Promise<void> {
+  const now = new Date();
+  try {
+    await auditedCallTool('send-message', schedule.payload);
+    schedule.lastError = null;
+  } catch (error) {
+    schedule.lastError = error instanceof Error ? error.message : String(error);
+    console.error(`Scheduled message ${schedule.id} failed: ${schedule.lastError}`);
+  }
+  schedule.lastRunAt = now.toISOString();
+  schedule.runCount++;
+  if (schedule.cron) {
+    // Computed from now rather than the missed time, so a catch-up sends once instead of replaying every missed run
+    schedule.nextRunAt = nextScheduledRun(schedule, now)?.toISOString() ?? null;
+    if (!schedule.nextRunAt) schedule.status = 'sent';
+  } else {
+    schedule.status = schedule.lastError ? 'failed' : 'sent';
+    schedule.nextRunAt = null;
+  }
+}
+
+async function runDueScheduledMessages(): Promise<void> {
+  if (schedulerRunning) return;
+  schedulerRunning = true;
+  try {
+    for (const schedule of scheduledMessages.values()) {
+      if (schedule.status !== 'scheduled' || !schedule.nextRunAt || Date.parse(schedule.nextRunAt) > Date.now()) continue;
+      await deliverScheduledMessage(schedule);
+      await saveScheduledMessages();
+    }
+  } finally {
+    schedulerRunning = false;
+    armScheduler();
+  }
+}
+
+// Wakes up at the next due run, or after at most a minute to stay clear of setTimeout's maximum delay
+function armScheduler(): void {
+  clearTimeout(schedulerTimer);
+  if (!botProfiles.every(profile => profile.bot.isReady()) || schedulerRunning) return;
+  const nextRuns = Array.from(scheduledMessages.values())
+    .filter(schedule => schedule.status === 'scheduled' && schedule.nextRunAt)
+    .map(schedule => Date.parse(schedule.nextRunAt!));
+  if (nextRuns.length === 0) return;
+  const delay = Math.min(Math.max(Math.min(...nextRuns) - Date.now(), 0), 60_000);
+  schedulerTimer = setTimeout(() => {
+    runDueScheduledMessages().catch(error => console.error('Error running scheduled messages:', error));
+  }, delay);
+}
+
+// Catch-up policy for runs missed while offline: "run-once" leaves the schedule due so it sends once now,
+// "skip" moves recurring schedules to their next future run and marks missed one-shot schedules as missed
+async function startScheduler(): Promise<void> {
+  const now = new Date();
+  let skipped = false;
+  for (const schedule of scheduledMessages.values()) {
+    if (schedule.status !== 'scheduled' || !schedule.nextRunAt || Date.parse(schedule.nextRunAt) > now.getTime()) continue;
+    if (schedule.catchUp === 'skip') {
+      skipped = true;
+      console.error(`Skipping missed run of scheduled message ${schedule.id} (due ${schedule.nextRunAt})`);
+      if (schedule.cron) {
+        schedule.nextRunAt = nextScheduledRun(schedule, now)?.toISOString() ?? null;
+      } else {
+        schedule.status = 'missed';
+        schedule.nextRunAt = null;
+      }
+    }
+  }
+  if (skipped) await saveScheduledMessages();
+  await runDueScheduledMessages();
+}
+
+// Stops the timer and waits for the last write, so shutting down never loses a schedule update
+function stopScheduler(): Promise<void> {
+  clearTimeout(schedulerTimer);
+  return scheduleWrite;
+}
+// --- End Scheduled Messages ---
+
+// --- HTTP Transport ---
+// Opt-in alternative to stdio (DISCORD_MCP_TRANSPORT=http or --transport http): one long-running bot serves
+// MCP Streamable HTTP at /mcp to any number of clients, each authenticated by a configured bearer token.
+const TransportConfigSchema = z.object({
+  transport: z.enum(['stdio', 'http']).default('stdio'),
+  host: z.string().default('127.0.0.1'),
+  port: z.coerce.number().int().min(0).max(65535).default(3000),
+  tokens: z.array(z.string()),
+  sessionIdleMinutes: z.coerce.number().positive().default(30),
+});
+
+type TransportConfig = z.infer<typeof TransportConfigSchema>;
+
+// Command-line flags take precedence over environment variables
+function loadTransportConfig(): TransportConfig {
+  const config = TransportConfigSchema.parse({
+    transport: cliOptions.transport ?? process.env.DISCORD_MCP_TRANSPORT,
+    host: cliOptions.host ?? process.env.DISCORD_MCP_HOST,
+    port: cliOptions.port ?? process.env.DISCORD_MCP_PORT,
+    tokens: (process.env.DISCORD_MCP_TOKENS ?? '').split(',').map(token => token.trim()).filter(Boolean),
+    sessionIdleMinutes: process.env.DISCORD_MCP_SESSION_IDLE_MINUTES,
+  });
+  if (config.transport === 'http' && config.tokens.length === 0) {
+    throw new Error('DISCORD_MCP_TOKENS must list at least one bearer token to use the HTTP transport');
+  }
+  return config;
+}
+
+// A session stays bound to the token that opened it, and is closed after going idle for sessionIdleMinutes
+interface HttpSession {
+  transport: StreamableHTTPServerTransport;
+  tokenDigest: Buffer;
+  idleTimer?: NodeJS.Timeout;
+}
+
+const httpSessions = new Map<string, HttpSession>();
+
+// Returns the digest of the presented bearer token if it is one of the configured tokens. SHA-256 digests are
+// compared in constant time, so response timing reveals nothing about the configured tokens.
+function authorizedTokenDigest(req: http.IncomingMessage, tokens: string[]): Buffer | null {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization ?? '');
+  if (!match) return null;
+  const presented = createHash('sha256').update(match[1]).digest();
+  return tokens.some(token => timingSafeEqual(presented, createHash('sha256').update(token).digest())) ? presented : null;
+}
+
+// Helper function to restart a session's idle timer on every request it receives
+function touchHttpSession(session: HttpSession, idleMinutes: number) {
+  clearTimeout(session.idleTimer);
+  session.idleTimer = setTimeout(() => {
+    session.transport.close().catch(error => console.error('Error closing idle MCP session:', error));
+  }, idleMinutes * 60_000);
+  session.idleTimer.unref();
+}
+
+function sendJsonRpcError(res: http.ServerResponse, status: number, message: string, headers: Record<string, string> = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32000, message }, id: null }));
+}
+
+async function handleHttpRequest(req: http.IncomingMessage, res: http.ServerResponse, config: TransportConfig): Promise<void> {
+  if (new URL(req.url ?? '/', 'http://localhost').pathname !== '/mcp') {
+    sendJsonRpcError(res, 404, 'Not found. The MCP endpoint is /mcp.');
+    return;
+  }
+  const tokenDigest = authorizedTokenDigest(req, config.tokens);
+  if (!tokenDigest) {
+    sendJsonRpcError(res, 401, 'Unauthorized: send "Authorization: Bearer <token>" with one of the configured tokens.', { 'WWW-Authenticate': 'Bearer' });
+    return;
+  }
+
+  const sessionId = req.headers['mcp-session-id'];
+  if (typeof sessionId === 'string') {
+    const session = httpSessions.get(sessionId);
+    if (!session) {
+      sendJsonRpcError(res, 404, `Session "${sessionId}" not found. Start a new session with an initialize request.`);
+      return;
+    }
+    if (!timingSafeEqual(tokenDigest, session.tokenDigest)) {
+      sendJsonRpcError(res, 403, `Forbidden: session "${sessionId}" was opened with a different token.`);
+      return;
+    }
+    touchHttpSession(session, config.sessionIdleMinutes);
+    await session.transport.handleRequest(req, res);
+    return;
+  }
+
+  // Without a session ID only an initialize request is valid; the transport rejects anything else
+  const transport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => randomUUID(),
+    onsessioninitialized: id => {
+      const session: HttpSession = { transport, tokenDigest };
+      httpSessions.set(id, session);
+      touchHttpSession(session, config.sessionIdleMinutes);
+    },
+  });
+  transport.onclose = () => {
+    if (!transport.sessionId) return;
+    clearTimeout(httpSessions.get(transport.sessionId)?.idleTimer);
+    httpSessions.delete(transport.sessionId);
+  };
+  const server = createServer();
+  await server.connect(transport);
+  await transport.handleRequest(req, res);
+  if (!transport.sessionId) await server.close();
+}
+
+async function startHttpServer(config: TransportConfig): Promise<http.Server> {
+  const httpServer = http.createServer((req, res) => {
+    handleHttpRequest(req, res, config).catch(error => {
+      console.error('Error handling MCP HTTP request:', error);
+      if (!res.headersSent) sendJsonRpcError(res, 500, 'Internal server error');
+      else res.end();
+    });
+  });
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(config.port, config.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+  return httpServer;
+}
+// --- End HTTP Transport ---
+
+// --- Shutdown ---
+// On SIGINT or SIGTERM, stop taking requests, close every MCP session, finish pending schedule writes
+// and log every bot out of the gateway before exiting
+let shuttingDown = false;
+
+async function shutdown(signal: string, httpServer?: http.Server): Promise<void> {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  console.error(`Received ${signal}, shutting down...`);
+  try {
+    httpServer?.close();
+    await Promise.all(Array.from(sessions, session => session.server.close()));
+    httpServer?.closeAllConnections();
+    await stopScheduler();
+    await Promise.all(botProfiles.map(profile => profile.bot.destroy()));
+  } catch (error) {
+    console.error('Error during shutdown:', error);
+    process.exit(1);
+  }
+  process.exit(0);
+}
+// --- End Shutdown ---
+
+// Schedules may target any bot, so the scheduler starts once every bot is ready
+Promise.all(botProfiles.map(({ name, bot }) => new Promise<void>(resolve => {
+  bot.on('ready', user => {
+    console.error(`Discord bot "${name}" is ready as ${user.tag}!`);
+    resolve();
+  });
+}))).then(() => {
+  startScheduler().catch(error => console.error('Error starting the message scheduler:', error));
+});
+
+// Start the server
+async function main() {
+  try {
+    // Check for a token for every bot
+    const missing = botProfiles.filter(profile => !profile.token);
+    if (missing.length > 0) {
+      throw new Error(`No Discord token set for ${missing.map(profile => `bot "${profile.name}" (${profile.tokenSource})`).join(', ')}`);
+    }
+    const config = loadTransportConfig();
+
+    // Log every bot in to Discord concurrently
+    await Promise.all(botProfiles.map(profile => profile.bot.login(profile.token!)));
+
+    // Start MCP server
+    let httpServer: http.Server | undefined;
+    if (config.transport === 'http') {
+      httpServer = await startHttpServer(config);
+      console.error(`Discord MCP Server running on http://${config.host}:${config.port}/mcp`);
+    } else {
+      await createServer().connect(new StdioServerTransport());
+      console.error("Discord MCP Server running on stdio");
+    }
+
+    for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+      process.on(signal, () => void shutdown(signal, httpServer));
+    }
+  } catch (error) {
+    console.error("Fatal error in main():", error);
+    process.exit(1);
+  }
+}
+
 main();
\ No newline at end of file
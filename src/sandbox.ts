@@ -0,0 +1,1660 @@
+// In-memory Discord used by --sandbox mode.
+//
+// DiscordSandbox holds the servers, channels, members and messages seeded from a fixture file, and hands
+// each fixture bot a SandboxBackend: the same DiscordBackend interface the real bots implement with
+// discord.js, so the server's lookups and tool handlers run unchanged without a token or network access.
+import { EventEmitter } from 'events';
+import fs from 'fs/promises';
+import {
+  AuditLogEvent,
+  AutoModerationRuleTriggerType,
+  ChannelType,
+  PermissionFlagsBits,
+  PermissionsBitField,
+  RESTJSONErrorCodes,
+  SnowflakeUtil,
+} from 'discord.js';
+import { z } from 'zod';
+import { DiscordRequestError, isTextBasedType, isThreadType, messageUrl } from './backend.js';
+import type {
+  AttachmentInfo,
+  AuditLogEntryInfo,
+  AuditLogFetchOptions,
+  AutoModRuleEdit,
+  AutoModRuleInfo,
+  AutoModRuleOptions,
+  BanInfo,
+  ChannelCreateOptions,
+  ChannelEditOptions,
+  ChannelInfo,
+  DiscordBackend,
+  DiscordEvents,
+  EmojiInfo,
+  ForumPostOptions,
+  ForumTagInfo,
+  GuildCounts,
+  GuildInfo,
+  MemberInfo,
+  MessageFetchOptions,
+  MessageInfo,
+  OutgoingMessage,
+  PermissionOverwriteInfo,
+  RoleInfo,
+  RoleOptions,
+  ThreadCreateOptions,
+  UserInfo,
+} from './backend.js';
+
+// --- Fixture ---
+const TIME_UNITS_MS: Record<string, number> = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 };
+
+// Fixture times are ISO dates, "now", or offsets from startup such as "-3d" or "+1h", so seeded history
+// keeps the same shape whenever the sandbox starts
+const FixtureTimeSchema = z.string().transform((value, ctx) => {
+  const offset = /^([+-])(\d+)([smhd])$/.exec(value);
+  const time = value === 'now'
+    ? Date.now()
+    : offset
+      ? Date.now() + (offset[1] === '-' ? -1 : 1) * Number(offset[2]) * TIME_UNITS_MS[offset[3]]
+      : Date.parse(value);
+  if (Number.isNaN(time)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid time "${value}": use an ISO date, "now" or an offset like "-3d"` });
+    return z.NEVER;
+  }
+  return time;
+});
+
+const SnowflakeSchema = z.string().regex(/^\d{17,20}$/, 'Expected a Discord ID');
+
+const PermissionNamesSchema = z.array(z.string().refine(
+  name => name in PermissionFlagsBits,
+  name => ({ message: `Unknown permission "${name}"` }),
+)).default([]);
+
+const FIXTURE_CHANNEL_TYPES = {
+  text: ChannelType.GuildText,
+  voice: ChannelType.GuildVoice,
+  category: ChannelType.GuildCategory,
+  announcement: ChannelType.GuildAnnouncement,
+  stage: ChannelType.GuildStageVoice,
+  forum: ChannelType.GuildForum,
+  'public-thread': ChannelType.PublicThread,
+  'private-thread': ChannelType.PrivateThread,
+  'announcement-thread': ChannelType.AnnouncementThread,
+} as const;
+
+const FixtureChannelSchema = z.object({
+  id: SnowflakeSchema,
+  name: z.string(),
+  type: z.enum(Object.keys(FIXTURE_CHANNEL_TYPES) as [keyof typeof FIXTURE_CHANNEL_TYPES]),
+  parent: SnowflakeSchema.optional(),
+  position: z.number().int().optional(),
+  topic: z.string().optional(),
+  nsfw: z.boolean().optional(),
+  slowmode: z.number().int().optional(),
+  permissionOverwrites: z.array(z.object({
+    id: SnowflakeSchema,
+    type: z.enum(['role', 'member']),
+    allow: PermissionNamesSchema,
+    deny: PermissionNamesSchema,
+  }).strict()).optional(),
+  tags: z.array(z.object({ id: SnowflakeSchema, name: z.string(), emoji: z.string().optional() }).strict()).optional(),
+  // Threads only
+  owner: SnowflakeSchema.optional(),
+  archived: z.boolean().optional(),
+  locked: z.boolean().optional(),
+  appliedTags: z.array(SnowflakeSchema).optional(),
+}).strict();
+
+const FixtureMessageSchema = z.object({
+  channel: SnowflakeSchema,
+  author: SnowflakeSchema,
+  sentAt: FixtureTimeSchema,
+  content: z.string(),
+  pinned: z.boolean().optional(),
+  reactions: z.array(z.object({
+    emoji: z.string().describe('A unicode emoji or the name of one of the server emojis'),
+    users: z.array(SnowflakeSchema),
+  }).strict()).optional(),
+  poll: z.object({
+    question: z.string(),
+    answers: z.array(z.object({ text: z.string(), emoji: z.string().optional(), voters: z.array(SnowflakeSchema).default([]) }).strict()),
+    expiresAt: FixtureTimeSchema,
+    allowMultiselect: z.boolean().optional(),
+  }).strict().optional(),
+  attachments: z.array(z.object({
+    name: z.string(),
+    contentType: z.string().optional(),
+    size: z.number().int(),
+  }).strict()).optional(),
+}).strict();
+
+const FixtureGuildSchema = z.object({
+  id: SnowflakeSchema,
+  name: z.string(),
+  owner: SnowflakeSchema,
+  roles: z.array(z.object({
+    id: SnowflakeSchema,
+    name: z.string(),
+    position: z.number().int(),
+    permissions: PermissionNamesSchema,
+    color: z.number().int().optional(),
+    hoist: z.boolean().optional(),
+    mentionable: z.boolean().optional(),
+    bot: SnowflakeSchema.optional().describe('Makes this the managed role of the given bot user'),
+  }).strict()),
+  channels: z.array(FixtureChannelSchema).default([]),
+  members: z.array(z.object({
+    user: SnowflakeSchema,
+    nickname: z.string().optional(),
+    roles: z.array(SnowflakeSchema).default([]),
+    joinedAt: FixtureTimeSchema,
+    timedOutUntil: FixtureTimeSchema.optional(),
+  }).strict()),
+  bans: z.array(z.object({ user: SnowflakeSchema, reason: z.string().optional() }).strict()).default([]),
+  emojis: z.array(z.object({ id: SnowflakeSchema, name: z.string() }).strict()).default([]),
+  messages: z.array(FixtureMessageSchema).default([]),
+}).strict().refine(guild => guild.roles.some(role => role.id === guild.id), {
+  message: 'Every server needs an @everyone role whose ID is the server ID',
+});
+
+export const SandboxFixtureSchema = z.object({
+  bots: z.record(z.object({ id: SnowflakeSchema, username: z.string() }).strict())
+    .refine(bots => Object.keys(bots).length > 0, { message: 'Define at least one bot' }),
+  users: z.array(z.object({
+    id: SnowflakeSchema,
+    username: z.string(),
+    globalName: z.string().optional(),
+    bot: z.boolean().optional(),
+  }).strict()).default([]),
+  guilds: z.array(FixtureGuildSchema),
+}).strict();
+
+export type SandboxFixture = z.infer<typeof SandboxFixtureSchema>;
+// --- End Fixture ---
+
+// --- State ---
+interface ThreadRecord {
+  ownerId: string;
+  archived: boolean;
+  locked: boolean;
+  archivedAt: number;
+  appliedTags: string[];
+}
+
+interface ChannelRecord {
+  id: string;
+  type: ChannelType;
+  guildId: string;
+  name: string;
+  parentId: string | null;
+  // The stored position; the position reported to callers is the channel's index among its siblings
+  rawPosition: number;
+  overwrites: PermissionOverwriteInfo[];
+  topic: string | null;
+  nsfw: boolean;
+  rateLimitPerUser: number;
+  lastMessageId: string | null;
+  availableTags: ForumTagInfo[];
+  thread: ThreadRecord | null;
+}
+
+interface RoleRecord {
+  id: string;
+  name: string;
+  color: number;
+  hoist: boolean;
+  position: number;
+  permissions: bigint;
+  mentionable: boolean;
+  // The bot user this role is the managed role of
+  botId: string | null;
+}
+
+interface MemberRecord {
+  userId: string;
+  nick: string | null;
+  roles: string[];
+  joinedAt: Date;
+  communicationDisabledUntil: Date | null;
+}
+
+interface ReactionRecord {
+  emoji: EmojiInfo;
+  users: string[];
+}
+
+interface PollRecord {
+  question: string;
+  answers: { id: number; text: string; emoji: EmojiInfo | null; voters: string[] }[];
+  expiresAt: Date;
+  allowMultiselect: boolean;
+}
+
+interface MessageRecord {
+  id: string;
+  channelId: string;
+  authorId: string;
+  content: string;
+  editedAt: Date | null;
+  pinned: boolean;
+  embedCount: number;
+  attachments: AttachmentInfo[];
+  reactions: ReactionRecord[];
+  poll: PollRecord | null;
+  threadId: string | null;
+}
+
+interface AuditEntryRecord {
+  id: string;
+  action: AuditLogEvent;
+  userId: string;
+  targetId: string | null;
+  reason: string | null;
+  changes: AuditLogEntryInfo['changes'];
+}
+
+interface GuildRecord {
+  id: string;
+  name: string;
+  ownerId: string;
+  roles: Map<string, RoleRecord>;
+  members: Map<string, MemberRecord>;
+  bans: Map<string, string | null>;
+  emojis: { id: string; name: string }[];
+  autoModRules: Map<string, AutoModRuleInfo>;
+  auditLog: AuditEntryRecord[];
+}
+
+// Everything the bots of one sandbox share
+interface SandboxWorld {
+  users: Map<string, UserInfo>;
+  guilds: Map<string, GuildRecord>;
+  channels: Map<string, ChannelRecord>;
+  messages: Map<string, MessageRecord[]>;
+  // Logged-in bots, which receive the events of the guilds they are in
+  connected: Set<SandboxBackend>;
+}
+// --- End State ---
+
+const BULK_DELETE_MAX_AGE_MS = 14 * 24 * 60 * 60 * 1000;
+const MAX_PINS = 50;
+const MAX_REACTIONS = 20;
+
+// Channels sort against others of the same group, the way Discord clients list them
+const SORT_GROUPS: ChannelType[][] = [
+  [ChannelType.GuildText, ChannelType.GuildAnnouncement, ChannelType.GuildForum, ChannelType.GuildMedia],
+  [ChannelType.GuildVoice, ChannelType.GuildStageVoice],
+  [ChannelType.GuildCategory],
+];
+
+function compareIds(a: string, b: string): number {
+  const difference = BigInt(a) - BigInt(b);
+  return difference < 0n ? -1 : difference > 0n ? 1 : 0;
+}
+
+function newId(timestamp = Date.now()): string {
+  return SnowflakeUtil.generate({ timestamp }).toString();
+}
+
+function idTime(id: string): Date {
+  return new Date(SnowflakeUtil.timestampFrom(id));
+}
+
+function missingPermissions(): DiscordRequestError {
+  return new DiscordRequestError(RESTJSONErrorCodes.MissingPermissions, 'Missing Permissions');
+}
+
+function invalidFormBody(detail: string): DiscordRequestError {
+  return new DiscordRequestError(RESTJSONErrorCodes.InvalidFormBodyOrContentType, `Invalid Form Body: ${detail}`);
+}
+
+function sameEmoji(a: EmojiInfo, b: EmojiInfo): boolean {
+  return a.id ? a.id === b.id : !b.id && a.name === b.name;
+}
+
+export class DiscordSandbox {
+  readonly bots: string[];
+  private readonly botUserIds = new Map<string, string>();
+  private readonly world: SandboxWorld = {
+    users: new Map(),
+    guilds: new Map(),
+    channels: new Map(),
+    messages: new Map(),
+    connected: new Set(),
+  };
+
+  constructor(fixture: SandboxFixture) {
+    this.bots = Object.keys(fixture.bots);
+    for (const [name, bot] of Object.entries(fixture.bots)) {
+      this.botUserIds.set(name, bot.id);
+      this.world.users.set(bot.id, DiscordSandbox.user(bot.id, bot.username, null, true));
+    }
+    for (const user of fixture.users) {
+      this.world.users.set(user.id, DiscordSandbox.user(user.id, user.username, user.globalName ?? null, user.bot ?? false));
+    }
+    for (const guild of fixture.guilds) this.seedGuild(guild);
+  }
+
+  /** The backend one fixture bot reads and acts on the sandbox through. */
+  backend(bot: string): SandboxBackend {
+    const botUserId = this.botUserIds.get(bot);
+    if (!botUserId) throw new Error(`Sandbox fixture has no bot "${bot}"`);
+    return new SandboxBackend(this.world, botUserId);
+  }
+
+  private static user(id: string, username: string, globalName: string | null, bot: boolean): UserInfo {
+    return { id, username, globalName, tag: username, bot, createdAt: idTime(id) };
+  }
+
+  // --- Seeding ---
+  private seedGuild(fixture: z.infer<typeof FixtureGuildSchema>): void {
+    const guild: GuildRecord = {
+      id: fixture.id,
+      name: fixture.name,
+      ownerId: fixture.owner,
+      roles: new Map(),
+      members: new Map(),
+      bans: new Map(),
+      emojis: fixture.emojis,
+      autoModRules: new Map(),
+      auditLog: [],
+    };
+    this.world.guilds.set(guild.id, guild);
+    for (const role of fixture.roles) {
+      guild.roles.set(role.id, {
+        id: role.id,
+        name: role.name,
+        color: role.color ?? 0,
+        hoist: role.hoist ?? false,
+        position: role.position,
+        permissions: PermissionsBitField.resolve(role.permissions as (keyof typeof PermissionFlagsBits)[]),
+        mentionable: role.mentionable ?? false,
+        botId: role.bot ?? null,
+      });
+    }
+    for (const member of fixture.members) {
+      this.requireFixtureUser(member.user, `member of ${fixture.name}`);
+      guild.members.set(member.user, {
+        userId: member.user,
+        nick: member.nickname ?? null,
+        roles: member.roles,
+        joinedAt: new Date(member.joinedAt),
+        communicationDisabledUntil: member.timedOutUntil ? new Date(member.timedOutUntil) : null,
+      });
+    }
+    for (const ban of fixture.bans) {
+      this.requireFixtureUser(ban.user, `ban in ${fixture.name}`);
+      guild.bans.set(ban.user, ban.reason ?? null);
+    }
+    for (const channel of fixture.channels) {
+      const type = FIXTURE_CHANNEL_TYPES[channel.type];
+      this.world.channels.set(channel.id, {
+        id: channel.id,
+        type,
+        guildId: guild.id,
+        name: channel.name,
+        parentId: channel.parent ?? null,
+        rawPosition: channel.position ?? 0,
+        overwrites: (channel.permissionOverwrites ?? []).map(overwrite => ({
+          id: overwrite.id,
+          type: overwrite.type,
+          allow: PermissionsBitField.resolve(overwrite.allow as (keyof typeof PermissionFlagsBits)[]),
+          deny: PermissionsBitField.resolve(overwrite.deny as (keyof typeof PermissionFlagsBits)[]),
+        })),
+        topic: channel.topic ?? null,
+        nsfw: channel.nsfw ?? false,
+        rateLimitPerUser: channel.slowmode ?? 0,
+        lastMessageId: null,
+        availableTags: (channel.tags ?? []).map(tag => ({ id: tag.id, name: tag.name })),
+        thread: isThreadType(type)
+          ? {
+            ownerId: channel.owner ?? fixture.owner,
+            archived: channel.archived ?? false,
+            locked: channel.locked ?? false,
+            archivedAt: SnowflakeUtil.timestampFrom(channel.id),
+            appliedTags: channel.appliedTags ?? [],
+          }
+          : null,
+      });
+      this.world.messages.set(channel.id, []);
+    }
+    for (const channel of fixture.channels) {
+      if (channel.parent && !this.world.channels.has(channel.parent)) {
+        throw new Error(`Channel ${channel.name} has unknown parent ${channel.parent}`);
+      }
+    }
+    for (const message of fixture.messages) {
+      const channel = this.world.channels.get(message.channel);
+      if (!channel || channel.guildId !== guild.id) throw new Error(`Message in unknown channel ${message.channel}`);
+      this.requireFixtureUser(message.author, `author of a message in #${channel.name}`);
+      insertMessage(this.world, {
+        id: newId(message.sentAt),
+        channelId: channel.id,
+        authorId: message.author,
+        content: message.content,
+        editedAt: null,
+        pinned: message.pinned ?? false,
+        embedCount: 0,
+        attachments: (message.attachments ?? []).map(attachment => newAttachment(channel.id, attachment.name, attachment.size, attachment.contentType ?? null)),
+        reactions: (message.reactions ?? []).map(reaction => ({ emoji: this.fixtureEmoji(guild, reaction.emoji), users: reaction.users })),
+        poll: message.poll
+          ? {
+            question: message.poll.question,
+            answers: message.poll.answers.map((answer, index) => ({
+              id: index + 1,
+              text: answer.text,
+              emoji: answer.emoji ? this.fixtureEmoji(guild, answer.emoji) : null,
+              voters: answer.voters,
+            })),
+            expiresAt: new Date(message.poll.expiresAt),
+            allowMultiselect: message.poll.allowMultiselect ?? false,
+          }
+          : null,
+        threadId: null,
+      });
+    }
+  }
+
+  private requireFixtureUser(userId: string, context: string): void {
+    if (!this.world.users.has(userId)) throw new Error(`Unknown user ${userId} (${context}); add it to "users"`);
+  }
+
+  private fixtureEmoji(guild: GuildRecord, emoji: string): EmojiInfo {
+    const custom = guild.emojis.find(candidate => candidate.name === emoji);
+    return custom ? { id: custom.id, name: custom.name, animated: false } : { id: null, name: emoji, animated: false };
+  }
+  // --- End Seeding ---
+}
+
+function newAttachment(channelId: string, name: string, size: number, contentType: string | null): AttachmentInfo {
+  const id = newId();
+  return { id, name, size, url: `https://cdn.discordapp.com/attachments/${channelId}/${id}/${encodeURIComponent(name)}`, contentType };
+}
+
+function insertMessage(world: SandboxWorld, message: MessageRecord): void {
+  const history = world.messages.get(message.channelId)!;
+  history.push(message);
+  history.sort((a, b) => compareIds(a.id, b.id));
+  world.channels.get(message.channelId)!.lastMessageId = history[history.length - 1].id;
+}
+
+/**
+ * One fixture bot's view of the sandbox. Requests answer on a later turn of the event loop, like real
+ * ones, and fail with the error codes Discord would use. Server-level permissions and the role hierarchy
+ * are enforced; of the channel overwrites, only ViewChannel restricts the bot, for message requests.
+ */
+export class SandboxBackend implements DiscordBackend {
+  private readonly events = new EventEmitter();
+  private ready = false;
+
+  constructor(private readonly world: SandboxWorld, private readonly userId: string) {}
+
+  get user(): UserInfo | null {
+    return this.ready ? this.world.users.get(this.userId)! : null;
+  }
+
+  isReady(): boolean {
+    return this.ready;
+  }
+
+  async login(_token: string): Promise<void> {
+    await new Promise(resolve => setImmediate(resolve));
+    this.ready = true;
+    this.world.connected.add(this);
+    this.events.emit('ready', this.user);
+  }
+
+  async destroy(): Promise<void> {
+    this.ready = false;
+    this.world.connected.delete(this);
+  }
+
+  on<E extends keyof DiscordEvents>(event: E, listener: (...args: DiscordEvents[E]) => void): void {
+    this.events.on(event, listener as (...args: unknown[]) => void);
+  }
+
+  /** Sends an event to every logged-in bot that is in the guild, rendered for that bot. */
+  private dispatch<E extends keyof DiscordEvents>(guildId: string, event: E, args: (viewer: SandboxBackend) => DiscordEvents[E]): void {
+    const guild = this.world.guilds.get(guildId);
+    for (const backend of this.world.connected) {
+      if (guild?.members.has(backend.userId)) backend.events.emit(event, ...args(backend));
+    }
+  }
+
+  // Helper function to answer a request on a later turn of the event loop, as the network would
+  private async request<T>(run: () => T | Promise<T>): Promise<T> {
+    await new Promise(resolve => setTimeout(resolve, 0));
+    return run();
+  }
+
+  // --- Lookups ---
+  private guildRecord(guildId: string): GuildRecord {
+    const guild = this.world.guilds.get(guildId);
+    if (!guild) throw new DiscordRequestError(RESTJSONErrorCodes.UnknownGuild, 'Unknown Guild');
+    if (!guild.members.has(this.userId)) throw new DiscordRequestError(RESTJSONErrorCodes.MissingAccess, 'Missing Access');
+    return guild;
+  }
+
+  private channelRecord(channelId: string): ChannelRecord {
+    const channel = this.world.channels.get(channelId);
+    if (!channel) throw new DiscordRequestError(RESTJSONErrorCodes.UnknownChannel, 'Unknown Channel');
+    this.guildRecord(channel.guildId);
+    return channel;
+  }
+
+  // Message requests also need ViewChannel after overwrites, or Discord answers Missing Access
+  private textChannelRecord(channelId: string): ChannelRecord {
+    const channel = this.channelRecord(channelId);
+    if (!isTextBasedType(channel.type)) {
+      throw new DiscordRequestError(RESTJSONErrorCodes.CannotSendMessagesInNonTextChannel, 'Cannot send messages in a non-text channel');
+    }
+    const guild = this.world.guilds.get(channel.guildId)!;
+    if (!(this.channelPermissions(guild, channel, this.userId) & PermissionFlagsBits.ViewChannel)) {
+      throw new DiscordRequestError(RESTJSONErrorCodes.MissingAccess, 'Missing Access');
+    }
+    return channel;
+  }
+
+  private messageRecord(channel: ChannelRecord, messageId: string): MessageRecord {
+    const message = this.world.messages.get(channel.id)!.find(candidate => candidate.id === messageId);
+    if (!message) throw new DiscordRequestError(RESTJSONErrorCodes.UnknownMessage, 'Unknown Message');
+    return message;
+  }
+
+  private roleRecord(guild: GuildRecord, roleId: string): RoleRecord {
+    const role = guild.roles.get(roleId);
+    if (!role) throw new DiscordRequestError(RESTJSONErrorCodes.UnknownRole, 'Unknown Role');
+    return role;
+  }
+
+  private memberRecord(guild: GuildRecord, userId: string): MemberRecord {
+    const member = guild.members.get(userId);
+    if (!member) throw new DiscordRequestError(RESTJSONErrorCodes.UnknownMember, 'Unknown Member');
+    return member;
+  }
+
+  private userRecord(userId: string): UserInfo {
+    const user = this.world.users.get(userId);
+    if (!user) throw new DiscordRequestError(RESTJSONErrorCodes.UnknownUser, 'Unknown User');
+    return user;
+  }
+
+  private memberMatches(member: MemberRecord, query: string): boolean {
+    const user = this.world.users.get(member.userId)!;
+    const needle = query.toLowerCase();
+    return [user.username, user.globalName, member.nick].some(name => name?.toLowerCase().startsWith(needle));
+  }
+
+  // Custom emoji have to belong to the server
+  private guildEmoji(guild: GuildRecord, emoji: EmojiInfo): EmojiInfo {
+    if (!emoji.id) return { id: null, name: emoji.name, animated: false };
+    const custom = guild.emojis.find(candidate => candidate.id === emoji.id);
+    if (!custom) throw new DiscordRequestError(RESTJSONErrorCodes.UnknownEmoji, 'Unknown Emoji');
+    return { id: custom.id, name: custom.name, animated: false };
+  }
+
+  private guildChannels(guild: GuildRecord): ChannelRecord[] {
+    return [...this.world.channels.values()].filter(channel => channel.guildId === guild.id);
+  }
+
+  // The non-thread channels a channel is ordered against, in display order
+  private siblings(channel: ChannelRecord): ChannelRecord[] {
+    const group = SORT_GROUPS.find(types => types.includes(channel.type)) ?? [channel.type];
+    return [...this.world.channels.values()]
+      .filter(candidate => candidate.guildId === channel.guildId && !candidate.thread && group.includes(candidate.type))
+      .filter(candidate => channel.type === ChannelType.GuildCategory || candidate.parentId === channel.parentId)
+      .sort((a, b) => a.rawPosition - b.rawPosition || compareIds(a.id, b.id));
+  }
+  // --- End Lookups ---
+
+  // --- Permissions ---
+  private permissions(guild: GuildRecord, userId: string): bigint {
+    if (guild.ownerId === userId) return PermissionsBitField.All;
+    let permissions = guild.roles.get(guild.id)!.permissions;
+    for (const roleId of guild.members.get(userId)?.roles ?? []) permissions |= guild.roles.get(roleId)?.permissions ?? 0n;
+    return permissions & PermissionFlagsBits.Administrator ? PermissionsBitField.All : permissions;
+  }
+
+  // Server permissions with the channel's overwrites applied in Discord's order: @everyone, then roles, then the
+  // member. Threads use their parent's overwrites.
+  private channelPermissions(guild: GuildRecord, channel: ChannelRecord, userId: string): bigint {
+    let permissions = this.permissions(guild, userId);
+    if (permissions === PermissionsBitField.All) return permissions;
+    const { overwrites } = channel.thread ? this.world.channels.get(channel.parentId!)! : channel;
+    const roleIds = new Set(guild.members.get(userId)?.roles ?? []);
+    const everyone = overwrites.find(overwrite => overwrite.id === guild.id);
+    if (everyone) permissions = (permissions & ~everyone.deny) | everyone.allow;
+    let allow = 0n;
+    let deny = 0n;
+    for (const overwrite of overwrites) {
+      if (overwrite.type !== 'role' || !roleIds.has(overwrite.id)) continue;
+      allow |= overwrite.allow;
+      deny |= overwrite.deny;
+    }
+    permissions = (permissions & ~deny) | allow;
+    const member = overwrites.find(overwrite => overwrite.type === 'member' && overwrite.id === userId);
+    if (member) permissions = (permissions & ~member.deny) | member.allow;
+    return permissions;
+  }
+
+  private requirePermission(guild: GuildRecord, permission: bigint): void {
+    if ((this.permissions(guild, this.userId) & permission) !== permission) throw missingPermissions();
+  }
+
+  private highestRolePosition(guild: GuildRecord, userId: string): number {
+    if (guild.ownerId === userId) return Number.POSITIVE_INFINITY;
+    const positions = (guild.members.get(userId)?.roles ?? []).map(roleId => guild.roles.get(roleId)?.position ?? 0);
+    return Math.max(0, ...positions);
+  }
+
+  private requireAboveRole(guild: GuildRecord, role: RoleRecord): void {
+    if (role.botId || role.id === guild.id || this.highestRolePosition(guild, this.userId) <= role.position) throw missingPermissions();
+  }
+
+  private requireAboveMember(guild: GuildRecord, targetId: string): void {
+    if (targetId === guild.ownerId || this.highestRolePosition(guild, this.userId) <= this.highestRolePosition(guild, targetId)) {
+      throw missingPermissions();
+    }
+  }
+  // --- End Permissions ---
+
+  // --- Records ---
+  private toGuild(guild: GuildRecord): GuildInfo {
+    return { id: guild.id, name: guild.name, ownerId: guild.ownerId, memberCount: guild.members.size };
+  }
+
+  private toMember(guild: GuildRecord, member: MemberRecord): MemberInfo {
+    const user = this.world.users.get(member.userId)!;
+    return {
+      id: member.userId,
+      guild: this.toGuild(guild),
+      user,
+      nickname: member.nick,
+      displayName: member.nick ?? user.globalName ?? user.username,
+      roleIds: [...member.roles],
+      joinedAt: member.joinedAt,
+      premiumSince: null,
+      pending: false,
+      communicationDisabledUntil: member.communicationDisabledUntil,
+      // Members without an avatar get one of Discord's default ones
+      avatarUrl: `https://cdn.discordapp.com/embed/avatars/${(BigInt(member.userId) >> 22n) % 6n}.png`,
+    };
+  }
+
+  private toRole(guild: GuildRecord, role: RoleRecord): RoleInfo {
+    return {
+      id: role.id,
+      guild: this.toGuild(guild),
+      name: role.name,
+      color: role.color,
+      hoist: role.hoist,
+      position: role.position,
+      permissions: role.permissions,
+      mentionable: role.mentionable,
+      managed: role.botId !== null,
+      tags: role.botId ? { botId: role.botId, premiumSubscriberRole: false, integrationId: null } : null,
+    };
+  }
+
+  private toChannel(channel: ChannelRecord): ChannelInfo {
+    const guild = this.world.guilds.get(channel.guildId)!;
+    const parent = channel.parentId ? this.world.channels.get(channel.parentId) ?? null : null;
+    const { thread } = channel;
+    return {
+      id: channel.id,
+      guild: this.toGuild(guild),
+      name: channel.name,
+      type: channel.type,
+      parentId: channel.parentId,
+      parent: parent ? this.toChannel(parent) : null,
+      position: thread ? 0 : this.siblings(channel).indexOf(channel),
+      topic: channel.topic,
+      nsfw: channel.nsfw,
+      rateLimitPerUser: channel.rateLimitPerUser,
+      lastMessageId: channel.lastMessageId,
+      permissionOverwrites: channel.overwrites.map(overwrite => ({ ...overwrite })),
+      permissionsLocked: thread || !parent
+        ? null
+        : parent.overwrites.length === channel.overwrites.length && channel.overwrites.every(overwrite => parent.overwrites.some(candidate =>
+          candidate.id === overwrite.id && candidate.allow === overwrite.allow && candidate.deny === overwrite.deny)),
+      availableTags: channel.availableTags.map(tag => ({ ...tag })),
+      requireTag: false,
+      thread: thread
+        ? {
+          ownerId: thread.ownerId,
+          archived: thread.archived,
+          locked: thread.locked,
+          messageCount: this.world.messages.get(channel.id)!.length,
+          memberCount: 1,
+          createdAt: idTime(channel.id),
+          appliedTags: [...thread.appliedTags],
+        }
+        : null,
+    };
+  }
+
+  private toMessage(message: MessageRecord, viewer: string): MessageInfo {
+    const channel = this.world.channels.get(message.channelId)!;
+    const thread = message.threadId ? this.world.channels.get(message.threadId) : undefined;
+    const { poll } = message;
+    return {
+      id: message.id,
+      channelId: channel.id,
+      guildId: channel.guildId,
+      author: this.world.users.get(message.authorId)!,
+      content: message.content,
+      createdAt: idTime(message.id),
+      editedAt: message.editedAt,
+      pinned: message.pinned,
+      url: messageUrl(channel.guildId, channel.id, message.id),
+      mentionedUserIds: [...message.content.matchAll(/<@!?(\d+)>/g)].map(match => match[1]).filter(id => this.world.users.has(id)),
+      attachments: message.attachments.map(attachment => ({ ...attachment })),
+      embedCount: message.embedCount,
+      reactions: message.reactions.map(reaction => ({ emoji: reaction.emoji, count: reaction.users.length, me: reaction.users.includes(viewer) })),
+      poll: poll
+        ? {
+          question: poll.question,
+          answers: poll.answers.map(answer => ({ id: answer.id, text: answer.text, emoji: answer.emoji, voteCount: answer.voters.length })),
+          expiresAt: poll.expiresAt,
+          allowMultiselect: poll.allowMultiselect,
+          resultsFinalized: poll.expiresAt.getTime() <= Date.now(),
+        }
+        : null,
+      thread: thread ? { id: thread.id, name: thread.name } : null,
+    };
+  }
+
+  private toAutoModRule(rule: AutoModRuleInfo): AutoModRuleInfo {
+    return structuredClone(rule);
+  }
+  // --- End Records ---
+
+  // --- Audit Log ---
+  private audit(guild: GuildRecord, action: AuditLogEvent, targetId: string | null, reason?: string, changes: AuditEntryRecord['changes'] = []): void {
+    guild.auditLog.push({ id: newId(), action, userId: this.userId, targetId, reason: reason ?? null, changes });
+  }
+
+  private static changes<T extends object>(before: T, after: T, keys: (keyof T & string)[]): AuditEntryRecord['changes'] {
+    return keys
+      .filter(key => JSON.stringify(before[key], (_key, value) => typeof value === 'bigint' ? value.toString() : value)
+        !== JSON.stringify(after[key], (_key, value) => typeof value === 'bigint' ? value.toString() : value))
+      .map(key => ({ key, old: before[key], new: after[key] }));
+  }
+
+  // Deleted targets are named by the entry's own name change, as Discord does
+  private auditTarget(guild: GuildRecord, entry: AuditEntryRecord): string | null {
+    if (!entry.targetId) return null;
+    const named = this.world.users.get(entry.targetId)?.tag
+      ?? this.world.channels.get(entry.targetId)?.name
+      ?? guild.roles.get(entry.targetId)?.name
+      ?? guild.autoModRules.get(entry.targetId)?.name;
+    if (named) return named;
+    const name = entry.changes.find(change => change.key === 'name');
+    return (name?.new ?? name?.old ?? null) as string | null;
+  }
+
+  fetchAuditLog(guildId: string, { type, userId, before, limit }: AuditLogFetchOptions): Promise<AuditLogEntryInfo[]> {
+    return this.request(() => {
+      const guild = this.guildRecord(guildId);
+      this.requirePermission(guild, PermissionFlagsBits.ViewAuditLog);
+      return [...guild.auditLog]
+        .reverse()
+        .filter(entry => (type === undefined || entry.action === type) && (!userId || entry.userId === userId))
+        .filter(entry => !before || compareIds(entry.id, before) < 0)
+        .slice(0, Math.min(100, limit))
+        .map(entry => ({
+          id: entry.id,
+          action: entry.action,
+          executorId: entry.userId,
+          executor: this.world.users.get(entry.userId)?.tag ?? null,
+          targetId: entry.targetId,
+          target: this.auditTarget(guild, entry),
+          reason: entry.reason,
+          changes: structuredClone(entry.changes),
+          createdAt: idTime(entry.id),
+        }));
+    });
+  }
+  // --- End Audit Log ---
+
+  // --- Guilds ---
+  private joinedGuild(guildId: string): GuildRecord | undefined {
+    const guild = this.world.guilds.get(guildId);
+    return guild?.members.has(this.userId) ? guild : undefined;
+  }
+
+  guilds(): GuildInfo[] {
+    return [...this.world.guilds.values()].filter(guild => guild.members.has(this.userId)).map(guild => this.toGuild(guild));
+  }
+
+  guild(guildId: string): GuildInfo | undefined {
+    const guild = this.joinedGuild(guildId);
+    return guild ? this.toGuild(guild) : undefined;
+  }
+
+  fetchGuild(guildId: string): Promise<GuildInfo> {
+    return this.request(() => this.toGuild(this.guildRecord(guildId)));
+  }
+
+  fetchGuildCounts(guildId: string): Promise<GuildCounts> {
+    return this.request(() => ({ approximateMemberCount: this.guildRecord(guildId).members.size, approximatePresenceCount: 0 }));
+  }
+
+  emojis(guildId: string): EmojiInfo[] {
+    return (this.joinedGuild(guildId)?.emojis ?? []).map(emoji => ({ id: emoji.id, name: emoji.name, animated: false }));
+  }
+
+  emoji(emojiId: string): EmojiInfo | undefined {
+    for (const guild of this.world.guilds.values()) {
+      const emoji = guild.members.has(this.userId) ? guild.emojis.find(candidate => candidate.id === emojiId) : undefined;
+      if (emoji) return { id: emoji.id, name: emoji.name, animated: false };
+    }
+    return undefined;
+  }
+  // --- End Guilds ---
+
+  // --- Channels ---
+  channels(guildId: string): ChannelInfo[] {
+    const guild = this.joinedGuild(guildId);
+    return guild ? this.guildChannels(guild).map(channel => this.toChannel(channel)) : [];
+  }
+
+  channel(channelId: string): ChannelInfo | undefined {
+    const channel = this.world.channels.get(channelId);
+    return channel && this.joinedGuild(channel.guildId) ? this.toChannel(channel) : undefined;
+  }
+
+  fetchChannel(channelId: string): Promise<ChannelInfo> {
+    return this.request(() => this.toChannel(this.channelRecord(channelId)));
+  }
+
+  fetchActiveThreads(guildId: string): Promise<ChannelInfo[]> {
+    return this.request(() => this.guildChannels(this.guildRecord(guildId))
+      .filter(channel => channel.thread && !channel.thread.archived)
+      .map(channel => this.toChannel(channel)));
+  }
+
+  fetchArchivedThreads(channelId: string, { type, limit }: { type: 'public' | 'private'; limit: number }): Promise<ChannelInfo[]> {
+    return this.request(() => {
+      const channel = this.channelRecord(channelId);
+      const guild = this.world.guilds.get(channel.guildId)!;
+      if (type === 'private') this.requirePermission(guild, PermissionFlagsBits.ManageThreads);
+      return [...this.world.channels.values()]
+        .filter(thread => thread.parentId === channel.id && thread.thread?.archived)
+        .filter(thread => (thread.type === ChannelType.PrivateThread) === (type === 'private'))
+        .sort((a, b) => b.thread!.archivedAt - a.thread!.archivedAt)
+        .slice(0, limit)
+        .map(thread => this.toChannel(thread));
+    });
+  }
+
+  createChannel(guildId: string, options: ChannelCreateOptions): Promise<ChannelInfo> {
+    return this.request(() => {
+      const guild = this.guildRecord(guildId);
+      this.requirePermission(guild, PermissionFlagsBits.ManageChannels);
+      if (options.name.length === 0) throw invalidFormBody('name is required');
+      const parentId = options.parentId ?? null;
+      if (parentId) {
+        const parent = this.world.channels.get(parentId);
+        if (!parent || parent.guildId !== guild.id || parent.type !== ChannelType.GuildCategory) {
+          throw invalidFormBody('parent_id is not a category in this server');
+        }
+      }
+      const siblings = this.guildChannels(guild).filter(channel => channel.parentId === parentId && !channel.thread);
+      const channel = this.addChannel({
+        id: newId(),
+        type: options.type,
+        guildId: guild.id,
+        name: options.type === ChannelType.GuildText || options.type === ChannelType.GuildAnnouncement
+          ? options.name.toLowerCase().replace(/\s+/g, '-')
+          : options.name,
+        parentId,
+        rawPosition: options.position ?? Math.max(-1, ...siblings.map(sibling => sibling.rawPosition)) + 1,
+        overwrites: [],
+        topic: options.topic ?? null,
+        nsfw: options.nsfw ?? false,
+        rateLimitPerUser: options.rateLimitPerUser ?? 0,
+        lastMessageId: null,
+        availableTags: [],
+        thread: null,
+      }, options.reason);
+      return this.toChannel(channel);
+    });
+  }
+
+  private addChannel(channel: ChannelRecord, reason?: string): ChannelRecord {
+    const guild = this.world.guilds.get(channel.guildId)!;
+    this.world.channels.set(channel.id, channel);
+    this.world.messages.set(channel.id, []);
+    this.audit(guild, channel.thread ? AuditLogEvent.ThreadCreate : AuditLogEvent.ChannelCreate, channel.id, reason, [{ key: 'name', old: undefined, new: channel.name }]);
+    this.dispatch(guild.id, 'channelsChanged', () => [guild.id]);
+    return channel;
+  }
+
+  cloneChannel(channelId: string, name: string): Promise<ChannelInfo> {
+    return this.request(() => {
+      const source = this.channelRecord(channelId);
+      const guild = this.world.guilds.get(source.guildId)!;
+      this.requirePermission(guild, PermissionFlagsBits.ManageChannels);
+      if (source.thread) throw new DiscordRequestError(RESTJSONErrorCodes.CannotExecuteActionOnThisChannelType, 'Cannot execute action on this channel type');
+      const channel = this.addChannel({
+        ...structuredClone(source),
+        id: newId(),
+        name,
+        lastMessageId: null,
+        availableTags: source.availableTags.map(tag => ({ ...tag, id: newId() })),
+      });
+      return this.toChannel(channel);
+    });
+  }
+
+  editChannel(channelId: string, changes: ChannelEditOptions): Promise<ChannelInfo> {
+    return this.request(() => {
+      const channel = this.channelRecord(channelId);
+      const guild = this.world.guilds.get(channel.guildId)!;
+      const before = structuredClone(channel);
+      if (channel.thread) {
+        if (channel.thread.ownerId !== this.userId) this.requirePermission(guild, PermissionFlagsBits.ManageThreads);
+        if (changes.archived !== undefined) {
+          channel.thread.archived = changes.archived;
+          channel.thread.archivedAt = Date.now();
+        }
+        if (changes.locked !== undefined) channel.thread.locked = changes.locked;
+      } else {
+        this.requirePermission(guild, PermissionFlagsBits.ManageChannels);
+        if (changes.parentId !== undefined) {
+          if (changes.parentId && this.world.channels.get(changes.parentId)?.type !== ChannelType.GuildCategory) {
+            throw invalidFormBody('parent_id is not a category in this server');
+          }
+          channel.parentId = changes.parentId;
+          if (changes.lockPermissions && changes.parentId) {
+            channel.overwrites = structuredClone(this.world.channels.get(changes.parentId)!.overwrites);
+          }
+        }
+        if (changes.position !== undefined) this.moveChannel(channel, changes.position);
+        if (changes.topic !== undefined) channel.topic = changes.topic;
+        if (changes.nsfw !== undefined) channel.nsfw = changes.nsfw;
+      }
+      if (changes.name !== undefined) channel.name = changes.name;
+      if (changes.rateLimitPerUser !== undefined) channel.rateLimitPerUser = changes.rateLimitPerUser;
+      const logged = SandboxBackend.changes(before, channel, ['name', 'topic', 'nsfw', 'rateLimitPerUser', 'parentId', 'rawPosition']);
+      if (channel.thread) logged.push(...SandboxBackend.changes(before.thread!, channel.thread, ['archived', 'locked']));
+      this.audit(guild, channel.thread ? AuditLogEvent.ThreadUpdate : AuditLogEvent.ChannelUpdate, channel.id, changes.reason, logged);
+      this.dispatch(guild.id, 'channelsChanged', () => [guild.id]);
+      return this.toChannel(channel);
+    });
+  }
+
+  // Moves a channel to an index among its siblings and renumbers them, as Discord clients do when dragging
+  private moveChannel(channel: ChannelRecord, position: number): void {
+    const siblings = this.siblings(channel);
+    if (position >= 0 && position < siblings.length) {
+      siblings.splice(siblings.indexOf(channel), 1);
+      siblings.splice(position, 0, channel);
+    }
+    siblings.forEach((sibling, index) => { sibling.rawPosition = index; });
+  }
+
+  deleteChannel(channelId: string, reason?: string): Promise<void> {
+    return this.request(() => {
+      const channel = this.channelRecord(channelId);
+      const guild = this.world.guilds.get(channel.guildId)!;
+      this.requirePermission(guild, channel.thread ? PermissionFlagsBits.ManageThreads : PermissionFlagsBits.ManageChannels);
+      this.world.channels.delete(channel.id);
+      this.world.messages.delete(channel.id);
+      this.audit(guild, channel.thread ? AuditLogEvent.ThreadDelete : AuditLogEvent.ChannelDelete, channel.id, reason, [{ key: 'name', old: channel.name, new: undefined }]);
+      // Threads go with their channel; the channels of a deleted category stay, outside any category
+      for (const child of [...this.world.channels.values()].filter(candidate => candidate.parentId === channel.id)) {
+        if (child.thread) {
+          this.world.channels.delete(child.id);
+          this.world.messages.delete(child.id);
+        } else {
+          child.parentId = null;
+        }
+      }
+      this.dispatch(guild.id, 'channelsChanged', () => [guild.id]);
+    });
+  }
+
+  editPermissionOverwrite(
+    channelId: string,
+    target: { id: string; type: 'role' | 'member' },
+    changes: { allow: bigint; deny: bigint; inherit: bigint },
+    reason?: string,
+  ): Promise<ChannelInfo> {
+    return this.request(() => {
+      const channel = this.channelRecord(channelId);
+      const guild = this.world.guilds.get(channel.guildId)!;
+      this.requirePermission(guild, PermissionFlagsBits.ManageRoles);
+      const existing = channel.overwrites.find(overwrite => overwrite.id === target.id);
+      const untouched = ~(changes.allow | changes.deny | changes.inherit);
+      const overwrite: PermissionOverwriteInfo = {
+        id: target.id,
+        type: target.type,
+        allow: ((existing?.allow ?? 0n) & untouched) | changes.allow,
+        deny: ((existing?.deny ?? 0n) & untouched) | changes.deny,
+      };
+      channel.overwrites = [...channel.overwrites.filter(candidate => candidate !== existing), overwrite];
+      this.audit(guild, existing ? AuditLogEvent.ChannelOverwriteUpdate : AuditLogEvent.ChannelOverwriteCreate, channel.id, reason, [
+        { key: 'allow', old: existing?.allow.toString(), new: overwrite.allow.toString() },
+        { key: 'deny', old: existing?.deny.toString(), new: overwrite.deny.toString() },
+      ]);
+      this.dispatch(guild.id, 'channelsChanged', () => [guild.id]);
+      return this.toChannel(channel);
+    });
+  }
+
+  deletePermissionOverwrite(channelId: string, targetId: string, reason?: string): Promise<ChannelInfo> {
+    return this.request(() => {
+      const channel = this.channelRecord(channelId);
+      const guild = this.world.guilds.get(channel.guildId)!;
+      this.requirePermission(guild, PermissionFlagsBits.ManageRoles);
+      channel.overwrites = channel.overwrites.filter(overwrite => overwrite.id !== targetId);
+      this.audit(guild, AuditLogEvent.ChannelOverwriteDelete, channel.id, reason);
+      this.dispatch(guild.id, 'channelsChanged', () => [guild.id]);
+      return this.toChannel(channel);
+    });
+  }
+  // --- End Channels ---
+
+  // --- Threads ---
+  private newThread(parent: ChannelRecord, name: string, type: ChannelType, id = newId()): ChannelRecord {
+    if (name.length === 0) throw invalidFormBody('name is required');
+    return this.addChannel({
+      id,
+      type,
+      guildId: parent.guildId,
+      name,
+      parentId: parent.id,
+      rawPosition: 0,
+      overwrites: [],
+      topic: null,
+      nsfw: parent.nsfw,
+      rateLimitPerUser: 0,
+      lastMessageId: null,
+      availableTags: [],
+      thread: { ownerId: this.userId, archived: false, locked: false, archivedAt: Date.now(), appliedTags: [] },
+    });
+  }
+
+  createThread(channelId: string, options: ThreadCreateOptions): Promise<ChannelInfo> {
+    return this.request(() => {
+      const channel = this.channelRecord(channelId);
+      const guild = this.world.guilds.get(channel.guildId)!;
+      if (channel.type !== ChannelType.GuildText && channel.type !== ChannelType.GuildAnnouncement) {
+        throw new DiscordRequestError(RESTJSONErrorCodes.CannotExecuteActionOnThisChannelType, 'Cannot execute action on this channel type');
+      }
+      const announcement = channel.type === ChannelType.GuildAnnouncement;
+      if (options.messageId) {
+        this.requirePermission(guild, PermissionFlagsBits.CreatePublicThreads);
+        const message = this.messageRecord(channel, options.messageId);
+        if (message.threadId) {
+          throw new DiscordRequestError(RESTJSONErrorCodes.ThreadAlreadyCreatedForMessage, 'A thread has already been created for this message');
+        }
+        // A thread started from a message shares the message's ID
+        const thread = this.newThread(channel, options.name, announcement ? ChannelType.AnnouncementThread : ChannelType.PublicThread, message.id);
+        message.threadId = thread.id;
+        return this.toChannel(thread);
+      }
+      const type = announcement ? ChannelType.AnnouncementThread : options.private ? ChannelType.PrivateThread : ChannelType.PublicThread;
+      this.requirePermission(guild, type === ChannelType.PrivateThread ? PermissionFlagsBits.CreatePrivateThreads : PermissionFlagsBits.CreatePublicThreads);
+      return this.toChannel(this.newThread(channel, options.name, type));
+    });
+  }
+
+  createForumPost(forumId: string, options: ForumPostOptions): Promise<ChannelInfo> {
+    return this.request(() => {
+      const forum = this.channelRecord(forumId);
+      const guild = this.world.guilds.get(forum.guildId)!;
+      if (forum.type !== ChannelType.GuildForum) {
+        throw new DiscordRequestError(RESTJSONErrorCodes.CannotExecuteActionOnThisChannelType, 'Cannot execute action on this channel type');
+      }
+      if (!options.message) throw new DiscordRequestError(RESTJSONErrorCodes.CannotSendAnEmptyMessage, 'Cannot send an empty message');
+      const knownTags = new Set(forum.availableTags.map(tag => tag.id));
+      if (options.appliedTags.some(tag => !knownTags.has(tag))) throw invalidFormBody('unknown forum tag');
+      const thread = this.newThread(forum, options.name, ChannelType.PublicThread);
+      thread.thread!.appliedTags = [...options.appliedTags];
+      // A forum post's starter message shares the post's ID
+      const message = this.newMessage(thread, { content: options.message }, [], thread.id);
+      insertMessage(this.world, message);
+      this.dispatch(guild.id, 'messageCreate', viewer => [this.toMessage(message, viewer.userId)]);
+      return this.toChannel(thread);
+    });
+  }
+  // --- End Threads ---
+
+  // --- Messages ---
+  fetchMessages(channelId: string, { limit, before, after, around }: MessageFetchOptions): Promise<MessageInfo[]> {
+    return this.request(() => {
+      const channel = this.textChannelRecord(channelId);
+      const history = this.world.messages.get(channel.id)!;
+      const count = Math.min(100, limit);
+      let page: MessageRecord[];
+      if (around) {
+        const older = history.filter(message => compareIds(message.id, around) < 0).slice(-Math.floor(count / 2));
+        const newer = history.filter(message => compareIds(message.id, around) >= 0).slice(0, count - older.length);
+        page = [...older, ...newer];
+      } else if (after) {
+        page = history.filter(message => compareIds(message.id, after) > 0).slice(0, count);
+      } else {
+        page = history.filter(message => !before || compareIds(message.id, before) < 0).slice(-count);
+      }
+      return page.reverse().map(message => this.toMessage(message, this.userId));
+    });
+  }
+
+  fetchMessage(channelId: string, messageId: string): Promise<MessageInfo> {
+    return this.request(() => {
+      const channel = this.textChannelRecord(channelId);
+      return this.toMessage(this.messageRecord(channel, messageId), this.userId);
+    });
+  }
+
+  fetchPinnedMessages(channelId: string): Promise<MessageInfo[]> {
+    return this.request(() => {
+      const channel = this.textChannelRecord(channelId);
+      return this.world.messages.get(channel.id)!.filter(message => message.pinned).reverse().map(message => this.toMessage(message, this.userId));
+    });
+  }
+
+  private newMessage(channel: ChannelRecord, message: OutgoingMessage, attachments: AttachmentInfo[], id = newId()): MessageRecord {
+    const guild = this.world.guilds.get(channel.guildId)!;
+    const { poll } = message;
+    return {
+      id,
+      channelId: channel.id,
+      authorId: this.userId,
+      content: message.content ?? '',
+      editedAt: null,
+      pinned: false,
+      embedCount: message.embeds?.length ?? 0,
+      attachments,
+      reactions: [],
+      poll: poll
+        ? {
+          question: poll.question,
+          answers: poll.answers.map((answer, index) => ({
+            id: index + 1,
+            text: answer.text,
+            emoji: answer.emoji ? this.guildEmoji(guild, answer.emoji) : null,
+            voters: [],
+          })),
+          expiresAt: new Date(Date.now() + poll.durationHours * 3_600_000),
+          allowMultiselect: poll.allowMultiselect,
+        }
+        : null,
+      threadId: null,
+    };
+  }
+
+  sendMessage(channelId: string, message: OutgoingMessage): Promise<MessageInfo> {
+    return this.request(async () => {
+      const channel = this.textChannelRecord(channelId);
+      const guild = this.world.guilds.get(channel.guildId)!;
+      if (!message.content && !message.embeds?.length && !message.files?.length && !message.poll) {
+        throw new DiscordRequestError(RESTJSONErrorCodes.CannotSendAnEmptyMessage, 'Cannot send an empty message');
+      }
+      if (message.poll) this.requirePermission(guild, PermissionFlagsBits.SendPolls);
+      if (message.replyTo) this.messageRecord(channel, message.replyTo);
+      if (channel.thread?.archived) {
+        if (channel.thread.locked) throw new DiscordRequestError(RESTJSONErrorCodes.InvalidActionOnArchivedThread, 'Thread is locked');
+        // Posting in an archived thread unarchives it
+        channel.thread.archived = false;
+        this.dispatch(guild.id, 'channelsChanged', () => [guild.id]);
+      }
+      const attachments: AttachmentInfo[] = [];
+      for (const file of message.files ?? []) {
+        attachments.push(newAttachment(channel.id, file.name, (await fs.stat(file.path)).size, null));
+      }
+      const sent = this.newMessage(channel, message, attachments);
+      insertMessage(this.world, sent);
+      this.dispatch(guild.id, 'messageCreate', viewer => [this.toMessage(sent, viewer.userId)]);
+      return this.toMessage(sent, this.userId);
+    });
+  }
+
+  editMessage(channelId: string, messageId: string, content: string): Promise<MessageInfo> {
+    return this.request(() => {
+      const channel = this.textChannelRecord(channelId);
+      const message = this.messageRecord(channel, messageId);
+      if (message.authorId !== this.userId) {
+        throw new DiscordRequestError(RESTJSONErrorCodes.CannotEditMessageAuthoredByAnotherUser, 'Cannot edit a message authored by another user');
+      }
+      const oldContent = message.content;
+      message.content = content;
+      message.editedAt = new Date();
+      this.dispatch(channel.guildId, 'messageUpdate', () => [{
+        guildId: channel.guildId,
+        channelId: channel.id,
+        messageId: message.id,
+        author: this.world.users.get(message.authorId)!,
+        oldContent,
+        newContent: content,
+      }]);
+      return this.toMessage(message, this.userId);
+    });
+  }
+
+  deleteMessage(channelId: string, messageId: string): Promise<void> {
+    return this.request(() => {
+      const channel = this.textChannelRecord(channelId);
+      const guild = this.world.guilds.get(channel.guildId)!;
+      const message = this.messageRecord(channel, messageId);
+      if (message.authorId !== this.userId) {
+        this.requirePermission(guild, PermissionFlagsBits.ManageMessages);
+        this.audit(guild, AuditLogEvent.MessageDelete, message.authorId);
+      }
+      this.removeMessages(channel, [message.id]);
+    });
+  }
+
+  bulkDeleteMessages(channelId: string, messageIds: string[]): Promise<number> {
+    return this.request(() => {
+      const channel = this.textChannelRecord(channelId);
+      const guild = this.world.guilds.get(channel.guildId)!;
+      this.requirePermission(guild, PermissionFlagsBits.ManageMessages);
+      if (messageIds.length < 2 || messageIds.length > 100) throw invalidFormBody('messages must hold 2 to 100 IDs');
+      if (messageIds.some(id => Date.now() - SnowflakeUtil.timestampFrom(id) > BULK_DELETE_MAX_AGE_MS)) {
+        throw new DiscordRequestError(RESTJSONErrorCodes.OneOfTheMessagesProvidedWasTooOldForBulkDelete, 'You can only bulk delete messages that are under 14 days old.');
+      }
+      const existing = new Set(this.world.messages.get(channel.id)!.map(message => message.id));
+      const deleted = messageIds.filter(id => existing.has(id));
+      this.removeMessages(channel, deleted);
+      this.audit(guild, AuditLogEvent.MessageBulkDelete, channel.id);
+      return deleted.length;
+    });
+  }
+
+  private removeMessages(channel: ChannelRecord, ids: string[]): void {
+    const removed = new Set(ids);
+    const history = this.world.messages.get(channel.id)!;
+    this.world.messages.set(channel.id, history.filter(message => !removed.has(message.id)));
+    for (const message of history.filter(candidate => removed.has(candidate.id))) {
+      this.dispatch(channel.guildId, 'messageDelete', () => [{
+        guildId: channel.guildId,
+        channelId: channel.id,
+        messageId: message.id,
+        author: this.world.users.get(message.authorId)!,
+        content: message.content,
+      }]);
+    }
+  }
+
+  setMessagePinned(channelId: string, messageId: string, pinned: boolean): Promise<void> {
+    return this.request(() => {
+      const channel = this.textChannelRecord(channelId);
+      const guild = this.world.guilds.get(channel.guildId)!;
+      this.requirePermission(guild, PermissionFlagsBits.ManageMessages);
+      const message = this.messageRecord(channel, messageId);
+      if (pinned && !message.pinned && this.world.messages.get(channel.id)!.filter(candidate => candidate.pinned).length >= MAX_PINS) {
+        throw new DiscordRequestError(RESTJSONErrorCodes.MaximumNumberOfPinsReachedForTheChannel, 'Maximum number of pins reached (50)');
+      }
+      message.pinned = pinned;
+      this.audit(guild, pinned ? AuditLogEvent.MessagePin : AuditLogEvent.MessageUnpin, message.authorId);
+    });
+  }
+  // --- End Messages ---
+
+  // --- Reactions and Polls ---
+  private findReaction(message: MessageRecord, emoji: EmojiInfo): ReactionRecord | undefined {
+    return message.reactions.find(reaction => sameEmoji(reaction.emoji, emoji));
+  }
+
+  private dispatchReaction(event: 'reactionAdd' | 'reactionRemove', channel: ChannelRecord, message: MessageRecord, emoji: EmojiInfo, userId: string): void {
+    this.dispatch(channel.guildId, event, () => [{
+      guildId: channel.guildId,
+      channelId: channel.id,
+      messageId: message.id,
+      emoji,
+      userId,
+      user: this.world.users.get(userId)?.tag ?? null,
+    }]);
+  }
+
+  addReaction(channelId: string, messageId: string, emoji: EmojiInfo): Promise<void> {
+    return this.request(() => {
+      const channel = this.textChannelRecord(channelId);
+      const message = this.messageRecord(channel, messageId);
+      const resolved = this.guildEmoji(this.world.guilds.get(channel.guildId)!, emoji);
+      let reaction = this.findReaction(message, resolved);
+      if (!reaction) {
+        if (message.reactions.length >= MAX_REACTIONS) {
+          throw new DiscordRequestError(RESTJSONErrorCodes.MaximumNumberOfReactionsReached, 'Maximum number of reactions reached (20)');
+        }
+        reaction = { emoji: resolved, users: [] };
+        message.reactions.push(reaction);
+      }
+      if (!reaction.users.includes(this.userId)) {
+        reaction.users.push(this.userId);
+        this.dispatchReaction('reactionAdd', channel, message, resolved, this.userId);
+      }
+    });
+  }
+
+  removeReaction(channelId: string, messageId: string, emoji: EmojiInfo, userId: string): Promise<void> {
+    return this.request(() => {
+      const channel = this.textChannelRecord(channelId);
+      const guild = this.world.guilds.get(channel.guildId)!;
+      const message = this.messageRecord(channel, messageId);
+      const resolved = this.guildEmoji(guild, emoji);
+      if (userId !== this.userId) this.requirePermission(guild, PermissionFlagsBits.ManageMessages);
+      const reaction = this.findReaction(message, resolved);
+      if (!reaction?.users.includes(userId)) return;
+      reaction.users = reaction.users.filter(user => user !== userId);
+      if (reaction.users.length === 0) message.reactions = message.reactions.filter(candidate => candidate !== reaction);
+      this.dispatchReaction('reactionRemove', channel, message, resolved, userId);
+    });
+  }
+
+  // Users page in ID order
+  private userPage(userIds: string[], limit: number, after = '0'): UserInfo[] {
+    return userIds.filter(userId => compareIds(userId, after) > 0).sort(compareIds).slice(0, limit).map(userId => this.userRecord(userId));
+  }
+
+  fetchReactionUsers(channelId: string, messageId: string, emoji: EmojiInfo, { limit, after }: { limit: number; after?: string }): Promise<UserInfo[]> {
+    return this.request(() => {
+      const channel = this.textChannelRecord(channelId);
+      const message = this.messageRecord(channel, messageId);
+      const resolved = this.guildEmoji(this.world.guilds.get(channel.guildId)!, emoji);
+      return this.userPage(this.findReaction(message, resolved)?.users ?? [], limit, after);
+    });
+  }
+
+  fetchPollVoters(channelId: string, messageId: string, answerId: number, { limit, after }: { limit: number; after?: string }): Promise<UserInfo[]> {
+    return this.request(() => {
+      const channel = this.textChannelRecord(channelId);
+      const message = this.messageRecord(channel, messageId);
+      if (!message.poll) throw new DiscordRequestError(RESTJSONErrorCodes.CannotExpireANonPollMessage, 'This message has no poll');
+      const answer = message.poll.answers.find(candidate => candidate.id === answerId);
+      if (!answer) throw new DiscordRequestError(RESTJSONErrorCodes.GeneralError, 'Unknown poll answer');
+      return this.userPage(answer.voters, limit, after);
+    });
+  }
+  // --- End Reactions and Polls ---
+
+  // --- Roles ---
+  roles(guildId: string): RoleInfo[] {
+    const guild = this.joinedGuild(guildId);
+    return guild ? [...guild.roles.values()].map(role => this.toRole(guild, role)) : [];
+  }
+
+  fetchRoles(guildId: string): Promise<RoleInfo[]> {
+    return this.request(() => {
+      const guild = this.guildRecord(guildId);
+      return [...guild.roles.values()].map(role => this.toRole(guild, role));
+    });
+  }
+
+  createRole(guildId: string, options: RoleOptions): Promise<RoleInfo> {
+    return this.request(() => {
+      const guild = this.guildRecord(guildId);
+      this.requirePermission(guild, PermissionFlagsBits.ManageRoles);
+      // New roles start just above @everyone, pushing the others up
+      for (const role of guild.roles.values()) {
+        if (role.id !== guild.id) role.position += 1;
+      }
+      const role: RoleRecord = {
+        id: newId(),
+        name: options.name ?? 'new role',
+        color: options.color ?? 0,
+        hoist: false,
+        position: 1,
+        permissions: options.permissions ?? guild.roles.get(guild.id)!.permissions,
+        mentionable: options.mentionable ?? false,
+        botId: null,
+      };
+      guild.roles.set(role.id, role);
+      this.audit(guild, AuditLogEvent.RoleCreate, role.id, options.reason, [{ key: 'name', old: undefined, new: role.name }]);
+      this.dispatch(guild.id, 'rolesChanged', () => [guild.id]);
+      return this.toRole(guild, role);
+    });
+  }
+
+  editRole(guildId: string, roleId: string, changes: RoleOptions): Promise<RoleInfo> {
+    return this.request(() => {
+      const guild = this.guildRecord(guildId);
+      this.requirePermission(guild, PermissionFlagsBits.ManageRoles);
+      const role = this.roleRecord(guild, roleId);
+      if (role.id !== guild.id) this.requireAboveRole(guild, role);
+      const before = { ...role };
+      if (changes.name !== undefined) role.name = changes.name;
+      if (changes.color !== undefined) role.color = changes.color;
+      if (changes.mentionable !== undefined) role.mentionable = changes.mentionable;
+      if (changes.permissions !== undefined) role.permissions = changes.permissions;
+      this.audit(guild, AuditLogEvent.RoleUpdate, role.id, changes.reason,
+        SandboxBackend.changes(before, role, ['name', 'color', 'mentionable', 'permissions']));
+      this.dispatch(guild.id, 'rolesChanged', () => [guild.id]);
+      return this.toRole(guild, role);
+    });
+  }
+
+  deleteRole(guildId: string, roleId: string, reason?: string): Promise<void> {
+    return this.request(() => {
+      const guild = this.guildRecord(guildId);
+      this.requirePermission(guild, PermissionFlagsBits.ManageRoles);
+      const role = this.roleRecord(guild, roleId);
+      this.requireAboveRole(guild, role);
+      guild.roles.delete(role.id);
+      for (const member of guild.members.values()) member.roles = member.roles.filter(id => id !== role.id);
+      this.audit(guild, AuditLogEvent.RoleDelete, role.id, reason, [{ key: 'name', old: role.name, new: undefined }]);
+      this.dispatch(guild.id, 'rolesChanged', () => [guild.id]);
+    });
+  }
+  // --- End Roles ---
+
+  // --- Members ---
+  // Every member is known from the start, as if the whole member list had been fetched
+  members(guildId: string): MemberInfo[] {
+    const guild = this.joinedGuild(guildId);
+    return guild ? [...guild.members.values()].map(member => this.toMember(guild, member)) : [];
+  }
+
+  fetchMember(guildId: string, userId: string): Promise<MemberInfo> {
+    return this.request(() => {
+      const guild = this.guildRecord(guildId);
+      return this.toMember(guild, this.memberRecord(guild, userId));
+    });
+  }
+
+  fetchMe(guildId: string): Promise<MemberInfo> {
+    return this.fetchMember(guildId, this.userId);
+  }
+
+  fetchAllMembers(guildId: string): Promise<void> {
+    return this.request(() => {
+      this.guildRecord(guildId);
+    });
+  }
+
+  listMembers(guildId: string, { limit, after = '0' }: { limit: number; after?: string }): Promise<MemberInfo[]> {
+    return this.request(() => {
+      const guild = this.guildRecord(guildId);
+      return [...guild.members.values()]
+        .filter(member => compareIds(member.userId, after) > 0)
+        .sort((a, b) => compareIds(a.userId, b.userId))
+        .slice(0, limit)
+        .map(member => this.toMember(guild, member));
+    });
+  }
+
+  searchMembers(guildId: string, query: string, limit: number): Promise<MemberInfo[]> {
+    return this.request(() => {
+      const guild = this.guildRecord(guildId);
+      return [...guild.members.values()].filter(member => this.memberMatches(member, query)).slice(0, limit).map(member => this.toMember(guild, member));
+    });
+  }
+
+  addMemberRole(guildId: string, userId: string, roleId: string, reason?: string): Promise<void> {
+    return this.request(() => this.setMemberRole(guildId, userId, roleId, true, reason));
+  }
+
+  removeMemberRole(guildId: string, userId: string, roleId: string, reason?: string): Promise<void> {
+    return this.request(() => this.setMemberRole(guildId, userId, roleId, false, reason));
+  }
+
+  private setMemberRole(guildId: string, userId: string, roleId: string, assign: boolean, reason?: string): void {
+    const guild = this.guildRecord(guildId);
+    this.requirePermission(guild, PermissionFlagsBits.ManageRoles);
+    const member = this.memberRecord(guild, userId);
+    const role = this.roleRecord(guild, roleId);
+    this.requireAboveRole(guild, role);
+    if (assign === member.roles.includes(role.id)) return;
+    member.roles = assign ? [...member.roles, role.id] : member.roles.filter(id => id !== role.id);
+    this.audit(guild, AuditLogEvent.MemberRoleUpdate, member.userId, reason, [
+      { key: assign ? '$add' : '$remove', old: undefined, new: [{ id: role.id, name: role.name }] },
+    ]);
+  }
+
+  timeoutMember(guildId: string, userId: string, until: Date | null, reason?: string): Promise<MemberInfo> {
+    return this.request(() => {
+      const guild = this.guildRecord(guildId);
+      this.requirePermission(guild, PermissionFlagsBits.ModerateMembers);
+      const member = this.memberRecord(guild, userId);
+      this.requireAboveMember(guild, member.userId);
+      if (this.permissions(guild, member.userId) & PermissionFlagsBits.Administrator) throw missingPermissions();
+      const before = member.communicationDisabledUntil;
+      member.communicationDisabledUntil = until;
+      this.audit(guild, AuditLogEvent.MemberUpdate, member.userId, reason, [
+        { key: 'communication_disabled_until', old: before?.toISOString() ?? null, new: until?.toISOString() ?? null },
+      ]);
+      return this.toMember(guild, member);
+    });
+  }
+
+  private removeMember(guild: GuildRecord, userId: string): void {
+    guild.members.delete(userId);
+    this.dispatch(guild.id, 'memberRemove', () => [guild.id, this.world.users.get(userId)!]);
+  }
+
+  kickMember(guildId: string, userId: string, reason?: string): Promise<void> {
+    return this.request(() => {
+      const guild = this.guildRecord(guildId);
+      this.requirePermission(guild, PermissionFlagsBits.KickMembers);
+      const member = this.memberRecord(guild, userId);
+      this.requireAboveMember(guild, member.userId);
+      this.audit(guild, AuditLogEvent.MemberKick, member.userId, reason);
+      this.removeMember(guild, member.userId);
+    });
+  }
+
+  banUser(guildId: string, userId: string, { reason, deleteMessageSeconds }: { reason?: string; deleteMessageSeconds: number }): Promise<void> {
+    return this.request(() => {
+      const guild = this.guildRecord(guildId);
+      this.requirePermission(guild, PermissionFlagsBits.BanMembers);
+      const user = this.userRecord(userId);
+      if (guild.members.has(user.id)) this.requireAboveMember(guild, user.id);
+      guild.bans.set(user.id, reason ?? null);
+      this.audit(guild, AuditLogEvent.MemberBanAdd, user.id, reason);
+      if (guild.members.has(user.id)) this.removeMember(guild, user.id);
+      if (deleteMessageSeconds > 0) {
+        const cutoff = Date.now() - deleteMessageSeconds * 1000;
+        for (const channel of this.guildChannels(guild)) {
+          const ids = this.world.messages.get(channel.id)!
+            .filter(message => message.authorId === user.id && SnowflakeUtil.timestampFrom(message.id) >= cutoff)
+            .map(message => message.id);
+          this.removeMessages(channel, ids);
+        }
+      }
+    });
+  }
+
+  unbanUser(guildId: string, userId: string, reason?: string): Promise<void> {
+    return this.request(() => {
+      const guild = this.guildRecord(guildId);
+      this.requirePermission(guild, PermissionFlagsBits.BanMembers);
+      if (!guild.bans.has(userId)) throw new DiscordRequestError(RESTJSONErrorCodes.UnknownBan, 'Unknown Ban');
+      guild.bans.delete(userId);
+      this.audit(guild, AuditLogEvent.MemberBanRemove, userId, reason);
+    });
+  }
+
+  fetchBans(guildId: string): Promise<BanInfo[]> {
+    return this.request(() => {
+      const guild = this.guildRecord(guildId);
+      this.requirePermission(guild, PermissionFlagsBits.BanMembers);
+      return [...guild.bans.entries()]
+        .sort(([a], [b]) => compareIds(a, b))
+        .map(([userId, reason]) => ({ user: this.world.users.get(userId)!, reason }));
+    });
+  }
+  // --- End Members ---
+
+  // --- AutoMod ---
+  private autoModRule(guild: GuildRecord, ruleId: string): AutoModRuleInfo {
+    this.requirePermission(guild, PermissionFlagsBits.ManageGuild);
+    const rule = guild.autoModRules.get(ruleId);
+    if (!rule) throw new DiscordRequestError(RESTJSONErrorCodes.GeneralError, 'Unknown auto moderation rule');
+    return rule;
+  }
+
+  fetchAutoModRules(guildId: string): Promise<AutoModRuleInfo[]> {
+    return this.request(() => {
+      const guild = this.guildRecord(guildId);
+      this.requirePermission(guild, PermissionFlagsBits.ManageGuild);
+      return [...guild.autoModRules.values()].map(rule => this.toAutoModRule(rule));
+    });
+  }
+
+  createAutoModRule(guildId: string, options: AutoModRuleOptions): Promise<AutoModRuleInfo> {
+    return this.request(() => {
+      const guild = this.guildRecord(guildId);
+      this.requirePermission(guild, PermissionFlagsBits.ManageGuild);
+      const sameType = [...guild.autoModRules.values()].filter(rule => rule.triggerType === options.triggerType).length;
+      // Discord allows six keyword rules and one rule of each other trigger type
+      if (sameType >= (options.triggerType === AutoModerationRuleTriggerType.Keyword ? 6 : 1)) {
+        throw invalidFormBody('maximum number of rules of this trigger type reached');
+      }
+      const rule: AutoModRuleInfo = {
+        id: newId(),
+        guildId: guild.id,
+        name: options.name,
+        creatorId: this.userId,
+        enabled: options.enabled,
+        triggerType: options.triggerType,
+        triggerMetadata: {
+          keywordFilter: [],
+          regexPatterns: [],
+          presets: [],
+          allowList: [],
+          mentionTotalLimit: null,
+          mentionRaidProtectionEnabled: false,
+          ...structuredClone(options.triggerMetadata),
+        },
+        actions: structuredClone(options.actions),
+        exemptRoleIds: [...options.exemptRoleIds],
+        exemptChannelIds: [...options.exemptChannelIds],
+      };
+      guild.autoModRules.set(rule.id, rule);
+      this.audit(guild, AuditLogEvent.AutoModerationRuleCreate, rule.id, options.reason, [{ key: 'name', old: undefined, new: rule.name }]);
+      return this.toAutoModRule(rule);
+    });
+  }
+
+  editAutoModRule(guildId: string, ruleId: string, changes: AutoModRuleEdit): Promise<AutoModRuleInfo> {
+    return this.request(() => {
+      const guild = this.guildRecord(guildId);
+      const rule = this.autoModRule(guild, ruleId);
+      const before = structuredClone(rule);
+      if (changes.name !== undefined) rule.name = changes.name;
+      if (changes.enabled !== undefined) rule.enabled = changes.enabled;
+      if (changes.triggerMetadata !== undefined) rule.triggerMetadata = { ...rule.triggerMetadata, ...structuredClone(changes.triggerMetadata) };
+      if (changes.actions !== undefined) rule.actions = structuredClone(changes.actions);
+      if (changes.exemptRoleIds !== undefined) rule.exemptRoleIds = [...changes.exemptRoleIds];
+      if (changes.exemptChannelIds !== undefined) rule.exemptChannelIds = [...changes.exemptChannelIds];
+      this.audit(guild, AuditLogEvent.AutoModerationRuleUpdate, rule.id, changes.reason,
+        SandboxBackend.changes(before, rule, ['name', 'enabled', 'triggerMetadata', 'actions', 'exemptRoleIds', 'exemptChannelIds']));
+      return this.toAutoModRule(rule);
+    });
+  }
+
+  deleteAutoModRule(guildId: string, ruleId: string, reason?: string): Promise<void> {
+    return this.request(() => {
+      const guild = this.guildRecord(guildId);
+      const rule = this.autoModRule(guild, ruleId);
+      guild.autoModRules.delete(rule.id);
+      this.audit(guild, AuditLogEvent.AutoModerationRuleDelete, rule.id, reason, [{ key: 'name', old: rule.name, new: undefined }]);
+    });
+  }
+  // --- End AutoMod ---
+}
@@ -0,0 +1,56 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import { startSandbox } from './helpers.js';
+
+describe('automod', () => {
+  let sandbox;
+  before(async () => { sandbox = await startSandbox(); });
+  after(() => sandbox.close());
+
+  test('create, update, disable, list and delete a keyword rule', async () => {
+    assert.deepEqual((await sandbox.call('list-automod-rules')).rules, []);
+
+    const created = await sandbox.call('create-automod-rule', {
+      name: 'No invites',
+      trigger: { type: 'keyword', keywords: ['discord.gg/*'] },
+      actions: { blockMessage: 'Invites are not allowed', alertChannel: 'mod-log' },
+      exemptRoles: ['Moderator'],
+      reason: 'Spam wave',
+    });
+    assert.equal(created.name, 'No invites');
+    assert.deepEqual(created.actions.map(action => action.type), ['BlockMessage', 'SendAlertMessage']);
+
+    await sandbox.call('update-automod-rule', { rule: 'No invites', trigger: { keywords: ['discord.gg/*', 'free nitro'] }, actions: { timeoutSeconds: 600 } });
+    await sandbox.call('set-automod-rule-enabled', { rule: created.id, enabled: false });
+
+    const { rules } = await sandbox.call('list-automod-rules');
+    assert.equal(rules.length, 1);
+    assert.equal(rules[0].enabled, false);
+    assert.deepEqual(rules[0].trigger.keywords, ['discord.gg/*', 'free nitro']);
+    assert.deepEqual(rules[0].actions, [{ type: 'Timeout', timeoutSeconds: 600 }]);
+    assert.deepEqual(rules[0].exemptRoles, ['Moderator']);
+
+    await sandbox.call('delete-automod-rule', { rule: 'No invites' });
+    assert.deepEqual((await sandbox.call('list-automod-rules')).rules, []);
+  });
+
+  test('unknown rules and invalid triggers are rejected', async () => {
+    assert.equal((await sandbox.callError('delete-automod-rule', { rule: 'missing' })).code, 'NOT_FOUND');
+
+    const error = await sandbox.callError('create-automod-rule', { name: 'Empty', trigger: { type: 'keyword' }, actions: { block: true } });
+    assert.equal(error.code, 'INVALID_ARGUMENTS');
+  });
+
+  test('the policy covers alert and exempt channels', async () => {
+    const restricted = await startSandbox({ policy: { channels: { deny: ['mod-log'] } } });
+    try {
+      const rule = { name: 'No invites', trigger: { type: 'keyword', keywords: ['discord.gg/*'] } };
+      const alert = await restricted.callError('create-automod-rule', { ...rule, actions: { alertChannel: 'mod-log' } });
+      assert.equal(alert.code, 'POLICY_REFUSED');
+      const exempt = await restricted.callError('create-automod-rule', { ...rule, actions: { block: true }, exemptChannels: ['mod-log'] });
+      assert.equal(exempt.code, 'POLICY_REFUSED');
+    } finally {
+      await restricted.close();
+    }
+  });
+});
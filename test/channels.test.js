@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import { IDS, startSandbox } from './helpers.js';
+
+describe('channels and permissions', () => {
+  let sandbox;
+  before(async () => { sandbox = await startSandbox(); });
+  after(() => sandbox.close());
+
+  test('list-channels lists channels flat or as a category tree', async () => {
+    const flat = await sandbox.call('list-channels');
+    assert.deepEqual(flat.channels.map(channel => channel.name), ['announcements', 'rules', 'general', 'off-topic', 'help', 'Lounge', 'mod-log']);
+
+    const { tree } = await sandbox.call('list-channels', { tree: true });
+    const staff = tree.find(entry => entry.category?.name === 'Staff');
+    assert.deepEqual(staff.channels.map(channel => channel.name), ['mod-log']);
+  });
+
+  test('create-channel, update-channel, move-channel, clone-channel and delete-channel', async () => {
+    const created = await sandbox.call('create-channel', { channelName: 'Book Club', category: 'Community', topic: 'Monthly reads' });
+    assert.equal(created.channel, 'book-club');
+    assert.equal(created.category, 'Community');
+
+    const updated = await sandbox.call('update-channel', { channel: 'book-club', newName: 'reading-room', slowmode: 30 });
+    assert.equal(updated.channel, 'reading-room');
+
+    const moved = await sandbox.call('move-channel', { channel: 'reading-room', category: 'Information', position: 0 });
+    assert.equal(moved.category, 'Information');
+    const { tree } = await sandbox.call('list-channels', { tree: true });
+    assert.equal(tree.find(entry => entry.category?.name === 'Information').channels[0].name, 'reading-room');
+
+    const clone = await sandbox.call('clone-channel', { channel: 'reading-room', newName: 'reading-room-2' });
+    assert.notEqual(clone.channelId, created.channelId);
+
+    await sandbox.call('delete-channel', { channel: 'reading-room-2', reason: 'Duplicate' });
+    const { channels } = await sandbox.call('list-channels');
+    assert.ok(channels.some(channel => channel.name === 'reading-room'));
+    assert.ok(!channels.some(channel => channel.name === 'reading-room-2'));
+  });
+
+  test('set-permission-overwrite, list-permission-overwrites and remove-permission-overwrite', async () => {
+    await sandbox.call('set-permission-overwrite', { channel: 'general', role: 'Muted', deny: ['SendMessages', 'AddReactions'] });
+    await sandbox.call('set-permission-overwrite', { channel: 'general', user: 'bob', allow: ['ManageMessages'] });
+
+    let { overwrites } = await sandbox.call('list-permission-overwrites', { channel: 'general' });
+    assert.deepEqual(overwrites.map(overwrite => [overwrite.target, overwrite.allow, overwrite.deny]), [
+      ['Muted', [], ['AddReactions', 'SendMessages']],
+      ['bob', ['ManageMessages'], []],
+    ]);
+
+    await sandbox.call('remove-permission-overwrite', { channel: 'general', role: 'Muted' });
+    ({ overwrites } = await sandbox.call('list-permission-overwrites', { channel: 'general' }));
+    assert.deepEqual(overwrites.map(overwrite => overwrite.target), ['bob']);
+  });
+
+  test('explain-permissions applies role permissions and channel overwrites', async () => {
+    const bob = await sandbox.call('explain-permissions', { user: 'bob', channel: 'mod-log', permissions: ['ViewChannel'] });
+    assert.deepEqual(bob.denied, ['ViewChannel']);
+
+    const alice = await sandbox.call('explain-permissions', { user: IDS.alice, channel: 'mod-log', permissions: ['ViewChannel'] });
+    assert.deepEqual(alice.allowed, ['ViewChannel']);
+
+    const owner = await sandbox.call('explain-permissions', { user: 'olivia', channel: 'rules', permissions: ['SendMessages'] });
+    assert.deepEqual(owner.allowed, ['SendMessages']);
+  });
+});
@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import { IDS, startSandbox } from './helpers.js';
+
+describe('events, schedules and the tool audit log', () => {
+  let sandbox;
+  before(async () => { sandbox = await startSandbox(); });
+  after(() => sandbox.close());
+
+  test('poll-events returns gateway events after a cursor', async () => {
+    const { nextCursor } = await sandbox.call('poll-events');
+    const { messageId } = await sandbox.call('send-message', { channel: 'general', message: 'Event please' });
+
+    const { events } = await sandbox.call('poll-events', { cursor: nextCursor, types: ['messageCreate'] });
+    assert.deepEqual(events.map(event => [event.type, event.channelId, event.data.messageId]), [['messageCreate', IDS.general, messageId]]);
+  });
+
+  test('wait-for-message times out, then picks up a scheduled message', async () => {
+    const idle = await sandbox.call('wait-for-message', { channel: 'general', timeoutSeconds: 1 });
+    assert.equal(idle.message, null);
+
+    const scheduled = await sandbox.call('schedule-message', { channel: 'general', message: 'Scheduled hello', at: new Date(Date.now() + 1500).toISOString() });
+    assert.equal(scheduled.status, 'scheduled');
+
+    const { message } = await sandbox.call('wait-for-message', { channel: 'general', timeoutSeconds: 10, includeBots: true, cursor: idle.cursor });
+    assert.equal(message.content, 'Scheduled hello');
+  });
+
+  test('wait-for-message rejects invalid and overlong patterns', async () => {
+    assert.equal((await sandbox.callError('wait-for-message', { pattern: '[unclosed', timeoutSeconds: 1 })).code, 'INVALID_ARGUMENTS');
+    assert.equal((await sandbox.callError('wait-for-message', { pattern: 'a'.repeat(201), timeoutSeconds: 1 })).code, 'INVALID_ARGUMENTS');
+  });
+
+  test('schedule-message, list-scheduled-messages and cancel-scheduled-message', async () => {
+    const daily = await sandbox.call('schedule-message', { channel: 'general', message: 'Daily', cron: '0 9 * * *', timeZone: 'Europe/Berlin' });
+    assert.equal(daily.upcomingRuns.length, 3);
+
+    const { schedules } = await sandbox.call('list-scheduled-messages');
+    assert.ok(schedules.some(schedule => schedule.id === daily.id && schedule.status === 'scheduled'));
+
+    assert.deepEqual(await sandbox.call('cancel-scheduled-message', { id: daily.id }), { id: daily.id, cancelled: true });
+    const remaining = await sandbox.call('list-scheduled-messages');
+    assert.ok(!remaining.schedules.some(schedule => schedule.id === daily.id));
+  });
+
+  test('get-audit-log records tool calls with their outcome', async () => {
+    await sandbox.callError('delete-message', { channel: 'general', messageId: '1' });
+    const failures = await sandbox.call('get-audit-log', { tool: 'delete-message', outcome: 'error' });
+    assert.equal(failures.total, 1);
+
+    const sends = await sandbox.call('get-audit-log', { tool: 'send-message' });
+    assert.ok(sends.entries.every(entry => entry.outcome === 'success' && entry.resolved.channelIds[0] === IDS.general));
+  });
+});
@@ -0,0 +1,87 @@
+// Shared setup for the test suite: every test file starts its own server in sandbox mode, so each file
+// begins from the fixture's state and files never see each other's changes.
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+
+const SERVER = fileURLToPath(new URL('../build/index.js', import.meta.url));
+
+// IDs from fixtures/sandbox.json
+export const IDS = {
+  server: '1100000000000000001',
+  bot: '1100000000000000100',
+  botRole: '1100000000000000302',
+  olivia: '1100000000000000101',
+  alice: '1100000000000000102',
+  bob: '1100000000000000103',
+  carol: '1100000000000000104',
+  dave: '1100000000000000105',
+  helperbot: '1100000000000000106',
+  eve: '1100000000000000107',
+  general: '1100000000000000211',
+  modLog: '1100000000000000221',
+  help: '1100000000000000213',
+  weekendPlans: '1100000000000000230',
+};
+
+/**
+ * Starts the server with --sandbox over stdio. Pass a fixture object to replace the default fixture, a policy
+ * object to restrict the server, and env to add environment variables. State files (audit log, schedules,
+ * policy) live in a temporary directory.
+ */
+export async function startSandbox({ fixture, policy = {}, env = {} } = {}) {
+  const dir = await mkdtemp(path.join(os.tmpdir(), 'discord-mcp-test-'));
+  const policyFile = path.join(dir, 'policy.json');
+  await writeFile(policyFile, JSON.stringify(policy));
+  let fixtureEnv = {};
+  if (fixture) {
+    fixtureEnv = { DISCORD_SANDBOX_FILE: path.join(dir, 'fixture.json') };
+    await writeFile(fixtureEnv.DISCORD_SANDBOX_FILE, JSON.stringify(fixture));
+  }
+
+  const transport = new StdioClientTransport({
+    command: process.execPath,
+    args: [SERVER, '--sandbox'],
+    stderr: 'ignore',
+    env: {
+      DISCORD_MCP_TRANSPORT: 'stdio',
+      DISCORD_AUDIT_LOG_FILE: path.join(dir, 'audit-log.jsonl'),
+      DISCORD_SCHEDULE_FILE: path.join(dir, 'scheduled-messages.json'),
+      DISCORD_POLICY_FILE: policyFile,
+      DISCORD_ATTACHMENT_DIR: dir,
+      DISCORD_REQUIRE_CONFIRMATION: 'false',
+      ...fixtureEnv,
+      ...env,
+    },
+  });
+  const client = new Client({ name: 'discord-mcp-tests', version: '1.0.0' });
+  await client.connect(transport);
+  // Listing the tools makes the client check every structured result against the tool's outputSchema
+  await client.listTools();
+
+  return {
+    client,
+    dir,
+    /** Calls a tool that must succeed and returns its structured output. */
+    async call(name, args = {}) {
+      const result = await client.callTool({ name, arguments: args });
+      assert.ok(!result.isError, `${name} failed: ${result.content?.[0]?.text}`);
+      return result.structuredContent;
+    },
+    /** Calls a tool that must fail and returns its { code, message } error. */
+    async callError(name, args = {}) {
+      const result = await client.callTool({ name, arguments: args });
+      assert.ok(result.isError, `${name} unexpectedly succeeded: ${JSON.stringify(result.structuredContent)}`);
+      assert.deepEqual(JSON.parse(result.content[0].text), result.structuredContent);
+      return result.structuredContent.error;
+    },
+    async close() {
+      await client.close();
+      await rm(dir, { recursive: true, force: true });
+    },
+  };
+}
@@ -0,0 +1,90 @@
+import assert from 'node:assert/strict';
+import { spawn } from 'node:child_process';
+import { once } from 'node:events';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import net from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { fileURLToPath } from 'node:url';
+import { after, before, describe, test } from 'node:test';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+
+const SERVER = fileURLToPath(new URL('../build/index.js', import.meta.url));
+
+// Helper function to find a port nothing is listening on
+async function freePort() {
+  const probe = net.createServer().listen(0, '127.0.0.1');
+  await once(probe, 'listening');
+  const { port } = probe.address();
+  probe.close();
+  return port;
+}
+
+describe('http transport', () => {
+  let child;
+  let dir;
+  let url;
+  before(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), 'discord-mcp-test-'));
+    await writeFile(path.join(dir, 'policy.json'), '{}');
+    const port = await freePort();
+    url = new URL(`http://127.0.0.1:${port}/mcp`);
+    child = spawn(process.execPath, [SERVER, '--sandbox', '--transport', 'http', '--port', String(port)], {
+      env: {
+        DISCORD_MCP_TOKENS: 'token-a,token-b',
+        DISCORD_MCP_SESSION_IDLE_MINUTES: '0.02',
+        DISCORD_AUDIT_LOG_FILE: path.join(dir, 'audit-log.jsonl'),
+        DISCORD_SCHEDULE_FILE: path.join(dir, 'scheduled-messages.json'),
+        DISCORD_POLICY_FILE: path.join(dir, 'policy.json'),
+        DISCORD_ATTACHMENT_DIR: dir,
+      },
+      stdio: ['ignore', 'ignore', 'pipe'],
+    });
+    await new Promise((resolve, reject) => {
+      let output = '';
+      child.stderr.on('data', chunk => {
+        output += chunk;
+        if (output.includes('running on http')) resolve();
+      });
+      child.once('exit', code => reject(new Error(`Server exited with code ${code}: ${output}`)));
+    });
+  });
+  after(async () => {
+    child.kill();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  // Helper function to open an MCP session with a bearer token
+  async function connect(token) {
+    const client = new Client({ name: 'discord-mcp-tests', version: '1.0.0' });
+    const transport = new StreamableHTTPClientTransport(url, { requestInit: { headers: { Authorization: `Bearer ${token}` } } });
+    await client.connect(transport);
+    return { client, transport };
+  }
+
+  test('a session only accepts the token that opened it', async () => {
+    const { client, transport } = await connect('token-a');
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        Authorization: 'Bearer token-b',
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        'Mcp-Session-Id': transport.sessionId,
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+    assert.equal(response.status, 403);
+    assert.ok((await client.listTools()).tools.length > 0);
+    await client.close();
+  });
+
+  test('idle sessions are closed', async () => {
+    const { client } = await connect('token-b');
+    await sleep(2000);
+    await assert.rejects(client.listTools(), /not found/);
+    await client.close();
+  });
+});
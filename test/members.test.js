@@ -0,0 +1,130 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import { after, before, describe, test } from 'node:test';
+import { IDS, startSandbox } from './helpers.js';
+
+describe('members and moderation', () => {
+  let sandbox;
+  before(async () => { sandbox = await startSandbox(); });
+  after(() => sandbox.close());
+
+  test('get-member-count, list-members and search-members', async () => {
+    const count = await sandbox.call('get-member-count');
+    assert.equal(count.memberCount, 7);
+    assert.equal(count.approximateMemberCount, 7);
+
+    const bots = await sandbox.call('list-members', { bots: true });
+    assert.deepEqual(bots.members.map(member => member.user), ['Sandbox Bot', 'helperbot']);
+
+    const moderators = await sandbox.call('list-members', { role: 'Moderator' });
+    assert.deepEqual(moderators.members.map(member => member.user), ['alice']);
+
+    const paged = await sandbox.call('list-members', { limit: 3 });
+    assert.equal(paged.members.length, 3);
+    const rest = await sandbox.call('list-members', { limit: 10, cursor: paged.nextCursor });
+    assert.equal(rest.members.length, 4);
+
+    const found = await sandbox.call('search-members', { query: 'ally' });
+    assert.deepEqual(found.members.map(member => member.user), ['alice']);
+  });
+
+  test('get-member-info describes a member', async () => {
+    const info = await sandbox.call('get-member-info', { user: 'dave' });
+    assert.equal(info.id, IDS.dave);
+    assert.equal(info.timedOut, true);
+    assert.deepEqual(info.roles.map(role => role.name), ['Member']);
+  });
+
+  test('get-activity-stats summarizes recent messages', async () => {
+    const stats = await sandbox.call('get-activity-stats', { channels: ['general'] });
+    assert.equal(stats.totals.messages, 7);
+    assert.equal(stats.totals.activeUsers, 5);
+    assert.deepEqual(stats.perUser.slice(0, 2).map(entry => [entry.user, entry.messages]).sort(), [['alice', 2], ['bob', 2]]);
+    assert.equal(stats.members.joined, 1);
+  });
+
+  test('get-activity-stats keeps counting when a channel cannot be read', async () => {
+    // Without the bot role's ViewChannel overwrite, reading #mod-log fails with Missing Access
+    const fixture = JSON.parse(await readFile(new URL('../fixtures/sandbox.json', import.meta.url), 'utf8'));
+    const modLog = fixture.guilds[0].channels.find(channel => channel.id === IDS.modLog);
+    modLog.permissionOverwrites = modLog.permissionOverwrites.filter(overwrite => overwrite.id !== IDS.botRole);
+    const hidden = await startSandbox({ fixture });
+    try {
+      const stats = await hidden.call('get-activity-stats');
+      assert.equal(stats.incomplete, true);
+      assert.deepEqual(stats.errors.map(entry => entry.channel), ['#mod-log']);
+      assert.match(stats.errors[0].error, /Missing Access/);
+      assert.ok(!stats.perChannel.some(channel => channel.channel === 'mod-log'));
+      assert.equal(stats.perChannel.find(channel => channel.channel === 'general').messages, 7);
+      assert.equal(stats.totals.channelsScanned, stats.perChannel.length);
+    } finally {
+      await hidden.close();
+    }
+  });
+
+  test('get-activity-stats refuses windows longer than 366 days', async () => {
+    const error = await sandbox.callError('get-activity-stats', { since: '1970-01-01T00:00:00Z' });
+    assert.equal(error.code, 'INVALID_ARGUMENTS');
+  });
+
+  test('get-activity-stats lists the channels it had no time for', async () => {
+    const hurried = await startSandbox({ env: { DISCORD_TIME_BUDGET_SECONDS: '0.001' } });
+    try {
+      const stats = await hurried.call('get-activity-stats');
+      assert.equal(stats.incomplete, true);
+      assert.ok(stats.skippedChannels.length > 0);
+      assert.ok(stats.skippedChannels.every(channel => channel.startsWith('#')));
+    } finally {
+      await hurried.close();
+    }
+  });
+
+  test('timeout-member and remove-timeout', async () => {
+    const timedOut = await sandbox.call('timeout-member', { user: 'bob', durationMinutes: 15, reason: 'Cool down' });
+    assert.ok(Date.parse(timedOut.until) > Date.now());
+    assert.equal((await sandbox.call('get-member-info', { user: 'bob' })).timedOut, true);
+
+    await sandbox.call('remove-timeout', { user: 'bob', reason: 'Served' });
+    assert.equal((await sandbox.call('get-member-info', { user: 'bob' })).timedOut, false);
+
+    const error = await sandbox.callError('timeout-member', { user: 'olivia', durationMinutes: 5, reason: 'No' });
+    assert.equal(error.code, 'NOT_MANAGEABLE');
+  });
+
+  test('kick-member, ban-member, list-bans and unban-user', async () => {
+    await sandbox.call('kick-member', { user: 'dave', reason: 'Spam' });
+    assert.ok(!(await sandbox.call('list-members')).members.some(member => member.user === 'dave'));
+
+    const banned = await sandbox.call('ban-member', { user: 'carol', reason: 'Raid', deleteMessageDays: 1 });
+    assert.equal(banned.wasMember, true);
+    const { messages } = await sandbox.call('read-messages', { channel: 'general' });
+    assert.ok(!messages.some(message => message.author === 'carol'));
+
+    await sandbox.call('unban-user', { user: IDS.eve, reason: 'Appeal accepted' });
+    const { bans } = await sandbox.call('list-bans');
+    assert.deepEqual(bans.map(ban => [ban.user, ban.reason]), [['carol', 'Raid']]);
+  });
+
+  test('read-discord-audit-log records the moderation actions', async () => {
+    const { entries } = await sandbox.call('read-discord-audit-log', { limit: 10 });
+    assert.deepEqual(entries.slice(0, 4).map(entry => [entry.action, entry.target]), [
+      ['MemberBanRemove', 'eve'],
+      ['MemberBanAdd', 'carol'],
+      ['MemberKick', 'dave'],
+      ['MemberUpdate', 'bob'],
+    ]);
+    assert.equal(entries[2].reason, 'Spam');
+
+    const kicks = await sandbox.call('read-discord-audit-log', { actionType: 'MemberKick' });
+    assert.equal(kicks.entries.length, 1);
+  });
+
+  test('messages of members who have left can still be matched by ID or mention', async () => {
+    // dave was kicked above
+    const found = await sandbox.call('search-messages', { channels: ['general'], author: IDS.dave });
+    assert.equal(found.totalMatches, 1);
+
+    const deleted = await sandbox.call('bulk-delete-messages', { channel: 'general', count: 10, author: `<@${IDS.dave}>` });
+    assert.equal(deleted.matched, 1);
+  });
+});
@@ -0,0 +1,127 @@
+import assert from 'node:assert/strict';
+import { writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { after, before, describe, test } from 'node:test';
+import { IDS, startSandbox } from './helpers.js';
+
+describe('messages', () => {
+  let sandbox;
+  before(async () => { sandbox = await startSandbox(); });
+  after(() => sandbox.close());
+
+  test('read-messages returns history newest first with a cursor', async () => {
+    const { messages, nextCursor } = await sandbox.call('read-messages', { channel: 'general', limit: 3 });
+    assert.deepEqual(messages.map(message => message.author), ['bob', 'olivia', 'carol']);
+    assert.ok(nextCursor);
+
+    const older = await sandbox.call('read-messages', { channel: 'general', limit: 2, ...nextCursor });
+    assert.deepEqual(older.messages.map(message => message.author), ['dave', 'alice']);
+  });
+
+  test('read-messages resolves channels by ID and rejects unknown ones', async () => {
+    const { messages } = await sandbox.call('read-messages', { channel: IDS.modLog });
+    assert.equal(messages[0].content, 'Warned dave for spamming in #general.');
+
+    const error = await sandbox.callError('read-messages', { channel: 'no-such-channel' });
+    assert.equal(error.code, 'NOT_FOUND');
+  });
+
+  test('read-multiple-channels merges several channels', async () => {
+    const result = await sandbox.call('read-multiple-channels', { channels: ['general', 'off-topic'], limitPerChannel: 1 });
+    assert.equal(result.channelCount, 2);
+    assert.deepEqual(result.messages.map(message => message.channel).sort(), ['#general', '#off-topic']);
+    assert.equal(result.incomplete, false);
+    assert.deepEqual(result.skippedChannels, []);
+
+    const everything = await sandbox.call('read-multiple-channels', { limitPerChannel: 50, timeBudgetSeconds: 10 });
+    assert.equal(everything.messages.filter(message => message.channel === '#general').length, 8);
+  });
+
+  test('send-message posts text, embeds, replies and attachments', async () => {
+    const sent = await sandbox.call('send-message', {
+      channel: 'general',
+      message: 'Hello from the tests',
+      embeds: [{ title: 'Release notes', description: 'Version 2', color: '#00ff00' }],
+    });
+    assert.equal(sent.channel, 'general');
+
+    await writeFile(path.join(sandbox.dir, 'notes.txt'), 'attached');
+    await sandbox.call('send-message', { channel: 'general', message: 'A reply', replyTo: sent.messageId, files: ['notes.txt'] });
+
+    const { messages } = await sandbox.call('read-messages', { channel: 'general', limit: 2 });
+    assert.equal(messages[0].content, 'A reply');
+    assert.equal(messages[0].author, 'Sandbox Bot');
+    assert.equal(messages[1].content, 'Hello from the tests');
+
+    const error = await sandbox.callError('send-message', { channel: 'general', message: 'x', replyTo: '1' });
+    assert.match(error.message, /Cannot reply to message 1/);
+  });
+
+  test('send-message only resolves channels that can hold messages', async () => {
+    const error = await sandbox.callError('send-message', { channel: 'Community', message: 'hi' });
+    assert.equal(error.code, 'NOT_FOUND');
+    assert.match(error.message, /Available: .*"#general"/);
+  });
+
+  test('edit-message and delete-message change only the bot\'s own messages', async () => {
+    const { messageId } = await sandbox.call('send-message', { channel: 'off-topic', message: 'typo' });
+    await sandbox.call('edit-message', { channel: 'off-topic', messageId, message: 'fixed' });
+    let { messages } = await sandbox.call('read-messages', { channel: 'off-topic', limit: 1 });
+    assert.equal(messages[0].content, 'fixed');
+
+    const others = (await sandbox.call('read-messages', { channel: 'off-topic' })).messages.find(message => message.author === 'helperbot');
+    const error = await sandbox.callError('edit-message', { channel: 'off-topic', messageId: others.id, message: 'hijacked' });
+    assert.match(error.message, /only allows the bot to edit its own messages/);
+
+    await sandbox.call('delete-message', { channel: 'off-topic', messageId });
+    ({ messages } = await sandbox.call('read-messages', { channel: 'off-topic' }));
+    assert.ok(!messages.some(message => message.id === messageId));
+  });
+
+  test('pin-message, list-pinned-messages and unpin-message', async () => {
+    const { messageId } = await sandbox.call('send-message', { channel: 'general', message: 'Pin me' });
+    await sandbox.call('pin-message', { channel: 'general', messageId });
+    let pinned = await sandbox.call('list-pinned-messages', { channel: 'general' });
+    assert.deepEqual(pinned.messages.map(message => message.content), ['Pin me', 'Welcome to the Sandbox Server!']);
+
+    await sandbox.call('unpin-message', { channel: 'general', messageId });
+    pinned = await sandbox.call('list-pinned-messages', { channel: 'general' });
+    assert.deepEqual(pinned.messages.map(message => message.content), ['Welcome to the Sandbox Server!']);
+  });
+
+  test('search-messages filters by text, author and attachments', async () => {
+    const byText = await sandbox.call('search-messages', { query: 'be kind' });
+    assert.deepEqual(byText.matches.map(match => match.channel).sort(), ['#general', '#rules']);
+
+    const byAuthor = await sandbox.call('search-messages', { channels: ['general'], author: 'dave' });
+    assert.equal(byAuthor.totalMatches, 1);
+
+    const withFiles = await sandbox.call('search-messages', { channels: ['general'], hasAttachment: true, query: 'error' });
+    assert.equal(withFiles.matches[0].author, 'bob');
+  });
+
+  test('invalid patterns and empty updates are reported as invalid arguments', async () => {
+    const regex = await sandbox.callError('search-messages', { query: '(unclosed', regex: true });
+    assert.equal(regex.code, 'INVALID_ARGUMENTS');
+    assert.match(regex.message, /Invalid regular expression/);
+    const long = await sandbox.callError('search-messages', { query: 'a'.repeat(201), regex: true });
+    assert.equal(long.code, 'INVALID_ARGUMENTS');
+
+    assert.equal((await sandbox.callError('update-role', { role: 'Member' })).code, 'INVALID_ARGUMENTS');
+    assert.equal((await sandbox.callError('create-role', { roleName: 'Typo', permissions: ['SendMessage'] })).code, 'INVALID_ARGUMENTS');
+  });
+
+  test('bulk-delete-messages deletes recent matches in bulk and old ones individually', async () => {
+    const byAuthor = await sandbox.call('bulk-delete-messages', { channel: 'general', count: 10, author: 'dave' });
+    assert.equal(byAuthor.matched, 1);
+
+    // The welcome message is 20 days old, past Discord's 14-day bulk delete limit
+    const all = await sandbox.call('bulk-delete-messages', { channel: 'general', count: 100 });
+    assert.ok(all.bulkDeleted > 1);
+    assert.equal(all.individuallyDeleted, 1);
+    assert.deepEqual(all.failed, []);
+
+    const { messages } = await sandbox.call('read-messages', { channel: 'general' });
+    assert.deepEqual(messages, []);
+  });
+});
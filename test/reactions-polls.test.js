@@ -0,0 +1,69 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import { IDS, startSandbox } from './helpers.js';
+
+describe('reactions and polls', () => {
+  let sandbox;
+  let reminder;
+  let poll;
+  before(async () => {
+    sandbox = await startSandbox();
+    const { messages } = await sandbox.call('read-messages', { channel: 'general' });
+    reminder = messages.find(message => message.content.startsWith('Reminder')).id;
+    poll = messages.find(message => message.author === 'olivia' && message.content === '').id;
+  });
+  after(() => sandbox.close());
+
+  test('list-reactions shows unicode and custom emoji with their users', async () => {
+    const { reactions } = await sandbox.call('list-reactions', { channel: 'general', messageId: reminder });
+    assert.deepEqual(reactions.map(reaction => [reaction.emoji, reaction.count]), [
+      ['👍', 2],
+      ['<:partyblob:1100000000000000401>', 1],
+    ]);
+    assert.deepEqual(reactions[0].users.map(user => user.user), ['bob', 'carol']);
+  });
+
+  test('add-reaction and remove-reaction', async () => {
+    const added = await sandbox.call('add-reaction', { channel: 'general', messageId: reminder, emoji: 'partyblob' });
+    assert.equal(added.emoji, '<:partyblob:1100000000000000401>');
+    await sandbox.call('add-reaction', { channel: 'general', messageId: reminder, emoji: '👍' });
+
+    const removed = await sandbox.call('remove-reaction', { channel: 'general', messageId: reminder, emoji: '👍', user: 'bob' });
+    assert.equal(removed.userId, IDS.bob);
+    await sandbox.call('remove-reaction', { channel: 'general', messageId: reminder, emoji: ':partyblob:' });
+
+    const { reactions } = await sandbox.call('list-reactions', { channel: 'general', messageId: reminder });
+    assert.deepEqual(reactions[0].users.map(user => user.user), ['Sandbox Bot', 'carol']);
+    assert.equal(reactions[0].includesBot, true);
+    assert.deepEqual(reactions[1].users.map(user => user.user), ['olivia']);
+
+    const error = await sandbox.callError('add-reaction', { channel: 'general', messageId: reminder, emoji: 'no_such_emoji' });
+    assert.match(error.message, /neither a unicode emoji nor a custom emoji/);
+  });
+
+  test('get-poll-results reports votes and voters', async () => {
+    const results = await sandbox.call('get-poll-results', { channel: 'general', messageId: poll, includeVoters: true });
+    assert.equal(results.question, 'What should our next event be?');
+    assert.equal(results.totalVotes, 3);
+    assert.deepEqual(results.answers.map(answer => [answer.text, answer.votes, answer.voters.map(voter => voter.user)]), [
+      ['Game night', 2, ['alice', 'bob']],
+      ['Movie night', 1, ['carol']],
+    ]);
+  });
+
+  test('create-poll posts a poll that get-poll-results can read', async () => {
+    const created = await sandbox.call('create-poll', {
+      channel: 'general',
+      question: 'Best day?',
+      answers: [{ text: 'Saturday', emoji: '🎉' }, { text: 'Sunday', emoji: 'partyblob' }],
+      durationHours: 24,
+      allowMultiselect: true,
+    });
+    assert.ok(Date.parse(created.expiresAt) > Date.now());
+
+    const results = await sandbox.call('get-poll-results', { channel: 'general', messageId: created.messageId });
+    assert.equal(results.allowMultiselect, true);
+    assert.equal(results.totalVotes, 0);
+    assert.deepEqual(results.answers.map(answer => answer.emoji), ['🎉', '<:partyblob:1100000000000000401>']);
+  });
+});
@@ -0,0 +1,91 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import { IDS, startSandbox } from './helpers.js';
+
+describe('roles', () => {
+  let sandbox;
+  before(async () => { sandbox = await startSandbox(); });
+  after(() => sandbox.close());
+
+  test('list-roles returns every role with its permissions', async () => {
+    const { roles } = await sandbox.call('list-roles');
+    assert.deepEqual(roles.map(role => role.name), ['@everyone', 'Admin', 'Sandbox Bot', 'Moderator', 'Member', 'Muted']);
+    assert.deepEqual(roles.find(role => role.name === 'Admin').permissions, ['Administrator']);
+  });
+
+  test('create-role, update-role and delete-role', async () => {
+    const created = await sandbox.call('create-role', { roleName: 'Event Host', color: '#ff9900', permissions: ['ManageEvents'], mentionable: true });
+    assert.equal(created.role, 'Event Host');
+
+    await sandbox.call('update-role', { role: 'Event Host', newName: 'Event Team', newColor: '#123456' });
+    const { roles } = await sandbox.call('list-roles');
+    const role = roles.find(candidate => candidate.id === created.roleId);
+    assert.equal(role.name, 'Event Team');
+    assert.equal(role.color, '#123456');
+    assert.equal(role.mentionable, true);
+
+    await sandbox.call('delete-role', { role: created.roleId });
+    assert.ok(!(await sandbox.call('list-roles')).roles.some(candidate => candidate.id === created.roleId));
+  });
+
+  test('assign-role and remove-role update the member', async () => {
+    await sandbox.call('assign-role', { user: 'carol', role: 'Member', reason: 'Passed screening' });
+    let info = await sandbox.call('get-member-info', { user: 'carol' });
+    assert.deepEqual(info.roles.map(role => role.name), ['Member']);
+
+    await sandbox.call('remove-role', { user: IDS.carol, role: 'Member' });
+    info = await sandbox.call('get-member-info', { user: 'carol' });
+    assert.deepEqual(info.roles, []);
+  });
+
+  test('granting permissions needs confirmation when confirmation is required', async () => {
+    const strict = await startSandbox({ env: { DISCORD_REQUIRE_CONFIRMATION: 'true' } });
+    try {
+      const create = await strict.call('create-role', { roleName: 'Helpers', permissions: ['ManageMessages'] });
+      assert.equal(create.status, 'confirmation_required');
+      assert.deepEqual(create.preview.elevatedPermissions, ['ManageMessages']);
+      assert.equal((await strict.call('create-role', { roleName: 'Plain' })).role, 'Plain');
+
+      const assign = await strict.call('assign-role', { user: 'bob', role: 'Moderator' });
+      assert.equal(assign.status, 'confirmation_required');
+      assert.deepEqual(assign.preview.elevatedPermissions, ['ManageMessages', 'KickMembers', 'BanMembers', 'ModerateMembers']);
+      await strict.call('assign-role', { user: 'bob', role: 'Moderator', confirmationToken: assign.confirmationToken });
+      assert.ok((await strict.call('get-member-info', { user: 'bob' })).roles.some(role => role.name === 'Moderator'));
+
+      assert.equal((await strict.call('assign-role', { user: 'carol', role: 'Member' })).role, 'Member');
+    } finally {
+      await strict.close();
+    }
+  });
+
+  test('roles above the bot cannot be managed', async () => {
+    const manageability = await sandbox.call('check-role-manageability', { role: 'Admin' });
+    assert.equal(manageability.actions.assign.allowed, false);
+    assert.equal((await sandbox.call('check-role-manageability', { role: 'Moderator' })).actions.assign.allowed, true);
+
+    const error = await sandbox.callError('assign-role', { user: 'bob', role: 'Admin' });
+    assert.equal(error.code, 'NOT_MANAGEABLE');
+  });
+
+  test('get-role-member-count counts and lists role members', async () => {
+    const result = await sandbox.call('get-role-member-count', { role: 'Moderator', includeMembers: true });
+    assert.equal(result.memberCount, 1);
+    assert.equal(result.incomplete, false);
+    assert.deepEqual(result.members.map(member => member.user), ['alice']);
+  });
+
+  test('bulk-assign-role and bulk-remove-role by filter and by user list', async () => {
+    const assigned = await sandbox.call('bulk-assign-role', { role: 'Muted', filter: { lacksRole: 'Member', bots: false } });
+    assert.deepEqual(assigned.outcomes.map(outcome => [outcome.user, outcome.outcome]), [['carol', 'changed']]);
+
+    const removed = await sandbox.call('bulk-remove-role', { role: 'Muted', users: ['carol', 'bob'] });
+    assert.deepEqual(removed.summary, { changed: 1, skipped: 1, failed: 0 });
+  });
+
+  test('bulk-assign-role rejects invalid and overlong name patterns', async () => {
+    const invalid = await sandbox.callError('bulk-assign-role', { role: 'Muted', filter: { namePattern: '(unclosed' } });
+    assert.equal(invalid.code, 'INVALID_ARGUMENTS');
+    const long = await sandbox.callError('bulk-assign-role', { role: 'Muted', filter: { namePattern: 'a'.repeat(201) } });
+    assert.equal(long.code, 'INVALID_ARGUMENTS');
+  });
+});
@@ -0,0 +1,182 @@
+import assert from 'node:assert/strict';
+import { readdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { after, before, describe, test } from 'node:test';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { IDS, startSandbox } from './helpers.js';
+
+describe('server', () => {
+  let sandbox;
+  before(async () => { sandbox = await startSandbox(); });
+  after(() => sandbox.close());
+
+  test('every tool has an output schema, a bot argument and a test', async () => {
+    const { tools } = await sandbox.client.listTools();
+    assert.ok(tools.length > 0);
+
+    const testDir = new URL('.', import.meta.url);
+    const files = (await readdir(testDir)).filter(file => file.endsWith('.test.js'));
+    const sources = (await Promise.all(files.map(file => readFile(new URL(file, testDir), 'utf8')))).join('\n');
+    for (const tool of tools) {
+      assert.ok(tool.outputSchema, `${tool.name} has no outputSchema`);
+      assert.ok(tool.inputSchema.properties.bot, `${tool.name} has no bot argument`);
+      assert.ok(sources.includes(`'${tool.name}'`), `${tool.name} is not covered by a test`);
+    }
+  });
+
+  test('list-servers and the markdown format', async () => {
+    assert.deepEqual((await sandbox.call('list-servers')).servers, [{ id: IDS.server, name: 'Sandbox Server', bots: ['sandbox'] }]);
+
+    const result = await sandbox.client.callTool({ name: 'list-roles', arguments: { format: 'markdown' } });
+    assert.match(result.content[0].text, /^6 role\(s\) in server "Sandbox Server"/);
+    assert.match(result.content[0].text, /\| id \| name \| color \|/);
+
+    const failed = await sandbox.client.callTool({ name: 'get-role-member-count', arguments: { role: 'Nobody', format: 'markdown' } });
+    assert.equal(failed.isError, true);
+    assert.match(failed.content[0].text, /^\*\*Error \(NOT_FOUND\):\*\*/);
+    assert.equal(failed.structuredContent.error.code, 'NOT_FOUND');
+  });
+
+  test('dryRun previews a change and its token executes it', async () => {
+    const preview = await sandbox.call('kick-member', { user: 'dave', reason: 'Spam', dryRun: true });
+    assert.equal(preview.status, 'dry_run');
+    assert.equal(preview.preview.member.user, 'dave');
+    assert.equal((await sandbox.call('get-member-count')).memberCount, 7);
+
+    const error = await sandbox.callError('kick-member', { user: 'dave', reason: 'Other', confirmationToken: preview.confirmationToken });
+    assert.equal(error.code, 'CONFIRMATION_INVALID');
+
+    await sandbox.call('kick-member', { user: 'dave', reason: 'Spam', confirmationToken: preview.confirmationToken });
+    assert.equal((await sandbox.call('get-member-count')).memberCount, 6);
+  });
+
+  test('a confirmation token acts only on the targets its preview listed', async () => {
+    await sandbox.call('send-message', { channel: 'off-topic', message: 'cleanup: first' });
+    const deletePreview = await sandbox.call('bulk-delete-messages', { channel: 'off-topic', count: 10, contains: 'cleanup', dryRun: true });
+    assert.equal(deletePreview.preview.messages.length, 1);
+    await sandbox.call('send-message', { channel: 'off-topic', message: 'cleanup: sent after the preview' });
+    const deleted = await sandbox.call('bulk-delete-messages', { channel: 'off-topic', count: 10, contains: 'cleanup', confirmationToken: deletePreview.confirmationToken });
+    assert.equal(deleted.matched, 1);
+    const { messages } = await sandbox.call('read-messages', { channel: 'off-topic' });
+    assert.ok(messages.some(message => message.content === 'cleanup: sent after the preview'));
+
+    const args = { role: 'Muted', filter: { lacksRole: 'Member', bots: false } };
+    const rolePreview = await sandbox.call('bulk-assign-role', { ...args, dryRun: true });
+    assert.deepEqual(rolePreview.preview.members.map(member => member.user), ['carol']);
+    await sandbox.call('remove-role', { user: 'bob', role: 'Member' });
+    const assigned = await sandbox.call('bulk-assign-role', { ...args, confirmationToken: rolePreview.confirmationToken });
+    assert.deepEqual(assigned.outcomes.map(outcome => outcome.user), ['carol']);
+  });
+
+  test('resources expose channels, roles and messages', async () => {
+    const { resources } = await sandbox.client.listResources();
+    assert.ok(resources.some(resource => resource.uri === `discord://${IDS.server}/channels`));
+    assert.ok(resources.some(resource => resource.uri === `discord://${IDS.server}/${IDS.general}/messages`));
+
+    const { contents } = await sandbox.client.readResource({ uri: `discord://${IDS.server}/roles` });
+    assert.equal(JSON.parse(contents[0].text)[0].name, 'Admin');
+  });
+
+  test('resource subscriptions resolve names and refuse what reads would refuse', { timeout: 10_000 }, async () => {
+    const uri = 'discord://Sandbox%20Server/general/messages';
+    const updated = new Promise(resolve => {
+      sandbox.client.setNotificationHandler(ResourceUpdatedNotificationSchema, notification => resolve(notification.params.uri));
+    });
+    await sandbox.client.subscribeResource({ uri });
+    await sandbox.call('send-message', { channel: IDS.general, message: 'Subscribed by name' });
+    assert.equal(await updated, uri);
+
+    await assert.rejects(sandbox.client.subscribeResource({ uri: `discord://${IDS.server}/no-such-channel/messages` }), /not found/);
+    await sandbox.client.unsubscribeResource({ uri });
+
+    const restricted = await startSandbox({ policy: { channels: { deny: ['mod-log'] } } });
+    try {
+      await assert.rejects(restricted.client.subscribeResource({ uri: `discord://${IDS.server}/mod-log/messages` }), /Refused by policy/);
+    } finally {
+      await restricted.close();
+    }
+  });
+
+  test('unknown bots are rejected', async () => {
+    const error = await sandbox.callError('list-roles', { bot: 'nobody' });
+    assert.equal(error.code, 'NOT_FOUND');
+    assert.match(error.message, /Available bots: "sandbox"/);
+  });
+});
+
+describe('multiple bots', () => {
+  const SHARED = '1200000000000000001';
+  const OTHER = '1200000000000000002';
+  const fixture = {
+    bots: {
+      main: { id: '1200000000000000100', username: 'Main Bot' },
+      helper: { id: '1200000000000000200', username: 'Helper Bot' },
+    },
+    users: [{ id: '1200000000000000101', username: 'owner' }],
+    guilds: [
+      {
+        id: SHARED,
+        name: 'Shared',
+        owner: '1200000000000000101',
+        roles: [{ id: SHARED, name: '@everyone', position: 0, permissions: ['ViewChannel', 'SendMessages', 'ReadMessageHistory'] }],
+        channels: [{ id: '1200000000000000011', name: 'general', type: 'text' }],
+        members: [
+          { user: '1200000000000000101', joinedAt: '-30d' },
+          { user: '1200000000000000100', joinedAt: '-20d' },
+          { user: '1200000000000000200', joinedAt: '-10d' },
+        ],
+      },
+      {
+        id: OTHER,
+        name: 'Helper Only',
+        owner: '1200000000000000101',
+        roles: [{ id: OTHER, name: '@everyone', position: 0, permissions: ['ViewChannel', 'SendMessages', 'ReadMessageHistory'] }],
+        channels: [{ id: '1200000000000000021', name: 'lobby', type: 'text' }],
+        members: [
+          { user: '1200000000000000101', joinedAt: '-30d' },
+          { user: '1200000000000000200', joinedAt: '-10d' },
+        ],
+      },
+    ],
+  };
+
+  let sandbox;
+  before(async () => { sandbox = await startSandbox({ fixture }); });
+  after(() => sandbox.close());
+
+  test('list-servers shows which bots are in each server', async () => {
+    const { servers } = await sandbox.call('list-servers');
+    assert.deepEqual(servers.map(server => [server.name, server.bots]), [
+      ['Shared', ['main', 'helper']],
+      ['Helper Only', ['helper']],
+    ]);
+  });
+
+  test('the bot argument picks the account that makes the call', async () => {
+    await sandbox.call('send-message', { server: 'Shared', channel: 'general', message: 'From helper', bot: 'helper' });
+    const { messages } = await sandbox.call('read-messages', { server: 'Shared', channel: 'general', bot: 'main' });
+    assert.equal(messages[0].author, 'Helper Bot');
+
+    await sandbox.call('send-message', { server: 'Helper Only', channel: 'lobby', message: 'Hi' });
+    const error = await sandbox.callError('read-messages', { server: 'Helper Only', channel: 'lobby', bot: 'main' });
+    assert.equal(error.code, 'NOT_FOUND');
+  });
+
+  test('get-audit-log leaves out calls in servers the policy refuses', async () => {
+    const all = await sandbox.call('get-audit-log', { tool: 'send-message' });
+    assert.ok(all.entries.some(entry => entry.resolved.guildIds.includes(OTHER)));
+
+    const restricted = await startSandbox({
+      fixture,
+      policy: { guilds: { deny: ['Helper Only'] } },
+      env: { DISCORD_AUDIT_LOG_FILE: path.join(sandbox.dir, 'audit-log.jsonl') },
+    });
+    try {
+      const { entries } = await restricted.call('get-audit-log', { tool: 'send-message' });
+      assert.ok(entries.length > 0);
+      assert.ok(entries.every(entry => !entry.resolved.guildIds.includes(OTHER)));
+    } finally {
+      await restricted.close();
+    }
+  });
+});
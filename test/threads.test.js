@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import { IDS, startSandbox } from './helpers.js';
+
+describe('threads and forums', () => {
+  let sandbox;
+  before(async () => { sandbox = await startSandbox(); });
+  after(() => sandbox.close());
+
+  test('list-threads lists active threads, and archived ones per channel', async () => {
+    const active = await sandbox.call('list-threads');
+    assert.deepEqual(active.threads.map(thread => thread.name), ['Weekend plans', "Bot won't start"]);
+    assert.deepEqual(active.threads[1].tags, ['question']);
+
+    const general = await sandbox.call('list-threads', { channel: 'general', includeArchived: true });
+    assert.deepEqual(general.threads.map(thread => [thread.name, thread.archived]), [
+      ['Weekend plans', false],
+      ['Old release discussion', true],
+    ]);
+
+    const error = await sandbox.callError('list-threads', { includeArchived: true });
+    assert.match(error.message, /requires a channel/);
+  });
+
+  test('create-thread starts public threads from messages and private standalone threads', async () => {
+    const { messages } = await sandbox.call('read-messages', { channel: 'general', limit: 1 });
+    const fromMessage = await sandbox.call('create-thread', { channel: 'general', name: 'Screenshot help', messageId: messages[0].id });
+    assert.equal(fromMessage.threadId, messages[0].id);
+    assert.equal(fromMessage.type, 'public-thread');
+
+    const standalone = await sandbox.call('create-thread', { channel: 'general', name: 'Planning', private: true, autoArchiveMinutes: 1440 });
+    assert.equal(standalone.type, 'private-thread');
+
+    await sandbox.call('send-message', { channel: standalone.threadId, message: 'Inside the thread' });
+    const inThread = await sandbox.call('read-messages', { channel: standalone.threadId });
+    assert.deepEqual(inThread.messages.map(message => message.content), ['Inside the thread']);
+  });
+
+  test('create-forum-post applies tags by name', async () => {
+    const post = await sandbox.call('create-forum-post', { forum: 'help', title: 'Crash on startup', message: 'It crashes', tags: ['bug'] });
+    assert.deepEqual(post.appliedTags, ['1100000000000000262']);
+
+    const { threads } = await sandbox.call('list-threads', { channel: IDS.help });
+    assert.deepEqual(threads.find(thread => thread.id === post.threadId).tags, ['bug']);
+
+    const error = await sandbox.callError('create-forum-post', { forum: 'help', title: 'x', message: 'x', tags: ['nope'] });
+    assert.equal(error.code, 'NOT_FOUND');
+  });
+
+  test('archive-thread archives and locks a thread', async () => {
+    const archived = await sandbox.call('archive-thread', { thread: 'Weekend plans', locked: true });
+    assert.equal(archived.threadId, IDS.weekendPlans);
+    assert.deepEqual([archived.archived, archived.locked], [true, true]);
+
+    const { threads } = await sandbox.call('list-threads');
+    assert.ok(!threads.some(thread => thread.id === IDS.weekendPlans));
+  });
+});